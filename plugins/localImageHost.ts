@@ -0,0 +1,87 @@
+import type { Plugin, Connect } from 'vite'
+import fs from 'fs/promises'
+import path from 'path'
+
+// Serves the "local" image host used when VITE_IMAGE_HOST=local.
+// Files are kept in .local-images/ at the project root:
+//   PUT    /__local-images/<name>  stores the request body
+//   GET    /__local-images/<name>  returns the file
+//   DELETE /__local-images/<id>    removes every file whose name starts with "<id>_"
+
+const ROUTE_PREFIX = '/__local-images/'
+const NAME_PATTERN = /^[a-z0-9._-]+$/i
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.heic': 'image/heic',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.m4v': 'video/mp4',
+}
+
+const readBody = (req: Connect.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+
+const createMiddleware = (storageDir: string): Connect.NextHandleFunction => async (req, res, next) => {
+  if (!req.url?.startsWith(ROUTE_PREFIX)) return next()
+
+  const name = decodeURIComponent(req.url.slice(ROUTE_PREFIX.length).split('?')[0])
+  if (!NAME_PATTERN.test(name)) {
+    res.statusCode = 400
+    res.end('Invalid file name')
+    return
+  }
+
+  try {
+    await fs.mkdir(storageDir, { recursive: true })
+    const filePath = path.join(storageDir, name)
+
+    if (req.method === 'PUT') {
+      await fs.writeFile(filePath, await readBody(req))
+      res.statusCode = 201
+      res.end()
+    } else if (req.method === 'DELETE') {
+      const files = await fs.readdir(storageDir)
+      await Promise.all(files.filter(f => f.startsWith(`${name}_`)).map(f => fs.unlink(path.join(storageDir, f))))
+      res.statusCode = 204
+      res.end()
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      const data = await fs.readFile(filePath)
+      res.setHeader('Content-Type', CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream')
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable')
+      res.end(req.method === 'HEAD' ? undefined : data)
+    } else {
+      res.statusCode = 405
+      res.end()
+    }
+  } catch (err: any) {
+    res.statusCode = err?.code === 'ENOENT' ? 404 : 500
+    res.end(err?.code === 'ENOENT' ? 'Not found' : String(err))
+  }
+}
+
+export function localImageHost(): Plugin {
+  let storageDir = ''
+  return {
+    name: 'local-image-host',
+    configResolved(config) {
+      storageDir = path.resolve(config.root, '.local-images')
+    },
+    configureServer(server) {
+      server.middlewares.use(createMiddleware(storageDir))
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(createMiddleware(storageDir))
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import type { Plugin, Rollup } from 'vite'
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+// Builds the service worker (src/sw.ts) to sw.js at the root of the output, next to index.html, so its
+// scope covers the whole app. The worker's __SW_MANIFEST__ is replaced with every file of the build and
+// of public/, which it precaches, plus a hash of their contents so that any change installs a new worker.
+// Chunks that are only loaded on demand (e.g. the HEIC decoder used for uploads) are left to the network.
+// Production builds only: the dev server never registers a worker.
+
+const ENTRY_NAME = 'sw'
+const OUTPUT_FILE = 'sw.js'
+const PLACEHOLDER = '__SW_MANIFEST__'
+
+const listFiles = async (dir: string, prefix = ''): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+  const nested = await Promise.all(entries.map(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : Promise.resolve([`${prefix}${entry.name}`])
+  ))
+  return nested.flat()
+}
+
+export function serviceWorker(entry = 'src/sw.ts'): Plugin {
+  let publicDir = ''
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After Vite's HTML plugin, so index.html is in the bundle by the time the file list is made
+    enforce: 'post',
+    config(config) {
+      const root = config.root ?? process.cwd()
+      return {
+        build: {
+          rollupOptions: {
+            input: {
+              index: path.resolve(root, 'index.html'),
+              [ENTRY_NAME]: path.resolve(root, entry),
+            },
+            output: {
+              entryFileNames: chunk => chunk.name === ENTRY_NAME ? OUTPUT_FILE : 'assets/[name]-[hash].js',
+            },
+          },
+        },
+      }
+    },
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    async generateBundle(_options, bundle) {
+      const worker = bundle[OUTPUT_FILE]
+      if (!worker || worker.type !== 'chunk') {
+        this.error(`${OUTPUT_FILE} is missing from the build`)
+      }
+      const hash = createHash('sha256')
+      const chunks = Object.values(bundle).filter((file): file is Rollup.OutputChunk => file.type === 'chunk')
+      const staticImports = new Set(chunks.flatMap(chunk => chunk.imports))
+      const isOnDemand = (file: Rollup.OutputChunk) => file.isDynamicEntry && !file.isEntry && !staticImports.has(file.fileName)
+      const builtFiles = Object.values(bundle).filter(file =>
+        file.fileName !== OUTPUT_FILE &&
+        !file.fileName.endsWith('.map') &&
+        !(file.type === 'chunk' && isOnDemand(file))
+      )
+      builtFiles.forEach(file => hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source))
+      const publicFiles = publicDir ? await listFiles(publicDir) : []
+      for (const name of publicFiles) {
+        hash.update(name).update(await fs.readFile(path.join(publicDir, name)))
+      }
+
+      const files = [...builtFiles.map(file => file.fileName), ...publicFiles].sort()
+      const version = hash.digest('hex').slice(0, 12)
+      worker.code = worker.code.replace(PLACEHOLDER, JSON.stringify({ version, files }))
+    },
+  }
+}
@@ -4,11 +4,18 @@ import { Navigation } from './components/Navigation';
 import { Home } from './components/Home';
 import { Albums } from './components/Albums';
 import { AlbumViewer } from './components/AlbumViewer';
-import { getAuth, onAuthStateChanged, User } from 'firebase/auth';
+import { Trash } from './components/Trash';
+import { Tools } from './components/Tools';
+import { Activity } from './components/Activity';
+import { subscribeToAuth, AuthUser } from './services/auth';
+import { useGalleryActions, useSchemaVersion } from './hooks/useGallery';
 import { UploadModal } from './components/UploadModal';
 import { CreateAlbumModal } from './components/CreateAlbumModal';
 import { EditAlbumModal } from './components/EditAlbumModal';
 import { TransferAlbumModal } from './components/TransferAlbumModal';
+import { UndoManager } from './components/UndoManager';
+import { UploadTray } from './components/UploadTray';
+import { Toaster } from './components/ui/sonner';
 import { AlbumWithStats } from './types';
 
 export default function App() {
@@ -16,17 +23,18 @@ export default function App() {
   const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
   
   // Centralized state management
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [isCreateAlbumOpen, setIsCreateAlbumOpen] = useState(false);
   const [editingAlbum, setEditingAlbum] = useState<AlbumWithStats | null>(null);
   const [transferringAlbum, setTransferringAlbum] = useState<AlbumWithStats | null>(null);
+  const { purgeExpiredTrash, runPendingMigrations, startUploadQueue } = useGalleryActions();
+  const storedSchemaVersion = useSchemaVersion();
 
   // Handle user authentication state
   useEffect(() => {
-    const auth = getAuth();
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+    const unsubscribe = subscribeToAuth((currentUser) => {
       setUser(currentUser);
       // Automatically turn off edit mode if user logs out
       if (!currentUser) {
@@ -36,6 +44,25 @@ export default function App() {
     return () => unsubscribe();
   }, []);
 
+  // Uploads need a signed-in user; those left by an earlier visit carry on once they are back
+  useEffect(() => {
+    if (user) return startUploadQueue();
+  }, [user, startUploadQueue]);
+
+  // Stored records are upgraded as soon as an editor is around to write them
+  useEffect(() => {
+    if (isEditMode) runPendingMigrations().catch(() => {});
+  }, [isEditMode, storedSchemaVersion, runPendingMigrations]);
+
+  // Editor-only tabs are hidden in viewer mode; expired trash is cleaned up whenever an editor shows up
+  useEffect(() => {
+    if (isEditMode) {
+      purgeExpiredTrash().catch(() => {});
+    } else {
+      setActiveTab(prev => ['trash', 'activity', 'tools'].includes(prev) ? 'home' : prev);
+    }
+  }, [isEditMode, purgeExpiredTrash]);
+
   const handleTabChange = (tab: string) => {
     setActiveTab(tab);
     setSelectedAlbumId(null); // Reset album selection when changing tabs
@@ -71,6 +98,9 @@ export default function App() {
       <CreateAlbumModal isOpen={isCreateAlbumOpen} onClose={() => setIsCreateAlbumOpen(false)} />
       <EditAlbumModal isOpen={!!editingAlbum} onClose={() => setEditingAlbum(null)} album={editingAlbum} />
       <TransferAlbumModal isOpen={!!transferringAlbum} onClose={() => setTransferringAlbum(null)} sourceAlbum={transferringAlbum} />
+      <UndoManager isEditMode={isEditMode} />
+      {user && <UploadTray />}
+      <Toaster theme="dark" position="bottom-center" />
 
       <main className="pt-14">
         {activeTab === 'home' && <Home isEditMode={isEditMode} />}
@@ -94,6 +124,12 @@ export default function App() {
             />
           )
         )}
+
+        {activeTab === 'trash' && isEditMode && <Trash />}
+
+        {activeTab === 'activity' && isEditMode && <Activity />}
+
+        {activeTab === 'tools' && isEditMode && <Tools />}
       </main>
     </div>
   );
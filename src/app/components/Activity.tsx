@@ -0,0 +1,174 @@
+import { useState, useEffect, useMemo } from 'react';
+import { History } from 'lucide-react';
+import { useAlbums, useGalleryActions } from '../hooks/useGallery';
+import { GALLERY_BACKEND } from '../services/backend';
+import { AUDIT_ACTION_LABELS, AuditChange, AuditEntry } from '../services/audit';
+import { ACTIVITY_LOG_LIMIT } from '../config/galleryConfig';
+
+const UNKNOWN_USER = 'unknown';
+
+const userKey = (entry: AuditEntry) => entry.user?.uid ?? UNKNOWN_USER;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+function ChangeDetails({ change }: { change: AuditChange }) {
+  const fields = [...new Set([...Object.keys(change.before ?? {}), ...Object.keys(change.after ?? {})])];
+  const verb = !change.before ? 'created' : !change.after ? 'removed' : 'changed';
+
+  return (
+    <div className="text-xs">
+      <p className="text-white/60">
+        {change.kind === 'photo' ? 'Photo' : 'Album'} <span className="font-mono">{change.id}</span> {verb}
+      </p>
+      <table className="mt-1 w-full">
+        <tbody>
+          {fields.map(field => (
+            <tr key={field} className="align-top">
+              <td className="pr-3 py-0.5 text-white/40 font-mono">{field}</td>
+              <td className="pr-3 py-0.5 text-red-300/70 break-all">{change.before && formatValue(change.before[field])}</td>
+              <td className="py-0.5 text-green-300/70 break-all">{change.after && formatValue(change.after[field])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function Activity() {
+  const albums = useAlbums();
+  const { loadActivity } = useGalleryActions();
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [userFilter, setUserFilter] = useState('');
+  const [albumFilter, setAlbumFilter] = useState('');
+  // yyyy-mm-dd from the date inputs, compared in local time
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    loadActivity()
+      .then(setEntries)
+      .catch(() => setError('Failed to load the activity log.'));
+  }, [loadActivity]);
+
+  const users = useMemo(() => {
+    const byKey = new Map<string, string>();
+    entries?.forEach(entry => byKey.set(userKey(entry), entry.user?.email || entry.user?.uid || 'Unknown user'));
+    return [...byKey].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  // Deleted albums still show up in the log, named from their last recorded change
+  const albumNames = useMemo(() => {
+    const names = new Map<string, string>();
+    entries?.forEach(entry => {
+      entry.albumIds.forEach(id => names.has(id) || names.set(id, id));
+      entry.changes.forEach(change => {
+        const name = change.kind === 'album' && (change.after?.name ?? change.before?.name);
+        if (typeof name === 'string' && names.get(change.id) === change.id) names.set(change.id, `${name} (deleted)`);
+      });
+    });
+    albums.forEach(album => names.set(album.id, album.name));
+    return [...names].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries, albums]);
+
+  const filtered = useMemo(() => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+    return (entries ?? []).filter(entry => {
+      const at = new Date(entry.at).getTime();
+      return (!userFilter || userKey(entry) === userFilter) &&
+        (!albumFilter || entry.albumIds.includes(albumFilter)) &&
+        at >= from && at <= to;
+    });
+  }, [entries, userFilter, albumFilter, fromDate, toDate]);
+
+  const albumName = (albumId: string) => albumNames.find(([id]) => id === albumId)?.[1] ?? albumId;
+
+  if (error) {
+    return <div className="text-red-500 text-center py-12">{error}</div>;
+  }
+
+  if (!entries) {
+    return <div className="text-white text-center py-12">Loading...</div>;
+  }
+
+  const selectClassName = 'block mt-1 bg-zinc-800 border border-white/10 rounded px-2 py-1.5 text-white text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-12">
+      <div className="mb-8">
+        <h2 className="text-2xl text-white font-semibold flex items-center gap-2">
+          <History className="w-6 h-6" />
+          Activity
+        </h2>
+        <p className="text-sm text-white/50 mt-1">
+          {GALLERY_BACKEND === 'local' ? 'Every change made to the gallery in this browser' : 'Every change to the gallery'},
+          newest first. Shows the last {ACTIVITY_LOG_LIMIT} changes.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-6 text-sm text-white/70">
+        <label>
+          Editor
+          <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className={selectClassName}>
+            <option value="">Everyone</option>
+            {users.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </label>
+        <label>
+          Album
+          <select value={albumFilter} onChange={(e) => setAlbumFilter(e.target.value)} className={selectClassName}>
+            <option value="">All albums</option>
+            {albumNames.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+        </label>
+        <label>
+          From
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={selectClassName} />
+        </label>
+        <label>
+          To
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={selectClassName} />
+        </label>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="text-white/40 text-center py-12">
+          {entries.length === 0 ? 'No activity yet.' : 'No activity matches these filters.'}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {filtered.map(entry => (
+            <li key={entry.id} className="bg-zinc-900 rounded-xl border border-white/10 p-4 text-sm">
+              <div className="flex items-baseline justify-between gap-4">
+                <p className="text-white">
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                  {entry.photoIds.length > 1 && <span className="text-white/50"> · {entry.photoIds.length} photos</span>}
+                  {entry.albumIds.length > 0 && (
+                    <span className="text-white/50"> · {entry.albumIds.map(albumName).join(', ')}</span>
+                  )}
+                </p>
+                <p className="flex-shrink-0 text-xs text-white/40">{new Date(entry.at).toLocaleString()}</p>
+              </div>
+              <p className="text-xs text-white/50 mt-0.5">{entry.user?.email || entry.user?.uid || 'Unknown user'}</p>
+              {entry.changes.length > 0 && (
+                <details className="mt-2">
+                  <summary className="text-white/40 cursor-pointer hover:text-white/60">
+                    {entry.changes.length === 1 && !entry.omittedChanges ? '1 change' : `${entry.changes.length + (entry.omittedChanges ?? 0)} changes`}
+                  </summary>
+                  <div className="mt-2 p-2 bg-black/40 rounded space-y-3 overflow-x-auto">
+                    {entry.changes.map(change => <ChangeDetails key={`${change.kind}-${change.id}`} change={change} />)}
+                    {!!entry.omittedChanges && <p className="text-xs text-white/40">…and {entry.omittedChanges} more</p>}
+                  </div>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
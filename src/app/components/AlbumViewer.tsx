@@ -1,7 +1,7 @@
-import { useGallery } from '../hooks/useGallery';
+import { usePhotosByAlbum, useAlbums, useGalleryActions, useIsAlbumLoaded } from '../hooks/useGallery';
 import { ArrowLeft } from 'lucide-react';
 import { PhotoViewer } from './PhotoViewer';
-import { useMemo } from 'react';
+import { useMemo, useEffect } from 'react';
 
 interface AlbumViewerProps {
   albumId: string;
@@ -10,20 +10,32 @@ interface AlbumViewerProps {
 }
 
 export function AlbumViewer({ albumId, onBack, isEditMode = false }: AlbumViewerProps) {
-  const { photos, albums, updatePhotoDetails, deletePhotoItem, updateAlbum } = useGallery();
+  const photosByAlbum = usePhotosByAlbum();
+  const albums = useAlbums();
+  const isAlbumLoaded = useIsAlbumLoaded(albumId);
+  const { updatePhotoDetails, deletePhotoItem, updateAlbum, loadAlbumChunks } = useGalleryActions();
+
+  // Load every chunk holding photos of this album
+  useEffect(() => {
+    loadAlbumChunks(albumId).catch(err => console.error(err));
+  }, [albumId, loadAlbumChunks]);
   
   const albumPhotos = useMemo(() => {
-    return photos
-      .filter(p => p.albumId === albumId)
+    return [...(photosByAlbum[albumId] || [])]
       .sort((a, b) => {
         const dateA = new Date(a.takenAt || a.date).getTime();
         const dateB = new Date(b.takenAt || b.date).getTime();
         return dateA - dateB; // Ascending order (oldest first)
       });
-  }, [photos, albumId]);
+  }, [photosByAlbum, albumId]);
 
   const currentAlbum = albums.find(a => a.id === albumId);
 
+  // Wait for the whole album, so the viewer's position does not shift as older photos arrive
+  if (!isAlbumLoaded) {
+    return <div className="text-white text-center py-12">Loading...</div>;
+  }
+
   if (!currentAlbum || albumPhotos.length === 0) {
     return (
       <div className="min-h-[calc(100vh-56px)] flex flex-col items-center justify-center text-white">
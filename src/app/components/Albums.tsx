@@ -1,9 +1,11 @@
 import { useMemo, useState, useEffect } from 'react';
-import { useGallery } from '../hooks/useGallery';
-import { getOptimizedImageUrl } from '../services/cloudinary';
+import { useAlbums, useGalleryStatus } from '../hooks/useGallery';
+import { getImageUrl } from '../services/backend';
 import { FolderOpen, Plus, Edit2, ArrowRightLeft } from 'lucide-react';
 import { AlbumWithStats } from '../types';
 import { getResponsiveAlbumCoverSize } from '../config/imageConfig';
+import { isOfflineAlbumsSupported, listOfflineAlbums, OfflineAlbumStatus } from '../services/offlineImages';
+import { OfflineAlbumToggle } from './OfflineAlbumToggle';
 
 interface AlbumsProps {
   onAlbumClick: (albumId: string) => void;
@@ -14,8 +16,15 @@ interface AlbumsProps {
 }
 
 export function Albums({ onAlbumClick, isEditMode = false, onAddNewAlbum, onEditAlbum, onTransferAlbum }: AlbumsProps) {
-  const { albums, loading, error } = useGallery();
+  const albums = useAlbums();
+  const { loading, error } = useGalleryStatus();
   const [screenWidth, setScreenWidth] = useState(window.innerWidth);
+  const [offlineAlbums, setOfflineAlbums] = useState<Record<string, OfflineAlbumStatus>>({});
+  const canSaveOffline = isOfflineAlbumsSupported();
+
+  useEffect(() => {
+    listOfflineAlbums().then(setOfflineAlbums).catch(err => console.warn('Failed to list offline albums:', err));
+  }, []);
 
   useEffect(() => {
     const handleResize = () => setScreenWidth(window.innerWidth);
@@ -99,7 +108,7 @@ export function Albums({ onAlbumClick, isEditMode = false, onAddNewAlbum, onEdit
                   <div className="relative aspect-[4/3] rounded-2xl overflow-hidden mb-3">
                     {album.coverPhotoUrl ? (
                       <img
-                        src={getOptimizedImageUrl(
+                        src={getImageUrl(
                           album.coverPhotoUrl, 
                           getResponsiveAlbumCoverSize(screenWidth)
                         )}
@@ -115,6 +124,19 @@ export function Albums({ onAlbumClick, isEditMode = false, onAddNewAlbum, onEdit
                     
                     <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-300" />
 
+                    {canSaveOffline && (
+                      <div className="absolute top-3 left-3 opacity-75 group-hover:opacity-100 transition-opacity">
+                        <OfflineAlbumToggle
+                          albumId={album.id}
+                          status={offlineAlbums[album.id]}
+                          onChange={(status) => setOfflineAlbums(prev => {
+                            const { [album.id]: _, ...rest } = prev;
+                            return status ? { ...rest, [album.id]: status } : rest;
+                          })}
+                        />
+                      </div>
+                    )}
+
                     <div className="absolute bottom-3 right-3 bg-black/60 text-white px-2.5 py-0.5 rounded-full text-xs backdrop-blur-sm border border-white/10 opacity-75 group-hover:opacity-100 transition-opacity">
                       {album.photoCount} photos
                     </div>
@@ -132,16 +154,18 @@ export function Albums({ onAlbumClick, isEditMode = false, onAddNewAlbum, onEdit
                         >
                           <ArrowRightLeft className="w-4 h-4" />
                         </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onEditAlbum?.(album);
-                          }}
-                          className="bg-black/60 text-white p-2 rounded-full backdrop-blur-sm border border-white/10 hover:bg-black/80"
-                          title="Edit Album"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
+                        {!album.system && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onEditAlbum?.(album);
+                            }}
+                            className="bg-black/60 text-white p-2 rounded-full backdrop-blur-sm border border-white/10 hover:bg-black/80"
+                            title="Edit Album"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
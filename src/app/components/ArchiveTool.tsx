@@ -0,0 +1,211 @@
+import { useState, useRef } from 'react';
+import { Loader2, Archive, Download, Upload } from 'lucide-react';
+import { useGalleryActions } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { CollisionPolicy, ImportCounts, ImportPlan } from '../services/archive';
+
+const COLLISION_POLICIES: { value: CollisionPolicy; label: string }[] = [
+  { value: 'skip', label: 'Keep the existing item' },
+  { value: 'replace', label: 'Replace it with the archived one' },
+  { value: 'keepBoth', label: 'Keep both (the archived one gets a new id)' },
+];
+
+const describeCounts = (counts: ImportCounts) => [
+  counts.added > 0 && `${counts.added} new`,
+  counts.replaced > 0 && `${counts.replaced} replaced`,
+  counts.renamed > 0 && `${counts.renamed} kept alongside existing`,
+  counts.skipped > 0 && `${counts.skipped} already present, skipped`,
+].filter(Boolean).join(', ') || 'none';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function ArchiveTool() {
+  const { exportGallery, previewImport, importGallery } = useGalleryActions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportNote, setExportNote] = useState<string | null>(null);
+
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [policy, setPolicy] = useState<CollisionPolicy>('skip');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importDone, setImportDone] = useState(false);
+
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const onProgress = (completed: number, total: number) => setProgress({ completed, total });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportNote(null);
+    try {
+      const result = await exportGallery(includeImages, onProgress);
+      downloadBlob(result.blob, result.fileName);
+      setExportNote(
+        `Exported ${result.albumCount} albums and ${result.photoCount} photos` +
+        (includeImages ? ` with ${result.imageCount} image files.` : '.') +
+        (result.failedImages.length > 0 ? ` ${result.failedImages.length} images could not be downloaded and were left out.` : '')
+      );
+    } catch (error) {
+      console.error("Failed to export gallery:", error);
+      alert(getErrorMessage(error, "Failed to export the gallery."));
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handlePreview = async (file: File, collisionPolicy: CollisionPolicy) => {
+    setIsPlanning(true);
+    setPlan(null);
+    setImportDone(false);
+    try {
+      setPlan(await previewImport(file, collisionPolicy));
+    } catch (error) {
+      console.error("Failed to read archive:", error);
+      alert(getErrorMessage(error, "Failed to read the archive."));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportFile(file);
+    handlePreview(file, policy);
+  };
+
+  const handlePolicyChange = (value: CollisionPolicy) => {
+    setPolicy(value);
+    if (importFile) handlePreview(importFile, value);
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    try {
+      await importGallery(plan, onProgress);
+      setPlan(null);
+      setImportFile(null);
+      setImportDone(true);
+    } catch (error) {
+      console.error("Failed to import gallery:", error);
+      alert(getErrorMessage(error, "Failed to import the archive. Nothing was written if the failure happened while uploading images."));
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const isBusy = isExporting || isPlanning || isImporting;
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div>
+        <h3 className="text-lg text-white font-medium flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Export and import
+        </h3>
+        <p className="text-sm text-white/50 mt-1">
+          Saves every album and photo, with all their details, to a zip file that can be imported into this or another gallery.
+        </p>
+      </div>
+
+      <div className="mt-6 flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          <input
+            type="checkbox"
+            checked={includeImages}
+            onChange={(e) => setIncludeImages(e.target.checked)}
+            disabled={isBusy}
+          />
+          Include the original image files
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex-shrink-0 flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          {isExporting ? 'Exporting...' : 'Export gallery'}
+        </button>
+      </div>
+      {exportNote && <p className="text-sm text-green-400 mt-3">{exportNote}</p>}
+
+      <div className="mt-6 pt-6 border-t border-white/10 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <label className="text-sm text-white/70">
+            When an album or photo already exists
+            <select
+              value={policy}
+              onChange={(e) => handlePolicyChange(e.target.value as CollisionPolicy)}
+              disabled={isBusy}
+              className="block mt-1 bg-zinc-800 border border-white/10 rounded px-2 py-1.5 text-white"
+            >
+              {COLLISION_POLICIES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex-shrink-0 flex items-center gap-2 bg-white/10 text-white px-4 py-2 rounded-full text-sm hover:bg-white/20 disabled:opacity-50"
+          >
+            {isPlanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {isPlanning ? 'Reading...' : 'Choose archive'}
+          </button>
+          <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+        </div>
+
+        {plan && importFile && (
+          <div className="border border-white/10 rounded-lg p-4 text-sm text-white/80 space-y-1">
+            <p className="text-white">
+              {importFile.name} <span className="text-white/40">· exported {new Date(plan.summary.exportedAt).toLocaleString()}</span>
+            </p>
+            <p>Albums: {describeCounts(plan.summary.albums)}</p>
+            <p>Photos: {describeCounts(plan.summary.photos)}</p>
+            <p>Images to upload: {plan.summary.imagesToUpload}</p>
+            {plan.summary.invalid.length > 0 && (
+              <div className="text-amber-300/80">
+                <p>{plan.summary.invalid.length} malformed {plan.summary.invalid.length === 1 ? 'record' : 'records'} will be left out:</p>
+                <ul className="list-disc list-inside text-xs">
+                  {plan.summary.invalid.slice(0, 5).map(description => <li key={description}>{description}</li>)}
+                </ul>
+              </div>
+            )}
+            {plan.summary.emptyGallery && <p className="text-white/50">The gallery is empty, so it will be restored as it was.</p>}
+            <div className="pt-3">
+              <button
+                onClick={handleImport}
+                disabled={isBusy || (plan.albumsToAdd.length + plan.albumsToReplace.length + plan.photosToAdd.length + plan.photosToReplace.length === 0)}
+                className="flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+              >
+                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </div>
+        )}
+        {importDone && <p className="text-sm text-green-400">Import complete.</p>}
+      </div>
+
+      {progress && (
+        <p className="text-sm text-white/50 mt-3">
+          {isExporting ? 'Downloading' : 'Uploading'} images: {progress.completed} / {progress.total}
+        </p>
+      )}
+    </section>
+  );
+}
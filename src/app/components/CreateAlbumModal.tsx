@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useGallery } from '../hooks/useGallery';
+import { useGalleryActions } from '../hooks/useGallery';
 import { X, Loader2, FolderPlus } from 'lucide-react';
 
 interface CreateAlbumModalProps {
@@ -13,7 +13,7 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
   const [description, setDescription] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   
-  const { createAlbum } = useGallery();
+  const { createAlbum } = useGalleryActions();
 
   if (!isOpen) return null;
 
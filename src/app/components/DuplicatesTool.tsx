@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { Loader2, Copy, CheckCircle2 } from 'lucide-react';
+import { useAlbums, useGalleryActions } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { getImageUrl } from '../services/backend';
+import { DuplicateGroup } from '../services/photoHashing';
+import { THUMBNAIL_SIZES } from '../config/imageConfig';
+import { Photo } from '../types';
+
+// The copy with the most pixels is kept unless another one is picked
+const largestPhoto = (photos: Photo[]) =>
+  photos.reduce((best, p) => (p.width ?? 0) * (p.height ?? 0) > (best.width ?? 0) * (best.height ?? 0) ? p : best);
+
+export function DuplicatesTool() {
+  const { findDuplicatePhotos, deletePhotoItems } = useGalleryActions();
+  const albums = useAlbums();
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  // Photo to keep in each group, by the group's first photo id
+  const [kept, setKept] = useState<Record<string, string>>({});
+  const [resolvingGroup, setResolvingGroup] = useState<string | null>(null);
+
+  const albumNames = useMemo(() => new Map(albums.map(a => [a.id, a.name])), [albums]);
+
+  const runScan = async () => {
+    setIsScanning(true);
+    try {
+      const found = await findDuplicatePhotos((completed, total) => setProgress({ completed, total }));
+      setGroups(found);
+      setKept(Object.fromEntries(found.map(g => [g.photos[0].id, largestPhoto(g.photos).id])));
+    } catch (error) {
+      console.error("Failed to find duplicates:", error);
+      alert(getErrorMessage(error, "Failed to look for duplicates."));
+    } finally {
+      setIsScanning(false);
+      setProgress(null);
+    }
+  };
+
+  const dismissGroup = (groupId: string) => {
+    setGroups(prev => prev && prev.filter(g => g.photos[0].id !== groupId));
+  };
+
+  // The other copies go to the trash, in one step that can be undone
+  const keepOne = async (group: DuplicateGroup) => {
+    const groupId = group.photos[0].id;
+    setResolvingGroup(groupId);
+    try {
+      await deletePhotoItems(group.photos.filter(p => p.id !== kept[groupId]).map(p => p.id));
+      dismissGroup(groupId);
+    } catch (error) {
+      console.error("Failed to delete duplicates:", error);
+      alert(getErrorMessage(error, "Failed to delete the duplicates."));
+    } finally {
+      setResolvingGroup(null);
+    }
+  };
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg text-white font-medium flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Find duplicates
+          </h3>
+          <p className="text-sm text-white/50 mt-1">
+            Finds photos uploaded more than once, including resized or converted copies. Photos uploaded before
+            duplicates were tracked are downloaded once to be compared.
+          </p>
+        </div>
+        <button
+          onClick={runScan}
+          disabled={isScanning || !!resolvingGroup}
+          className="flex-shrink-0 flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+        >
+          {isScanning && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isScanning ? 'Searching...' : 'Find duplicates'}
+        </button>
+      </div>
+
+      {progress && progress.total > 0 && (
+        <p className="mt-4 text-xs text-white/50">Comparing photos: {progress.completed} / {progress.total}</p>
+      )}
+
+      {groups && (
+        <div className="mt-6 space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-sm text-green-400 flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              No duplicates found.
+            </p>
+          ) : (
+            groups.map(group => {
+              const groupId = group.photos[0].id;
+              return (
+                <div key={groupId} className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-white text-sm">
+                      {group.exact ? 'Same file' : 'Similar photos'} <span className="text-white/40">({group.photos.length})</span>
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => dismissGroup(groupId)}
+                        disabled={!!resolvingGroup}
+                        className="text-white/50 px-3 py-1.5 rounded text-sm hover:text-white disabled:opacity-50"
+                      >
+                        Not duplicates
+                      </button>
+                      <button
+                        onClick={() => keepOne(group)}
+                        disabled={!!resolvingGroup}
+                        className="flex-shrink-0 flex items-center gap-2 bg-white/10 text-white px-3 py-1.5 rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                      >
+                        {resolvingGroup === groupId && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Keep selected, delete others
+                      </button>
+                    </div>
+                  </div>
+                  <div className="mt-3 grid grid-cols-3 sm:grid-cols-4 gap-3">
+                    {group.photos.map(photo => (
+                      <label
+                        key={photo.id}
+                        className={`rounded border cursor-pointer overflow-hidden ${kept[groupId] === photo.id ? 'border-blue-400' : 'border-white/10 opacity-60'}`}
+                      >
+                        <img
+                          src={getImageUrl(photo.url, THUMBNAIL_SIZES.HOME_GRID)}
+                          alt={photo.title}
+                          loading="lazy"
+                          className="w-full aspect-square object-cover bg-black"
+                        />
+                        <div className="p-2 text-xs text-white/60 space-y-0.5">
+                          <div className="flex items-center gap-1.5 text-white">
+                            <input
+                              type="radio"
+                              name={`keep-${groupId}`}
+                              checked={kept[groupId] === photo.id}
+                              onChange={() => setKept(prev => ({ ...prev, [groupId]: photo.id }))}
+                            />
+                            <span className="truncate" title={photo.title}>{photo.title}</span>
+                          </div>
+                          <p className="truncate">{albumNames.get(photo.albumId) ?? 'Unsorted'}</p>
+                          <p>
+                            {new Date(photo.takenAt ?? photo.date).toLocaleDateString()}
+                            {photo.width && photo.height && ` · ${photo.width}×${photo.height}`}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
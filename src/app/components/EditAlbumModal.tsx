@@ -1,7 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useGallery } from '../hooks/useGallery';
+import { useAlbums, useGalleryActions } from '../hooks/useGallery';
 import { X, Loader2, Save, Trash2, FolderCog } from 'lucide-react';
 import { AlbumWithStats } from '../types';
+import { AlbumSelector } from './AlbumSelector';
+import { AlbumPhotosPolicy } from '../services/galleryRepository';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+
+type PhotosAction = 'unsorted' | 'move' | 'trash';
 
 interface EditAlbumModalProps {
   isOpen: boolean;
@@ -15,8 +20,13 @@ export function EditAlbumModal({ isOpen, onClose, album }: EditAlbumModalProps)
   const [description, setDescription] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  
-  const { updateAlbum, deleteAlbumItem } = useGallery();
+  // Deleting asks what should happen to the album's photos first
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [photosAction, setPhotosAction] = useState<PhotosAction>('unsorted');
+  const [targetAlbumId, setTargetAlbumId] = useState('');
+
+  const albums = useAlbums();
+  const { updateAlbum, deleteAlbumItem } = useGalleryActions();
 
   useEffect(() => {
     if (album) {
@@ -24,6 +34,9 @@ export function EditAlbumModal({ isOpen, onClose, album }: EditAlbumModalProps)
       setTheme(album.theme);
       setDescription(album.description);
     }
+    setIsConfirmingDelete(false);
+    setPhotosAction('unsorted');
+    setTargetAlbumId('');
   }, [album]);
 
   if (!isOpen || !album) return null;
@@ -49,13 +62,18 @@ export function EditAlbumModal({ isOpen, onClose, album }: EditAlbumModalProps)
   };
 
   const handleDelete = async () => {
-    if (!confirm(`Are you sure you want to delete the album "${album.name}"? All photos within this album will become uncategorized. This action cannot be undone.`)) {
+    if (photosAction === 'move' && !targetAlbumId) return;
+    if (!confirm(`Are you sure you want to delete the album "${album.name}"?`)) {
       return;
     }
 
+    const policy: AlbumPhotosPolicy =
+      photosAction === 'trash' ? { action: 'trash' }
+      : { action: 'move', albumId: photosAction === 'move' ? targetAlbumId : UNSORTED_ALBUM_ID };
+
     try {
       setIsDeleting(true);
-      await deleteAlbumItem(album.id);
+      await deleteAlbumItem(album.id, policy);
       onClose();
     } catch (error: any) {
       console.error('Failed to delete album:', error);
@@ -82,62 +100,116 @@ export function EditAlbumModal({ isOpen, onClose, album }: EditAlbumModalProps)
           <h2 className="text-xl text-white font-semibold">Edit Album</h2>
         </div>
 
-        <form onSubmit={handleSave} className="space-y-4">
-          <div>
-            <label className="block text-sm text-white/60 mb-1">Theme</label>
-            <input
-              type="text"
-              value={theme}
-              onChange={(e) => setTheme(e.target.value)}
-              className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40"
-              placeholder="e.g. Travel, Events"
-              required
-            />
-          </div>
+        {isConfirmingDelete ? (
+          <div className="space-y-4">
+            <p className="text-white/80">
+              {album.photoCount > 0
+                ? `What should happen to the ${album.photoCount} photos in "${album.name}"?`
+                : `"${album.name}" has no photos.`}
+            </p>
 
-          <div>
-            <label className="block text-sm text-white/60 mb-1">Album Name</label>
-            <input
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40"
-              placeholder="e.g. Summer Trip 2023"
-              required
-            />
-          </div>
+            {album.photoCount > 0 && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-white/80">
+                  <input type="radio" checked={photosAction === 'unsorted'} onChange={() => setPhotosAction('unsorted')} />
+                  Move them to Unsorted
+                </label>
+                <label className="flex items-center gap-2 text-sm text-white/80">
+                  <input type="radio" checked={photosAction === 'move'} onChange={() => setPhotosAction('move')} />
+                  Move them to another album
+                </label>
+                {photosAction === 'move' && (
+                  <AlbumSelector
+                    albums={albums.filter(a => a.id !== album.id)}
+                    selectedAlbumId={targetAlbumId}
+                    onSelect={setTargetAlbumId}
+                  />
+                )}
+                <label className="flex items-center gap-2 text-sm text-white/80">
+                  <input type="radio" checked={photosAction === 'trash'} onChange={() => setPhotosAction('trash')} />
+                  Move them to the Trash
+                </label>
+              </div>
+            )}
 
-          <div>
-            <label className="block text-sm text-white/60 mb-1">Description</label>
-            <textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40 resize-none"
-              placeholder="Optional description..."
-              rows={3}
-            />
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={() => setIsConfirmingDelete(false)}
+                disabled={isDeleting}
+                className="w-full bg-white/10 text-white font-medium py-2 rounded hover:bg-white/20 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isDeleting || (photosAction === 'move' && !targetAlbumId)}
+                className="w-full bg-red-600 text-white font-medium py-2 rounded hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                {isDeleting ? 'Deleting...' : 'Delete Album'}
+              </button>
+            </div>
           </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm text-white/60 mb-1">Theme</label>
+              <input
+                type="text"
+                value={theme}
+                onChange={(e) => setTheme(e.target.value)}
+                className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40"
+                placeholder="e.g. Travel, Events"
+                required
+              />
+            </div>
 
-          <div className="flex gap-3 pt-4">
-            <button
-              type="button"
-              onClick={handleDelete}
-              disabled={isDeleting || isSaving}
-              className="w-full bg-red-600 text-white font-medium py-2 rounded hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2"
-            >
-              {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
-              {isDeleting ? 'Deleting...' : 'Delete'}
-            </button>
-            <button
-              type="submit"
-              disabled={!name || !theme || isSaving || isDeleting}
-              className="w-full bg-white text-black font-medium py-2 rounded hover:bg-white/90 disabled:opacity-50 flex items-center justify-center gap-2"
-            >
-              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-              {isSaving ? 'Saving...' : 'Save Changes'}
-            </button>
-          </div>
-        </form>
+            <div>
+              <label className="block text-sm text-white/60 mb-1">Album Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40"
+                placeholder="e.g. Summer Trip 2023"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-white/60 mb-1">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full bg-black/50 border border-white/10 rounded px-3 py-2 text-white focus:outline-none focus:border-white/40 resize-none"
+                placeholder="Optional description..."
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={() => setIsConfirmingDelete(true)}
+                disabled={isSaving}
+                className="w-full bg-red-600 text-white font-medium py-2 rounded hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+              <button
+                type="submit"
+                disabled={!name || !theme || isSaving || isDeleting}
+                className="w-full bg-white text-black font-medium py-2 rounded hover:bg-white/90 disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
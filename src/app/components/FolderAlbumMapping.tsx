@@ -0,0 +1,67 @@
+import { Folder } from 'lucide-react';
+import { AlbumWithStats } from '../types';
+import { FolderAlbum } from '../services/folderImport';
+
+interface FolderAlbumMappingProps {
+  folders: FolderAlbum[];
+  albums: AlbumWithStats[];
+  onChange: (folder: string, changes: Partial<Pick<FolderAlbum, 'albumId' | 'name' | 'theme'>>) => void;
+}
+
+const inputClassName = 'w-full bg-black/50 border border-white/10 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-white/40';
+
+/** A new album needs both a name and a theme before the upload can start. */
+export const isFolderAlbumComplete = (folder: FolderAlbum) => !!folder.albumId || (!!folder.name.trim() && !!folder.theme.trim());
+
+// The album each picked folder goes into, to be confirmed before the upload starts
+export function FolderAlbumMapping({ folders, albums, onChange }: FolderAlbumMappingProps) {
+  return (
+    <div className="bg-white/5 p-3 rounded border border-white/10 space-y-3">
+      <div>
+        <h4 className="text-xs text-white/40 font-bold uppercase">Folders</h4>
+        <p className="text-xs text-white/40 mt-1">
+          Each folder goes into an album of its own. New albums are named after the folder, with the folder above it as their theme.
+        </p>
+      </div>
+      {folders.map(folder => (
+        <div key={folder.folder} className="grid grid-cols-1 sm:grid-cols-[1fr_12rem] gap-2 items-start">
+          <p className="text-sm text-white/80 flex items-center gap-2 min-w-0 pt-1">
+            <Folder className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate" title={folder.folder}>{folder.folder}</span>
+            <span className="text-white/40 flex-shrink-0">({folder.fileCount})</span>
+          </p>
+          <div className="space-y-1.5">
+            <select
+              value={folder.albumId}
+              onChange={(e) => onChange(folder.folder, { albumId: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">New album</option>
+              {albums.filter(a => !a.system).map(album => (
+                <option key={album.id} value={album.id}>{album.name} ({album.theme})</option>
+              ))}
+            </select>
+            {!folder.albumId && (
+              <div className="grid grid-cols-2 gap-1.5">
+                <input
+                  type="text"
+                  value={folder.theme}
+                  onChange={(e) => onChange(folder.folder, { theme: e.target.value })}
+                  className={`${inputClassName} ${folder.theme.trim() ? '' : 'border-amber-500/50'}`}
+                  placeholder="Theme"
+                />
+                <input
+                  type="text"
+                  value={folder.name}
+                  onChange={(e) => onChange(folder.folder, { name: e.target.value })}
+                  className={`${inputClassName} ${folder.name.trim() ? '' : 'border-amber-500/50'}`}
+                  placeholder="Album Name"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState, useMemo, useEffect } from 'react';
 import { ArrowLeft, Search, ChevronLeft, ChevronRight } from 'lucide-react';
-import { useGallery } from '../hooks/useGallery';
-import { getOptimizedImageUrl } from '../services/cloudinary';
+import { usePhotos, useAlbums, useGalleryStatus, useGalleryActions, useChunkLoadingStatus } from '../hooks/useGallery';
+import { getImageUrl } from '../services/backend';
 import { Photo } from '../types';
 import { PhotoViewer } from './PhotoViewer';
+import { MediaBadge } from './MediaBadge';
 import { THUMBNAIL_SIZES, getResponsiveThumbnailSize } from '../config/imageConfig';
 
 interface GalleryProps {
@@ -19,7 +20,11 @@ export function Gallery({ albumId, onBack, isEditMode = false }: GalleryProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [screenWidth, setScreenWidth] = useState(window.innerWidth);
-  const { photos, albums, loading, error, updatePhotoDetails, deletePhotoItem, updateAlbum } = useGallery();
+  const photos = usePhotos();
+  const albums = useAlbums();
+  const { loading, error } = useGalleryStatus();
+  const { hasMore, loadingMore, hasFailed } = useChunkLoadingStatus();
+  const { updatePhotoDetails, deletePhotoItem, updateAlbum, loadMoreChunks, retryFailedChunks, loadAllChunks } = useGalleryActions();
 
   useEffect(() => {
     const handleResize = () => setScreenWidth(window.innerWidth);
@@ -81,6 +86,16 @@ export function Gallery({ albumId, onBack, isEditMode = false }: GalleryProps) {
 
   const totalPages = Math.ceil(filteredPhotos.length / ITEMS_PER_PAGE);
 
+  // Search looks through the whole library, so it needs every chunk
+  useEffect(() => {
+    if (searchQuery) loadAllChunks().catch(err => console.error(err));
+  }, [searchQuery, loadAllChunks]);
+
+  // Stream in older photos once the user is within a page of the end of what is loaded
+  useEffect(() => {
+    if (hasMore && !loadingMore && currentPage >= totalPages - 1) loadMoreChunks();
+  }, [hasMore, loadingMore, currentPage, totalPages, loadMoreChunks]);
+
   const paginatedPhotos = useMemo(() => {
     const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
     return filteredPhotos.slice(startIndex, startIndex + ITEMS_PER_PAGE);
@@ -212,7 +227,7 @@ export function Gallery({ albumId, onBack, isEditMode = false }: GalleryProps) {
                 onClick={() => setSelectedPhoto(photo)}
               >
                 <img
-                  src={getOptimizedImageUrl(
+                  src={getImageUrl(
                     photo.url, 
                     getResponsiveThumbnailSize(
                       screenWidth, 
@@ -225,6 +240,7 @@ export function Gallery({ albumId, onBack, isEditMode = false }: GalleryProps) {
                   loading="lazy"
                   className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
                 />
+                <MediaBadge photo={photo} />
                 <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors duration-300 flex items-end p-4 opacity-0 group-hover:opacity-100">
                   <div className="text-white">
                     <p className="text-sm font-medium truncate">{photo.title}</p>
@@ -236,7 +252,18 @@ export function Gallery({ albumId, onBack, isEditMode = false }: GalleryProps) {
           ))}
         </div>
 
-        {filteredPhotos.length === 0 && (
+        {loadingMore && (
+          <div className="text-center py-8 text-white/40 text-sm">Loading older photos...</div>
+        )}
+
+        {hasFailed && !loadingMore && (
+          <div className="text-center py-8 text-white/40 text-sm">
+            Some photos could not be loaded.{' '}
+            <button onClick={retryFailedChunks} className="text-white/70 underline hover:text-white">Try again</button>
+          </div>
+        )}
+
+        {filteredPhotos.length === 0 && !hasMore && (
           <div className="text-center py-20 text-white/40">
             <p>No photos found for your search.</p>
           </div>
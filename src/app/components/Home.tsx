@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { MapPin } from 'lucide-react';
-import { useGallery } from '../hooks/useGallery';
-import { getOptimizedImageUrl } from '../services/cloudinary';
+import { usePhotos, useAlbums, useGalleryStatus, useGalleryActions } from '../hooks/useGallery';
+import { getImageUrl } from '../services/backend';
 import { Photo } from '../types';
 import { PhotoViewer } from './PhotoViewer';
+import { MediaBadge } from './MediaBadge';
 import { calculateOptimalImageWidth, THUMBNAIL_SIZES } from '../config/imageConfig';
 
 interface HomeProps {
@@ -14,13 +15,17 @@ export function Home({ isEditMode }: HomeProps) {
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [optimalWidth, setOptimalWidth] = useState(1200);
-  const { photos, albums, loading, error, updatePhotoDetails, deletePhotoItem, updateAlbum } = useGallery();
+  const photos = usePhotos();
+  const albums = useAlbums();
+  const { loading, error } = useGalleryStatus();
+  const { updatePhotoDetails, deletePhotoItem, updateAlbum } = useGalleryActions();
 
-  const sortedPhotos = photos.sort((a, b) => {
+  // Sort a copy: the photo list is shared with every other view through the gallery store
+  const sortedPhotos = useMemo(() => [...photos].sort((a, b) => {
     const dateA = new Date(a.takenAt || a.date).getTime();
     const dateB = new Date(b.takenAt || b.date).getTime();
     return dateB - dateA;
-  });
+  }), [photos]);
 
   const carouselPhotos = sortedPhotos.slice(0, 12);
 
@@ -82,7 +87,7 @@ export function Home({ isEditMode }: HomeProps) {
             >
               <img
                 key={currentPhoto.id}
-                src={getOptimizedImageUrl(currentPhoto.url, optimalWidth)}
+                src={getImageUrl(currentPhoto.url, optimalWidth)}
                 alt={currentPhoto.title}
                 className="w-full h-full object-cover animate-fade-in"
               />
@@ -125,15 +130,16 @@ export function Home({ isEditMode }: HomeProps) {
             {sortedPhotos.slice(0, 20).map((photo) => (
               <div
                 key={photo.id}
-                className="aspect-square rounded overflow-hidden cursor-pointer group"
+                className="relative aspect-square rounded overflow-hidden cursor-pointer group"
                 onClick={() => setSelectedPhoto(photo)}
               >
                 <img
-                  src={getOptimizedImageUrl(photo.url, THUMBNAIL_SIZES.HOME_GRID)}
+                  src={getImageUrl(photo.url, THUMBNAIL_SIZES.HOME_GRID)}
                   alt={photo.title}
                   loading="lazy"
                   className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
                 />
+                <MediaBadge photo={photo} />
               </div>
             ))}
           </div>
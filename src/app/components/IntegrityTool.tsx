@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Loader2, ShieldCheck, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { useGalleryActions } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { INTEGRITY_CHECKS, IntegrityIssueKind, IntegrityReport } from '../services/integrity';
+
+// Number of issues listed per category before collapsing the rest
+const MAX_LISTED_ISSUES = 5;
+
+export function IntegrityTool() {
+  const { checkIntegrity, repairIntegrityIssues } = useGalleryActions();
+  const [isScanning, setIsScanning] = useState(false);
+  const [repairingKind, setRepairingKind] = useState<IntegrityIssueKind | null>(null);
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+
+  const runScan = async () => {
+    setIsScanning(true);
+    try {
+      setReport(await checkIntegrity());
+    } catch (error) {
+      console.error("Failed to check gallery:", error);
+      alert(getErrorMessage(error, "Failed to check the gallery."));
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRepair = async (kind: IntegrityIssueKind) => {
+    if (!report) return;
+    setRepairingKind(kind);
+    try {
+      await repairIntegrityIssues(report, kind);
+    } catch (error) {
+      console.error("Failed to repair:", error);
+      alert(getErrorMessage(error, "Failed to repair these problems."));
+    } finally {
+      setRepairingKind(null);
+    }
+    // Repairs can resolve (or reveal) other problems, so always show a fresh report
+    await runScan();
+  };
+
+  const totalIssues = report ? INTEGRITY_CHECKS.reduce((sum, { kind }) => sum + report.issues[kind].length, 0) : 0;
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg text-white font-medium flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Check gallery integrity
+          </h3>
+          <p className="text-sm text-white/50 mt-1">
+            Looks for broken chunk lists, duplicate or misfiled photos and broken album covers.
+          </p>
+        </div>
+        <button
+          onClick={runScan}
+          disabled={isScanning || !!repairingKind}
+          className="flex-shrink-0 flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+        >
+          {isScanning && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isScanning ? 'Checking...' : 'Run check'}
+        </button>
+      </div>
+
+      {report && (
+        <div className="mt-6 space-y-4">
+          {totalIssues === 0 ? (
+            <p className="text-sm text-green-400 flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              No problems found in {report.photoCount} photos.
+            </p>
+          ) : (
+            INTEGRITY_CHECKS.map(({ kind, label, repairLabel }) => {
+              const issues = report.issues[kind];
+              if (issues.length === 0) return null;
+              return (
+                <div key={kind} className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-white text-sm flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                      {label} <span className="text-white/40">({issues.length})</span>
+                    </p>
+                    <button
+                      onClick={() => handleRepair(kind)}
+                      disabled={isScanning || !!repairingKind}
+                      className="flex-shrink-0 flex items-center gap-2 bg-white/10 text-white px-3 py-1.5 rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                    >
+                      {repairingKind === kind && <Loader2 className="w-4 h-4 animate-spin" />}
+                      {repairLabel}
+                    </button>
+                  </div>
+                  <ul className="mt-2 space-y-1 text-xs text-white/50">
+                    {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                      <li key={i}>{issue.description}</li>
+                    ))}
+                    {issues.length > MAX_LISTED_ISSUES && (
+                      <li>...and {issues.length - MAX_LISTED_ISSUES} more</li>
+                    )}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+import { Play } from 'lucide-react';
+import { Photo } from '../types';
+
+// m:ss, or h:mm:ss for clips of an hour or more
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60) % 60;
+  const hours = Math.floor(total / 3600);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+/** Corner badge on a thumbnail: the length of a video, or LIVE for a Live Photo. Nothing for plain photos. */
+export function MediaBadge({ photo }: { photo: Photo }) {
+  if (photo.mediaType !== 'video' && photo.mediaType !== 'livePhoto') return null;
+  return (
+    <span className="absolute top-2 right-2 flex items-center gap-1 bg-black/60 px-1.5 py-0.5 rounded text-[10px] font-semibold text-white/90 pointer-events-none">
+      {photo.mediaType === 'video' ? (
+        <>
+          <Play className="w-3 h-3 fill-current" />
+          {photo.duration !== undefined && formatDuration(photo.duration)}
+        </>
+      ) : 'LIVE'}
+    </span>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Loader2, DatabaseZap, CheckCircle2 } from 'lucide-react';
+import { useGalleryActions, useSchemaVersion } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { MigrationReport, SCHEMA_VERSION } from '../services/migrations';
+
+export function MigrationTool() {
+  const { migrateData } = useGalleryActions();
+  const storedVersion = useSchemaVersion();
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<MigrationReport | null>(null);
+
+  const run = async (dryRun: boolean) => {
+    setIsRunning(true);
+    try {
+      setReport(await migrateData(dryRun));
+    } catch (error) {
+      console.error("Failed to migrate data:", error);
+      alert(getErrorMessage(error, dryRun ? "Failed to check for migrations." : "Failed to migrate data. Run it again to finish."));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const isCurrent = storedVersion >= SCHEMA_VERSION;
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg text-white font-medium flex items-center gap-2">
+            <DatabaseZap className="w-5 h-5" />
+            Data migrations
+          </h3>
+          <p className="text-sm text-white/50 mt-1">
+            Stored data is at schema version {storedVersion}; this version of the gallery uses version {SCHEMA_VERSION}.
+            {!isCurrent && ' Older records are upgraded automatically when an editor opens the gallery.'}
+          </p>
+        </div>
+        <div className="flex-shrink-0 flex gap-2">
+          <button
+            onClick={() => run(true)}
+            disabled={isRunning}
+            className="px-4 py-2 rounded-full text-sm bg-white/10 text-white hover:bg-white/20 disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={isRunning || isCurrent}
+            className="flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+          >
+            {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+            Migrate
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="mt-6 space-y-3">
+          {report.steps.length === 0 ? (
+            <p className="text-sm text-green-400 flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              Stored data is up to date.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-white/70">
+                {report.dryRun ? 'Migrating would upgrade' : 'Upgraded'} stored data from version {report.fromVersion} to {report.toVersion}
+                {' '}and {report.dryRun ? 'rewrite' : 'rewrote'} {report.chunksRewritten} {report.chunksRewritten === 1 ? 'chunk' : 'chunks'}.
+              </p>
+              {report.steps.map(step => (
+                <div key={step.version} className="border border-white/10 rounded-lg p-4 text-sm">
+                  <p className="text-white">{step.version}. {step.description}</p>
+                  <p className="text-white/50">
+                    {step.photosChanged} photos, {step.albumsChanged} albums {report.dryRun ? 'to change' : 'changed'}
+                  </p>
+                  {step.samples.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-white/40 font-mono">
+                      {step.samples.map(sample => <li key={sample} className="truncate">{sample}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
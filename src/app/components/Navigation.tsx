@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { Plus, Edit, Eye, Menu, X } from 'lucide-react';
-import { getAuth, signInWithPopup, GoogleAuthProvider, signOut, User } from 'firebase/auth';
+import { signIn, signOut, AuthUser } from '../services/auth';
+import { useQuarantine } from '../hooks/useGallery';
+import { SyncIndicator } from './SyncIndicator';
 
 interface NavigationProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
-  user: User | null;
+  user: AuthUser | null;
   isEditMode: boolean;
   onEditModeToggle: () => void;
   onUploadClick: () => void;
@@ -13,19 +15,23 @@ interface NavigationProps {
 
 export function Navigation({ activeTab, onTabChange, user, isEditMode, onEditModeToggle, onUploadClick }: NavigationProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const quarantine = useQuarantine();
 
-  const tabs = [
+  const tabs: { id: string; label: string; badge?: number }[] = [
     { id: 'home', label: 'Home' },
     { id: 'photos', label: 'Photos' },
     { id: 'albums', label: 'Albums' },
+    // Tools lists the records that need attention
+    ...(isEditMode ? [
+      { id: 'trash', label: 'Trash' },
+      { id: 'activity', label: 'Activity' },
+      { id: 'tools', label: 'Tools', badge: quarantine.length },
+    ] : []),
   ];
 
   const handleLogin = async () => {
     try {
-      const auth = getAuth();
-      const provider = new GoogleAuthProvider();
-      provider.setCustomParameters({ prompt: 'select_account' });
-      await signInWithPopup(auth, provider);
+      await signIn();
       setIsMobileMenuOpen(false);
     } catch (error: any) {
       console.error('Login failed:', error);
@@ -39,7 +45,7 @@ export function Navigation({ activeTab, onTabChange, user, isEditMode, onEditMod
 
   const handleLogout = async () => {
     try {
-      await signOut(getAuth());
+      await signOut();
       setIsMobileMenuOpen(false);
     } catch (error) {
       console.error('Logout failed:', error);
@@ -77,6 +83,9 @@ export function Navigation({ activeTab, onTabChange, user, isEditMode, onEditMod
                 }`}
               >
                 {tab.label}
+                {tab.badge ? (
+                  <span className="ml-1.5 px-1.5 rounded-full bg-amber-500 text-black text-xs font-medium">{tab.badge}</span>
+                ) : null}
                 {activeTab === tab.id && (
                   <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-white" />
                 )}
@@ -84,54 +93,58 @@ export function Navigation({ activeTab, onTabChange, user, isEditMode, onEditMod
             ))}
           </div>
 
-          {/* Desktop Auth & Admin Actions */}
-          <div className="hidden md:flex items-center gap-4">
-            {user ? (
-              <>
-                <button
-                  onClick={onEditModeToggle}
-                  className={`w-24 flex items-center justify-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                    isEditMode
-                      ? 'bg-zinc-800 text-white animate-rotating-border'
-                      : 'bg-white/20 text-white/80 hover:bg-white/30'
-                  }`}
-                >
-                  <span className="w-4 h-4 inline-flex items-center justify-center">
-                    {isEditMode ? <Edit className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  </span>
-                  {isEditMode ? 'Editor' : 'Viewer'}
-                </button>
-                <button
-                  onClick={onUploadClick}
-                  className="flex items-center gap-2 bg-white text-black px-3 py-1.5 rounded-full text-sm font-medium hover:bg-white/90 transition-colors"
-                >
-                  <Plus className="w-4 h-4" />
-                  Upload
-                </button>
+          <div className="flex items-center gap-4">
+            <SyncIndicator />
+
+            {/* Desktop Auth & Admin Actions */}
+            <div className="hidden md:flex items-center gap-4">
+              {user ? (
+                <>
+                  <button
+                    onClick={onEditModeToggle}
+                    className={`w-24 flex items-center justify-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                      isEditMode
+                        ? 'bg-zinc-800 text-white animate-rotating-border'
+                        : 'bg-white/20 text-white/80 hover:bg-white/30'
+                    }`}
+                  >
+                    <span className="w-4 h-4 inline-flex items-center justify-center">
+                      {isEditMode ? <Edit className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </span>
+                    {isEditMode ? 'Editor' : 'Viewer'}
+                  </button>
+                  <button
+                    onClick={onUploadClick}
+                    className="flex items-center gap-2 bg-white text-black px-3 py-1.5 rounded-full text-sm font-medium hover:bg-white/90 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Upload
+                  </button>
+                  <button
+                    onClick={handleLogout}
+                    className="text-sm text-white/60 hover:text-white"
+                  >
+                    Logout
+                  </button>
+                </>
+              ) : (
                 <button
-                  onClick={handleLogout}
+                  onClick={handleLogin}
                   className="text-sm text-white/60 hover:text-white"
                 >
-                  Logout
+                  Authenticate
                 </button>
-              </>
-            ) : (
-              <button
-                onClick={handleLogin}
-                className="text-sm text-white/60 hover:text-white"
-              >
-                Authenticate
-              </button>
-            )}
-          </div>
+              )}
+            </div>
 
-          {/* Mobile Menu Button */}
-          <button 
-            className="md:hidden text-white p-2 z-50"
-            onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-          >
-            {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-          </button>
+            {/* Mobile Menu Button */}
+            <button 
+              className="md:hidden text-white p-2 z-50"
+              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+            >
+              {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+            </button>
+          </div>
         </div>
       </div>
 
@@ -152,6 +165,9 @@ export function Navigation({ activeTab, onTabChange, user, isEditMode, onEditMod
                   }`}
                 >
                   {tab.label}
+                  {tab.badge ? (
+                    <span className="ml-2 px-1.5 rounded-full bg-amber-500 text-black text-sm font-medium">{tab.badge}</span>
+                  ) : null}
                 </button>
               ))}
             </div>
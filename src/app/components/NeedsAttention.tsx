@@ -0,0 +1,52 @@
+import { AlertTriangle } from 'lucide-react';
+import { useQuarantine } from '../hooks/useGallery';
+import { METADATA_SOURCE, QuarantinedRecord } from '../services/validation';
+
+const KIND_LABELS: Record<QuarantinedRecord['kind'], string> = {
+  photo: 'Photo',
+  album: 'Album',
+  chunk: 'Chunk',
+  chunkSummary: 'Chunk index entry',
+  metadata: 'Gallery metadata',
+};
+
+// Records that failed validation as they loaded. They are hidden from the gallery until fixed in storage.
+export function NeedsAttention() {
+  const quarantine = useQuarantine();
+  if (quarantine.length === 0) return null;
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-amber-500/40 p-6">
+      <h3 className="text-lg text-white font-medium flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-amber-400" />
+        Needs attention
+      </h3>
+      <p className="text-sm text-white/50 mt-1">
+        {quarantine.length === 1 ? 'This record is' : `These ${quarantine.length} records are`} malformed and
+        {' '}hidden from the gallery. Fix or remove {quarantine.length === 1 ? 'it' : 'them'} in storage; the list updates as soon as the data changes.
+      </p>
+
+      <ul className="mt-4 space-y-3">
+        {quarantine.map((record, i) => (
+          <li key={`${record.source}-${record.id ?? i}`} className="border border-white/10 rounded-lg p-4 text-sm">
+            <p className="text-white">
+              {KIND_LABELS[record.kind]} {record.id && <span className="font-mono text-white/70">{record.id}</span>}
+              <span className="text-white/40">
+                {' '}· {record.source === METADATA_SOURCE ? 'metadata document' : `chunk ${record.source}`}
+              </span>
+            </p>
+            <ul className="mt-1 text-amber-300/80 list-disc list-inside">
+              {record.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+            <details className="mt-2">
+              <summary className="text-white/40 cursor-pointer hover:text-white/60">Stored data</summary>
+              <pre className="mt-2 p-2 bg-black/40 rounded text-xs text-white/60 overflow-x-auto">
+                {JSON.stringify(record.raw, null, 2)}
+              </pre>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { CloudDownload, CheckCircle2 } from 'lucide-react';
+import { useGalleryActions } from '../hooks/useGallery';
+import { OfflineAlbumStatus } from '../services/offlineImages';
+
+interface OfflineAlbumToggleProps {
+  albumId: string;
+  status?: OfflineAlbumStatus;
+  onChange: (status: OfflineAlbumStatus | undefined) => void;
+}
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`;
+
+// "Available offline" switch on an album card. Saving again refreshes the album with photos added since.
+export function OfflineAlbumToggle({ albumId, status, onChange }: OfflineAlbumToggleProps) {
+  const { makeAlbumAvailableOffline, removeAlbumFromOffline } = useGalleryActions();
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (progress !== null) return;
+    try {
+      if (status) {
+        await removeAlbumFromOffline(albumId);
+        onChange(undefined);
+        return;
+      }
+      setProgress(0);
+      const saved = await makeAlbumAvailableOffline(albumId, (completed, total) => setProgress(completed / total));
+      onChange(saved);
+      if (saved.failed > 0) {
+        alert(`${saved.failed} images could not be downloaded. Save the album again to retry them.`);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to change offline availability.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const title = status
+    ? `Available offline · ${status.imageCount} images, ${formatSize(status.bytes)}. Click to remove.`
+    : 'Make available offline';
+
+  return (
+    <button
+      onClick={handleClick}
+      title={title}
+      className={`flex items-center gap-1.5 bg-black/60 p-2 rounded-full backdrop-blur-sm border border-white/10 hover:bg-black/80 text-xs ${
+        status ? 'text-green-400' : 'text-white'
+      }`}
+    >
+      {status ? <CheckCircle2 className="w-4 h-4" /> : <CloudDownload className="w-4 h-4" />}
+      {progress !== null && <span className="pr-1">{Math.round(progress * 100)}%</span>}
+    </button>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Loader2, HardDrive } from 'lucide-react';
+import { useGalleryActions } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { CompactionReport } from '../services/compaction';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export function OptimizeStorageTool() {
+  const { optimizeStorage } = useGalleryActions();
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<CompactionReport | null>(null);
+
+  const handleOptimize = async () => {
+    if (!confirm('Repack all photos into full chunks? The gallery stays usable, but edits made while this runs will make it stop without changes.')) {
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      setReport(await optimizeStorage());
+    } catch (error) {
+      console.error("Failed to optimize storage:", error);
+      alert(getErrorMessage(error, "Failed to optimize storage."));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg text-white font-medium flex items-center gap-2">
+            <HardDrive className="w-5 h-5" />
+            Optimize storage
+          </h3>
+          <p className="text-sm text-white/50 mt-1">
+            Packs photos into full chunks sorted by the date they were taken, so the gallery loads with fewer reads.
+          </p>
+        </div>
+        <button
+          onClick={handleOptimize}
+          disabled={isRunning}
+          className="flex-shrink-0 flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+        >
+          {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isRunning ? 'Optimizing...' : 'Optimize'}
+        </button>
+      </div>
+
+      {report && (
+        <div className="mt-6">
+          {report.changed ? (
+            <table className="w-full text-sm text-white/80">
+              <thead>
+                <tr className="text-white/40 text-left">
+                  <th className="font-normal pb-2"></th>
+                  <th className="font-normal pb-2">Before</th>
+                  <th className="font-normal pb-2">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="py-1 text-white/50">Chunks</td>
+                  <td>{report.before.chunks}</td>
+                  <td>{report.after.chunks}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 text-white/50">Photos</td>
+                  <td>{report.before.photos}</td>
+                  <td>{report.after.photos}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 text-white/50">Size</td>
+                  <td>{formatBytes(report.before.bytes)}</td>
+                  <td>{formatBytes(report.after.bytes)}</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-white/60">Storage is already optimal. Nothing was changed.</p>
+          )}
+          {report.changed && (
+            <p className="text-sm text-green-400 mt-3">
+              {report.readsSaved > 0
+                ? `Saves ${report.readsSaved} ${report.readsSaved === 1 ? 'read' : 'reads'} every time the full gallery loads.`
+                : 'Photos are now ordered by date.'}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
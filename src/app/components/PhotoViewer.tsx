@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback, useRef, useMemo, MouseEvent } from 'react';
-import { getOptimizedImageUrl } from '../services/cloudinary';
+import { getImageUrl, getVideoUrl } from '../services/backend';
 import { ArrowLeft, ChevronLeft, ChevronRight, Info, X, MapPin, Calendar, Camera, Aperture, Clock, Folder, Save, Loader2, Trash2, Image as ImageIcon } from 'lucide-react';
 import { Photo, Album } from '../types';
 import { AlbumSelector } from './AlbumSelector';
 import { calculateOptimalImageWidth, THUMBNAIL_SIZES } from '../config/imageConfig';
+import { getErrorMessage } from '../services/errors';
 
 interface PhotoViewerProps {
   photos: Photo[];
@@ -44,6 +45,7 @@ export function PhotoViewer({
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSettingCover, setIsSettingCover] = useState(false);
+  const [isPlayingLive, setIsPlayingLive] = useState(false);
 
   // Reset edited state when photo changes
   useEffect(() => {
@@ -51,6 +53,7 @@ export function PhotoViewer({
       setEditedTitle(currentPhoto.title);
       setEditedAlbumId(currentPhoto.albumId);
     }
+    setIsPlayingLive(false);
   }, [currentPhoto]);
 
   const currentPhotoAlbum = useMemo(() => {
@@ -89,7 +92,7 @@ export function PhotoViewer({
       // setShowInfo(false); 
     } catch (error) {
       console.error("Failed to save photo details:", error);
-      alert("Failed to save changes.");
+      alert(getErrorMessage(error, "Failed to save changes."));
     } finally {
       setIsSaving(false);
     }
@@ -97,7 +100,7 @@ export function PhotoViewer({
 
   const handleDelete = async () => {
     if (!currentPhoto) return;
-    if (!confirm(`Are you sure you want to delete "${currentPhoto.title}"? This action cannot be undone.`)) {
+    if (!confirm(`Are you sure you want to delete "${currentPhoto.title}"? It will be moved to the Trash.`)) {
       return;
     }
 
@@ -107,7 +110,7 @@ export function PhotoViewer({
       onClose();
     } catch (error) {
       console.error("Failed to delete photo:", error);
-      alert("Failed to delete photo.");
+      alert(getErrorMessage(error, "Failed to delete photo."));
     } finally {
       setIsDeleting(false);
     }
@@ -121,7 +124,7 @@ export function PhotoViewer({
       // No need to alert, the UI will update
     } catch (error) {
       console.error("Failed to set cover photo:", error);
-      alert("Failed to set cover photo.");
+      alert(getErrorMessage(error, "Failed to set cover photo."));
     } finally {
       setIsSettingCover(false);
     }
@@ -221,7 +224,19 @@ export function PhotoViewer({
           <button onClick={(e) => { e.stopPropagation(); handleNext(); }} className={`absolute right-4 z-10 text-white/60 hover:text-white transition-all duration-300 ${isFullscreen ? 'opacity-0 hover:opacity-100' : 'opacity-100'}`}>
             <ChevronRight className="w-10 h-10" />
           </button>
-          <img key={currentPhoto.id} src={getOptimizedImageUrl(currentPhoto.url, optimalWidth)} alt={currentPhoto.title} className={`max-w-full max-h-full object-contain shadow-2xl animate-fade-in cursor-pointer transition-transform duration-300 ${isFullscreen ? 'scale-100' : ''}`} />
+          {currentPhoto.mediaType === 'video' ? (
+            // Clicks on the player's controls must not toggle fullscreen
+            <video key={currentPhoto.id} src={getVideoUrl(currentPhoto.url, optimalWidth)} poster={getImageUrl(currentPhoto.url, optimalWidth)} controls autoPlay playsInline onClick={(e) => e.stopPropagation()} className="max-w-full max-h-full object-contain shadow-2xl animate-fade-in" />
+          ) : isPlayingLive && currentPhoto.videoUrl ? (
+            <video key={`${currentPhoto.id}-live`} src={getVideoUrl(currentPhoto.videoUrl, optimalWidth)} poster={getImageUrl(currentPhoto.url, optimalWidth)} autoPlay muted playsInline onEnded={() => setIsPlayingLive(false)} onError={() => setIsPlayingLive(false)} className="max-w-full max-h-full object-contain shadow-2xl cursor-pointer" />
+          ) : (
+            <img key={currentPhoto.id} src={getImageUrl(currentPhoto.url, optimalWidth)} alt={currentPhoto.title} className={`max-w-full max-h-full object-contain shadow-2xl animate-fade-in cursor-pointer transition-transform duration-300 ${isFullscreen ? 'scale-100' : ''}`} />
+          )}
+          {currentPhoto.mediaType === 'livePhoto' && currentPhoto.videoUrl && (
+            <button onClick={(e) => { e.stopPropagation(); setIsPlayingLive(!isPlayingLive); }} className={`absolute bottom-6 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full text-xs font-semibold tracking-wide transition-all duration-300 ${isPlayingLive ? 'bg-white text-black' : 'bg-black/50 text-white/80 hover:text-white'} ${isFullscreen ? 'opacity-0 hover:opacity-100' : 'opacity-100'}`}>
+              LIVE
+            </button>
+          )}
         </div>
 
         {/* Info Side Panel */}
@@ -249,7 +264,7 @@ export function PhotoViewer({
                 ) : (
                   <div className="flex items-center gap-2 text-white/80 text-sm">
                     <Folder className="w-4 h-4 flex-shrink-0" />
-                    <span>{currentPhotoAlbum?.name || 'Uncategorized'}</span>
+                    <span>{currentPhotoAlbum?.name || 'Unsorted'}</span>
                   </div>
                 )}
               </div>
@@ -266,6 +281,8 @@ export function PhotoViewer({
                 </div>
               )}
 
+              {currentPhoto.originalFileName && (<div className="border-t border-white/10 pt-4 flex items-center gap-2 text-sm text-white/60"><ImageIcon className="w-4 h-4 flex-shrink-0" /><span className="truncate" title={currentPhoto.originalFileName}>{currentPhoto.originalFileName}</span>{currentPhoto.originalFormat && (<span className="text-xs font-bold border border-white/40 px-1 rounded flex-shrink-0 uppercase">{currentPhoto.originalFormat}</span>)}</div>)}
+
               {currentPhoto.gps && (<div className="border-t border-white/10 pt-4"><a href={`https://www.google.com/maps/search/?api=1&query=${currentPhoto.gps.latitude},${currentPhoto.gps.longitude}`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"><MapPin className="w-4 h-4 flex-shrink-0" />View on Map</a></div>)}
             </div>
 
@@ -316,7 +333,7 @@ export function PhotoViewer({
                     ${isEditMode && isThisPhotoCover ? 'ring-2 ring-yellow-400 ring-offset-1 ring-offset-black animate-pulse' : ''}
                   `}
                 >
-                  <img src={getOptimizedImageUrl(photo.url, THUMBNAIL_SIZES.VIEWER_THUMBNAIL)} alt="" className="w-full h-full object-cover" />
+                  <img src={getImageUrl(photo.url, THUMBNAIL_SIZES.VIEWER_THUMBNAIL)} alt="" className="w-full h-full object-cover" />
                 </button>
               );
             })}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { PreprocessFormat, PreprocessOptions, getEncodableFormats } from '../services/imagePreprocessing';
+import { prepareUploadFile } from '../services/imageFormats';
+import { DEFAULT_PREPROCESS_OPTIONS, PREPROCESS_MAX_EDGES } from '../config/imageConfig';
+
+interface PreprocessOptionsPanelProps {
+  options: PreprocessOptions | null; // null when preprocessing is off
+  onChange: (options: PreprocessOptions | null) => void;
+  files: File[];
+}
+
+const FORMAT_LABELS: Record<PreprocessFormat, string> = { webp: 'WebP', avif: 'AVIF', jpeg: 'JPEG' };
+
+// The size estimate for a batch is worked out from its first few files
+const ESTIMATE_SAMPLE_SIZE = 3;
+const ESTIMATE_DELAY_MS = 400;
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`;
+
+const selectClassName = 'block mt-1 w-full bg-zinc-800 border border-white/10 rounded px-2 py-1.5 text-white text-sm';
+
+// "Optimize before upload" settings in the upload dialog, with the size the files will have once processed
+export function PreprocessOptionsPanel({ options, onChange, files }: PreprocessOptionsPanelProps) {
+  const [formats, setFormats] = useState<PreprocessFormat[]>([]);
+  const [estimate, setEstimate] = useState<{ before: number; after: number; sampled: boolean } | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  useEffect(() => {
+    getEncodableFormats().then(setFormats).catch(() => setFormats([]));
+  }, []);
+
+  // Settings remembered from a browser that could encode a format this one cannot
+  useEffect(() => {
+    if (options && formats.length > 0 && !formats.includes(options.format)) onChange({ ...options, format: formats[0] });
+  }, [options, formats, onChange]);
+
+  useEffect(() => {
+    setEstimate(null);
+    if (!options || files.length === 0) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsEstimating(true);
+      try {
+        const sample = files.slice(0, ESTIMATE_SAMPLE_SIZE);
+        let sampleAfter = 0;
+        for (const file of sample) {
+          sampleAfter += (await prepareUploadFile(file, options)).size;
+          if (cancelled) return;
+        }
+        const sampleBefore = sample.reduce((sum, file) => sum + file.size, 0);
+        const before = files.reduce((sum, file) => sum + file.size, 0);
+        setEstimate({ before, after: Math.round(before * (sampleAfter / sampleBefore)), sampled: sample.length < files.length });
+      } catch (err) {
+        console.warn('Failed to estimate the processed size:', err);
+      } finally {
+        if (!cancelled) setIsEstimating(false);
+      }
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [options, files]);
+
+  // Needs a Web Worker with OffscreenCanvas
+  if (formats.length === 0) return null;
+
+  const update = (changes: Partial<PreprocessOptions>) => onChange({ ...(options ?? DEFAULT_PREPROCESS_OPTIONS), ...changes });
+
+  return (
+    <div className="bg-white/5 p-3 rounded border border-white/10 text-sm space-y-3">
+      <label className="flex items-center gap-2 text-white/80">
+        <input
+          type="checkbox"
+          checked={!!options}
+          onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_PREPROCESS_OPTIONS, format: formats[0] } : null)}
+          className="w-4 h-4"
+        />
+        Optimize images before upload
+      </label>
+
+      {options && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-xs text-white/60">
+            <label>
+              Longest side
+              <select value={options.maxEdge} onChange={(e) => update({ maxEdge: Number(e.target.value) })} className={selectClassName}>
+                {PREPROCESS_MAX_EDGES.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+              </select>
+            </label>
+            <label>
+              Format
+              <select value={options.format} onChange={(e) => update({ format: e.target.value as PreprocessFormat })} className={selectClassName}>
+                {formats.map(format => <option key={format} value={format}>{FORMAT_LABELS[format]}</option>)}
+              </select>
+            </label>
+            <label>
+              Quality {Math.round(options.quality * 100)}
+              <input
+                type="range"
+                min={50}
+                max={100}
+                value={Math.round(options.quality * 100)}
+                onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                className="block mt-3 w-full"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-white/60">
+            <input type="checkbox" checked={options.stripGps} onChange={(e) => update({ stripGps: e.target.checked })} className="w-4 h-4" />
+            Remove location (GPS) from the photos
+          </label>
+          <p className="text-xs text-white/40">
+            Photos are turned upright and re-encoded without their metadata; the date and camera details are still saved with them.
+          </p>
+          {files.length > 0 && (
+            <p className="text-xs text-white/70 flex items-center gap-1.5">
+              {isEstimating && <Loader2 className="w-3 h-3 animate-spin" />}
+              {estimate
+                ? `${formatSize(estimate.before)} → ${estimate.sampled ? 'about ' : ''}${formatSize(estimate.after)}`
+                : isEstimating ? 'Working out the new size...' : null}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
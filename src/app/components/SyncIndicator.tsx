@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { CloudOff, CloudUpload, Loader2 } from 'lucide-react';
+import { useGalleryActions, useSyncStatus } from '../hooks/useGallery';
+
+// Shown in the navigation bar while offline or while offline changes are still to be sent; hidden otherwise
+export function SyncIndicator() {
+  const { online, outbox, syncing, error } = useSyncStatus();
+  const { flushOutbox } = useGalleryActions();
+  const pending = outbox.length;
+
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
+
+  const pendingLabel = `${pending} ${pending === 1 ? 'change' : 'changes'} to sync`;
+
+  if (!online) {
+    return (
+      <span
+        className="flex items-center gap-1.5 text-xs text-amber-300/90"
+        title="Showing the copy saved on this device. Edits are kept and sent once the connection is back."
+      >
+        <CloudOff className="w-4 h-4" />
+        Offline{pending > 0 && ` · ${pendingLabel}`}
+      </span>
+    );
+  }
+
+  if (syncing) {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-white/60">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Syncing {pendingLabel}
+      </span>
+    );
+  }
+
+  // Online, but the server could not be reached last time; the outbox retries on its own
+  if (pending > 0) {
+    return (
+      <button
+        onClick={() => flushOutbox().catch(console.error)}
+        className="flex items-center gap-1.5 text-xs text-white/60 hover:text-white"
+        title="Send now"
+      >
+        <CloudUpload className="w-4 h-4" />
+        {pendingLabel}
+      </button>
+    );
+  }
+
+  return null;
+}
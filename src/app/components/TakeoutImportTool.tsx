@@ -0,0 +1,148 @@
+import { useState, useRef } from 'react';
+import { Loader2, Upload, Images } from 'lucide-react';
+import { useAlbums, useGalleryActions } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { TakeoutPlan } from '../services/takeout';
+
+// For exports whose sidecars do not tell where they come from
+const DEFAULT_THEME = 'Imported';
+
+export function TakeoutImportTool() {
+  const { previewTakeout, importTakeout } = useGalleryActions();
+  const albums = useAlbums();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [plan, setPlan] = useState<TakeoutPlan | null>(null);
+  const [theme, setTheme] = useState(DEFAULT_THEME);
+  const [albumId, setAlbumId] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsScanning(true);
+    setPlan(null);
+    setImportNote(null);
+    try {
+      const scanned = await previewTakeout(file, (bytesRead, total) => setProgress(Math.round((bytesRead / total) * 100)));
+      setPlan(scanned);
+      setTheme(scanned.exportedFrom ?? DEFAULT_THEME);
+    } catch (error) {
+      console.error("Failed to read export:", error);
+      alert(getErrorMessage(error, "Failed to read the export."));
+    } finally {
+      setIsScanning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    try {
+      await importTakeout(plan, { theme: theme.trim(), albumId });
+      setImportNote(`All ${plan.entries.length} files are in the upload queue.`);
+      setPlan(null);
+    } catch (error) {
+      console.error("Failed to import export:", error);
+      alert(getErrorMessage(error, "The import stopped. Files queued so far are still uploaded."));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const looseCount = plan ? plan.entries.filter(entry => !entry.albumFolder).length : 0;
+  const existingAlbum = (name: string) => albums.some(a => !a.system && a.name === name && a.theme === theme.trim());
+  const canImport = !!plan && !!theme.trim() && (looseCount === 0 || !!albumId);
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-white/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg text-white font-medium flex items-center gap-2">
+            <Images className="w-5 h-5" />
+            Import from Google Photos or Apple Photos
+          </h3>
+          <p className="text-sm text-white/50 mt-1">
+            Adds the photos and videos of a Google Takeout zip to the upload queue, with the titles, dates and places
+            Google Photos kept for them, and an album for each of its albums. Keep this page open until every file is queued.
+          </p>
+          <p className="text-sm text-white/50 mt-1">
+            From Apple Photos, export the photos with "Export IPTC as XMP" ticked and zip the folder: each folder in it
+            becomes an album, and the XMP files carry the titles, dates and places.
+          </p>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isScanning || isImporting}
+          className="flex-shrink-0 flex items-center gap-2 bg-white/10 text-white px-4 py-2 rounded-full text-sm hover:bg-white/20 disabled:opacity-50"
+        >
+          {isScanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {isScanning ? 'Reading...' : 'Choose export zip'}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {progress !== null && <p className="text-xs text-white/50 mt-3">Reading the export: {progress}%</p>}
+
+      {plan && (
+        <div className="mt-6 border border-white/10 rounded-lg p-4 text-sm text-white/80 space-y-3">
+          <div className="space-y-1">
+            <p className="text-white">{plan.file.name}</p>
+            <p>{plan.entries.length} photos and videos, {plan.albums.length} albums</p>
+            {plan.errors.length > 0 && (
+              <p className="text-amber-300/80">{plan.errors.length} files will be left out or imported without their details; the upload tray lists them.</p>
+            )}
+          </div>
+
+          <label className="block text-white/70">
+            Theme for the albums
+            <input
+              type="text"
+              value={theme}
+              onChange={(e) => setTheme(e.target.value)}
+              className="block w-full mt-1 bg-black/50 border border-white/10 rounded px-3 py-1.5 text-white focus:outline-none focus:border-white/40"
+            />
+          </label>
+          {plan.albums.length > 0 && (
+            <ul className="text-xs text-white/60 max-h-40 overflow-y-auto space-y-0.5">
+              {plan.albums.map(album => (
+                <li key={album.folder}>
+                  {album.name} <span className="text-white/40">({album.fileCount}) · {existingAlbum(album.name) ? 'existing album' : 'new album'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {looseCount > 0 && (
+            <label className="block text-white/70">
+              Album for the {looseCount} photos that are in no album
+              <select
+                value={albumId}
+                onChange={(e) => setAlbumId(e.target.value)}
+                className="block w-full mt-1 bg-zinc-800 border border-white/10 rounded px-2 py-1.5 text-white"
+              >
+                <option value="">Choose an album</option>
+                {albums.map(album => <option key={album.id} value={album.id}>{album.name} ({album.theme})</option>)}
+              </select>
+            </label>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={!canImport || isImporting}
+            className="flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+          >
+            {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isImporting ? 'Adding to upload queue...' : 'Import'}
+          </button>
+        </div>
+      )}
+      {importNote && <p className="text-sm text-green-400 mt-3">{importNote}</p>}
+    </section>
+  );
+}
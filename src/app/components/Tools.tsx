@@ -0,0 +1,29 @@
+import { OptimizeStorageTool } from './OptimizeStorageTool';
+import { NeedsAttention } from './NeedsAttention';
+import { IntegrityTool } from './IntegrityTool';
+import { DuplicatesTool } from './DuplicatesTool';
+import { ArchiveTool } from './ArchiveTool';
+import { TakeoutImportTool } from './TakeoutImportTool';
+import { MigrationTool } from './MigrationTool';
+
+// Editor-only maintenance page
+export function Tools() {
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-12">
+      <div className="mb-8">
+        <h2 className="text-2xl text-white font-semibold">Tools</h2>
+        <p className="text-sm text-white/50 mt-1">Maintenance tasks for the whole gallery.</p>
+      </div>
+
+      <div className="space-y-6">
+        <NeedsAttention />
+        <IntegrityTool />
+        <DuplicatesTool />
+        <OptimizeStorageTool />
+        <MigrationTool />
+        <ArchiveTool />
+        <TakeoutImportTool />
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useGallery } from '../hooks/useGallery';
+import { useAlbums, useGalleryActions } from '../hooks/useGallery';
 import { X, Loader2, ArrowRightLeft } from 'lucide-react';
 import { AlbumWithStats } from '../types';
 import { AlbumSelector } from './AlbumSelector';
@@ -15,7 +15,8 @@ export function TransferAlbumModal({ isOpen, onClose, sourceAlbum }: TransferAlb
   const [deleteSource, setDeleteSource] = useState(true);
   const [isTransferring, setIsTransferring] = useState(false);
   
-  const { albums, transferAlbumPhotos } = useGallery();
+  const albums = useAlbums();
+  const { transferAlbumPhotos } = useGalleryActions();
 
   useEffect(() => {
     if (!isOpen) {
@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw, Trash2, FolderInput } from 'lucide-react';
+import { useTrash, useAlbums, useGalleryActions } from '../hooks/useGallery';
+import { getImageUrl } from '../services/backend';
+import { getErrorMessage } from '../services/errors';
+import { AlbumSelector } from './AlbumSelector';
+import { TrashedPhoto } from '../types';
+import { THUMBNAIL_SIZES } from '../config/imageConfig';
+import { TRASH_RETENTION_DAYS } from '../config/galleryConfig';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysLeft = (deletedAt: string) => {
+  const elapsed = Date.now() - new Date(deletedAt).getTime();
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+export function Trash() {
+  const trash = useTrash();
+  const albums = useAlbums();
+  const { loadTrash, restoreTrashedPhoto, purgeTrashedPhoto } = useGalleryActions();
+  const [error, setError] = useState<string | null>(null);
+  const [busyPhotoId, setBusyPhotoId] = useState<string | null>(null);
+  // Photo whose "Restore to..." album picker is open, and the album picked for it
+  const [pickingForId, setPickingForId] = useState<string | null>(null);
+  const [targetAlbumId, setTargetAlbumId] = useState('');
+
+  useEffect(() => {
+    loadTrash().catch(() => setError('Failed to load the trash.'));
+  }, [loadTrash]);
+
+  const openPicker = (item: TrashedPhoto) => {
+    setPickingForId(item.photo.id);
+    setTargetAlbumId(albums.some(a => a.id === item.photo.albumId) ? item.photo.albumId : '');
+  };
+
+  const handleRestore = async (item: TrashedPhoto, albumId?: string) => {
+    setBusyPhotoId(item.photo.id);
+    try {
+      await restoreTrashedPhoto(item.photo.id, albumId);
+      setPickingForId(null);
+    } catch (error) {
+      console.error("Failed to restore photo:", error);
+      alert(getErrorMessage(error, "Failed to restore photo."));
+    } finally {
+      setBusyPhotoId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashedPhoto) => {
+    if (!confirm(`Permanently delete "${item.photo.title}"? This action cannot be undone.`)) {
+      return;
+    }
+    setBusyPhotoId(item.photo.id);
+    try {
+      await purgeTrashedPhoto(item.photo.id);
+    } catch (error) {
+      console.error("Failed to delete photo:", error);
+      alert(getErrorMessage(error, "Failed to delete photo."));
+    } finally {
+      setBusyPhotoId(null);
+    }
+  };
+
+  if (error) {
+    return <div className="text-red-500 text-center py-12">{error}</div>;
+  }
+
+  if (!trash) {
+    return <div className="text-white text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-12">
+      <div className="mb-8">
+        <h2 className="text-2xl text-white font-semibold">Trash</h2>
+        <p className="text-sm text-white/50 mt-1">
+          Deleted photos are kept for {TRASH_RETENTION_DAYS} days before they are removed permanently.
+        </p>
+      </div>
+
+      {trash.length === 0 ? (
+        <div className="text-white/40 text-center py-12">The trash is empty.</div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {trash.map(item => {
+            const { photo } = item;
+            const originalAlbum = albums.find(a => a.id === photo.albumId);
+            const isBusy = busyPhotoId === photo.id;
+            const daysLeft = getDaysLeft(item.deletedAt);
+
+            return (
+              <div key={photo.id} className="bg-zinc-900 rounded-xl overflow-hidden border border-white/10">
+                <div className="aspect-[4/3] bg-zinc-800">
+                  <img
+                    src={getImageUrl(photo.url, THUMBNAIL_SIZES.HOME_GRID)}
+                    alt={photo.title}
+                    className="w-full h-full object-cover opacity-80"
+                    loading="lazy"
+                  />
+                </div>
+                <div className="p-4 space-y-3">
+                  <div>
+                    <p className="text-white truncate">{photo.title}</p>
+                    <p className="text-xs text-white/50">
+                      {originalAlbum ? originalAlbum.name : 'Album was deleted'} · Deleted {new Date(item.deletedAt).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs text-white/40">
+                      {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                    </p>
+                  </div>
+
+                  {pickingForId === photo.id ? (
+                    <div className="space-y-2">
+                      <AlbumSelector albums={albums} selectedAlbumId={targetAlbumId} onSelect={setTargetAlbumId} />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleRestore(item, targetAlbumId)}
+                          disabled={!targetAlbumId || isBusy}
+                          className="flex-1 bg-white text-black px-3 py-1.5 rounded text-sm font-medium hover:bg-white/90 disabled:opacity-50"
+                        >
+                          {isBusy ? 'Restoring...' : 'Restore here'}
+                        </button>
+                        <button
+                          onClick={() => setPickingForId(null)}
+                          className="px-3 py-1.5 rounded text-sm text-white/60 hover:text-white"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        // Without its original album the photo needs a new home first
+                        onClick={() => originalAlbum ? handleRestore(item) : openPicker(item)}
+                        disabled={isBusy}
+                        className="flex-1 flex items-center justify-center gap-1.5 bg-white/10 text-white px-3 py-1.5 rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => openPicker(item)}
+                        disabled={isBusy}
+                        title="Restore to another album"
+                        className="p-2 bg-white/10 text-white rounded hover:bg-white/20 disabled:opacity-50"
+                      >
+                        <FolderInput className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(item)}
+                        disabled={isBusy}
+                        title="Delete forever"
+                        className="p-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useGalleryActions, useHistory } from '../hooks/useGallery';
+import { getErrorMessage } from '../services/errors';
+import { HistoryEntry } from '../store/galleryStore';
+
+interface UndoManagerProps {
+  isEditMode: boolean;
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac) for the editor's action history, plus an Undo toast after destructive actions
+export function UndoManager({ isEditMode }: UndoManagerProps) {
+  const { undo, redo } = useGalleryActions();
+  const { lastEntry } = useHistory();
+  // Ids only ever grow, so an entry above this one was just recorded (rather than brought back by a redo)
+  const lastToastedId = useRef(0);
+  const undoToastId = useRef<string | number | null>(null);
+
+  const runReplay = async (replay: () => Promise<HistoryEntry | null>, verb: 'Undo' | 'Redo') => {
+    try {
+      const entry = await replay();
+      if (entry) toast(`${verb}: ${entry.label}`);
+    } catch (error) {
+      alert(getErrorMessage(error, `${verb} failed. The change could not be reversed.`));
+    }
+  };
+
+  useEffect(() => {
+    if (!lastEntry || lastEntry.id <= lastToastedId.current) return;
+    lastToastedId.current = lastEntry.id;
+    // A newer action is what Undo would reverse now, so the toast of an older one goes away
+    if (undoToastId.current !== null) toast.dismiss(undoToastId.current);
+    undoToastId.current = null;
+    if (!lastEntry.destructive) return;
+    const entryId = lastEntry.id;
+    undoToastId.current = toast(lastEntry.label, {
+      action: { label: 'Undo', onClick: () => runReplay(() => undo(entryId), 'Undo') },
+    });
+  }, [lastEntry, undo]);
+
+  useEffect(() => {
+    if (!isEditMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Text fields keep their own undo
+      const activeElement = document.activeElement as HTMLElement;
+      const isTyping = activeElement && (
+        activeElement.tagName === 'INPUT' ||
+        activeElement.tagName === 'TEXTAREA' ||
+        activeElement.isContentEditable
+      );
+      if (isTyping) return;
+
+      e.preventDefault();
+      if (e.shiftKey) runReplay(redo, 'Redo');
+      else runReplay(undo, 'Undo');
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditMode, undo, redo]);
+
+  return null;
+}
@@ -1,36 +1,61 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useGallery } from '../hooks/useGallery';
-import { X, Upload, Loader2, Plus, Calendar, Camera, MapPin, FileImage, Search, Check, Aperture, Clock } from 'lucide-react';
-import exifr from 'exifr';
-import { Progress } from './ui/progress';
+import { useAlbums, useGalleryActions, usePhotos } from '../hooks/useGallery';
+import { X, Upload, Loader2, Plus, Calendar, Camera, MapPin, FileImage, Aperture, Clock, FolderOpen } from 'lucide-react';
 import { getCityFromCoordinates } from '../services/geocoding';
+import { getErrorMessage } from '../services/errors';
+import { PhotoDetails, readPhotoDetails } from '../services/photoUpload';
 import { AlbumSelector } from './AlbumSelector';
+import { UploadReviewGrid, UploadDraft, UploadDraftChanges, DuplicateNotice, duplicateActionOf } from './UploadReviewGrid';
+import { PreprocessOptionsPanel } from './PreprocessOptionsPanel';
+import { FolderAlbumMapping, isFolderAlbumComplete } from './FolderAlbumMapping';
+import { PreprocessOptions, loadPreprocessPreference, savePreprocessPreference } from '../services/imagePreprocessing';
+import { CAMERA_FILE_EXTENSIONS, needsConversion, readEmbeddedThumbnail } from '../services/imageFormats';
+import { DuplicateMatch, PhotoHashes, findDuplicate, hashPhotoFile } from '../services/photoHashing';
+import { MediaGroup, VIDEO_FILE_EXTENSIONS, isVideoFile, pairLivePhotos } from '../services/videoFiles';
+import { FolderAlbum, PickedFile, planFolderAlbums, readDroppedFiles, readInputFiles } from '../services/folderImport';
 
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-// Expanded metadata interface to include more EXIF details
-interface ExtractedMetadata {
-  takenAt?: string;
-  cameraMake?: string;
-  cameraModel?: string;
-  fNumber?: number;
-  exposureTime?: number;
-  iso?: number;
-  gps?: {
-    latitude: number;
-    longitude: number;
-  };
-  locationName?: string;
-}
+// datetime-local inputs show local time, to the minute
+const toDateTimeInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const FILE_INPUT_ACCEPT = ['image/*', 'video/*', ...CAMERA_FILE_EXTENSIONS, ...VIDEO_FILE_EXTENSIONS].join(',');
+
+const createDraft = ({ file, motionFile }: MediaGroup, index: number, folder?: string): UploadDraft => ({
+  id: `${index}-${file.name}`,
+  file,
+  motionFile,
+  folder,
+  // Browsers cannot show HEIC and RAW files; their embedded thumbnail is read along with their details
+  previewUrl: needsConversion(file) ? '' : URL.createObjectURL(file),
+  title: file.name.replace(/\.[^/.]+$/, ''),
+  albumId: '',
+  location: '',
+  takenAt: '',
+});
+
+const releaseDrafts = (drafts: UploadDraft[]) => drafts.forEach(d => URL.revokeObjectURL(d.previewUrl));
+
+// The date entered in the review grid replaces the one read from the file, unless it was left as it was
+const withReviewedDate = (draft: UploadDraft, details: PhotoDetails): PhotoDetails =>
+  draft.takenAt === toDateTimeInput(details.takenAt)
+    ? details
+    : { ...details, takenAt: draft.takenAt ? new Date(draft.takenAt).toISOString() : undefined };
 
 export function UploadModal({ isOpen, onClose }: UploadModalProps) {
-  const [files, setFiles] = useState<File[]>([]);
+  const [drafts, setDrafts] = useState<UploadDraft[]>([]);
   const [title, setTitle] = useState('');
   const [selectedAlbumId, setSelectedAlbumId] = useState('');
-  const [metadata, setMetadata] = useState<ExtractedMetadata | null>(null);
+  const [metadata, setMetadata] = useState<PhotoDetails | null>(null);
+  const [folderAlbums, setFolderAlbums] = useState<FolderAlbum[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   
   const [isCreatingAlbum, setIsCreatingAlbum] = useState(false);
   const [newAlbumName, setNewAlbumName] = useState('');
@@ -38,52 +63,96 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
   const [newAlbumTheme, setNewAlbumTheme] = useState('');
 
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState({ completed: 0, total: 0 });
+  const [preprocess, setPreprocess] = useState<PreprocessOptions | null>(loadPreprocessPreference);
   
   const [isAlbumSelectorOpen, setIsAlbumSelectorOpen] = useState(false);
 
-  const { uploadAndAddPhoto, batchUploadPhotos, createAlbum, deleteAlbumItem, albums } = useGallery();
+  const albums = useAlbums();
+  const photos = usePhotos();
+  const { queueUploads, createAlbum, loadAllChunks } = useGalleryActions();
+  const files = useMemo(() => drafts.map(d => d.file), [drafts]);
+  const isSingleFile = files.length === 1;
+  // Only stills are optimized; clips go to the image host as they are
+  const imageFiles = useMemo(() => files.filter(f => !isVideoFile(f)), [files]);
+
+  // Files are checked against the whole library for copies, so all of it is loaded
+  const hasFiles = files.length > 0;
+  useEffect(() => {
+    if (hasFiles) loadAllChunks().catch(err => console.warn('Failed to load the library to check for duplicates:', err));
+  }, [hasFiles, loadAllChunks]);
+
+  // Hashes the files one at a time, in a worker
+  const nextUnhashedDraft = drafts.find(d => !d.hashes);
+  useEffect(() => {
+    if (!nextUnhashedDraft) return;
+    let cancelled = false;
+    hashPhotoFile(nextUnhashedDraft.file)
+      .catch((e): PhotoHashes => {
+        console.warn(`Failed to hash ${nextUnhashedDraft.file.name}:`, e);
+        return {};
+      })
+      .then(hashes => {
+        if (!cancelled) setDrafts(prev => prev.map(d => d.id === nextUnhashedDraft.id ? { ...d, hashes } : d));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [nextUnhashedDraft]);
+
+  const duplicates = useMemo(() => {
+    const matches = new Map<string, DuplicateMatch>();
+    drafts.forEach(draft => {
+      const match = draft.hashes && findDuplicate(draft.hashes, photos);
+      if (match) matches.set(draft.id, match);
+    });
+    return matches;
+  }, [drafts, photos]);
+
+  // Reads the files of a batch one at a time, so the review grid fills in as it goes
+  const nextUnreadDraft = drafts.length > 1 ? drafts.find(d => !d.details) : undefined;
+  useEffect(() => {
+    if (!nextUnreadDraft) return;
+    let cancelled = false;
+    const { file } = nextUnreadDraft;
+    Promise.all([
+      readPhotoDetails(file).catch((e): PhotoDetails => {
+        console.warn(`Failed to extract EXIF data for ${file.name}:`, e);
+        return {};
+      }),
+      nextUnreadDraft.previewUrl ? undefined : readEmbeddedThumbnail(file),
+    ])
+      .then(([details, thumbnail]) => {
+        if (cancelled) return;
+        const thumbnailUrl = thumbnail && URL.createObjectURL(thumbnail);
+        setDrafts(prev => prev.map(d => d.id === nextUnreadDraft.id
+          ? { ...d, details, takenAt: d.takenAt || toDateTimeInput(details.takenAt), previewUrl: d.previewUrl || thumbnailUrl || '' }
+          : d
+        ));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [nextUnreadDraft]);
 
   // Handle single file metadata preview
+  const singleFile = isSingleFile ? files[0] : null;
   useEffect(() => {
-    if (files.length !== 1) {
+    if (!singleFile) {
       setMetadata(null);
       return;
     }
 
     const extractMeta = async () => {
       try {
-        const output = await exifr.parse(files[0], {
-          tiff: true,
-          exif: true,
-          gps: true,
-        });
-        
-        let meta: ExtractedMetadata = {};
-
-        if (output) {
-          meta = {
-            takenAt: output.DateTimeOriginal ? output.DateTimeOriginal.toISOString() : undefined,
-            cameraMake: output.Make,
-            cameraModel: output.Model,
-            fNumber: output.FNumber,
-            exposureTime: output.ExposureTime,
-            iso: output.ISO,
-            gps: output.latitude && output.longitude ? {
-              latitude: output.latitude,
-              longitude: output.longitude
-            } : undefined
-          };
-
-          if (meta.gps) {
-            setMetadata(meta); // Show GPS coords immediately
-            const locationName = await getCityFromCoordinates(meta.gps.latitude, meta.gps.longitude);
-            if (locationName) {
-              setMetadata(prev => prev ? { ...prev, locationName } : { locationName });
-            }
-          } else {
-            setMetadata(meta);
+        const meta = await readPhotoDetails(singleFile);
+        if (meta.gps) {
+          setMetadata(meta); // Show GPS coords immediately
+          const locationName = await getCityFromCoordinates(meta.gps.latitude, meta.gps.longitude);
+          if (locationName) {
+            setMetadata(prev => prev ? { ...prev, locationName } : { locationName });
           }
+        } else {
+          setMetadata(meta);
         }
       } catch (e) {
         console.warn('Failed to extract EXIF data for preview:', e);
@@ -92,12 +161,13 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
     };
 
     extractMeta();
-  }, [files]);
+  }, [singleFile]);
 
   if (!isOpen) return null;
 
   const resetForm = () => {
-    setFiles([]);
+    releaseDrafts(drafts);
+    setDrafts([]);
     setTitle('');
     setSelectedAlbumId('');
     setIsCreatingAlbum(false);
@@ -105,25 +175,87 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
     setNewAlbumDesc('');
     setNewAlbumTheme('');
     setMetadata(null);
-    setUploadProgress({ completed: 0, total: 0 });
+    setFolderAlbums([]);
     setIsAlbumSelectorOpen(false);
   };
 
+  const pickFiles = async (picked: PickedFile[]) => {
+    if (picked.length === 0) return;
+    const folders = new Map(picked.map(p => [p.file, p.folder]));
+    // The still and the clip of a Live Photo become one draft
+    const groups = await pairLivePhotos(picked.map(p => p.file));
+    releaseDrafts(drafts);
+    setDrafts(groups.map((group, i) => createDraft(group, i, folders.get(group.file) || undefined)));
+    setFolderAlbums(planFolderAlbums(picked, albums));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      setFiles(Array.from(e.target.files));
+    if (e.target.files) pickFiles(readInputFiles(e.target.files));
+  };
+
+  // Dropped folders are walked into; the file input underneath would only take loose files
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      await pickFiles(await readDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+      alert(getErrorMessage(error, 'Failed to read the dropped files.'));
+    }
+  };
+
+  const handleFolderAlbumChange = (folder: string, changes: Partial<FolderAlbum>) => {
+    setFolderAlbums(prev => prev.map(f => f.folder === folder ? { ...f, ...changes } : f));
+  };
+
+  const handlePreprocessChange = (options: PreprocessOptions | null) => {
+    setPreprocess(options);
+    savePreprocessPreference(options);
+  };
+
+  const handleDraftsChange = (ids: string[], changes: UploadDraftChanges) => {
+    setDrafts(prev => prev.map(d => ids.includes(d.id) ? { ...d, ...changes } : d));
+  };
+
+  const handleDraftsRemove = (ids: string[]) => {
+    const remaining = drafts.filter(d => !ids.includes(d.id));
+    releaseDrafts(drafts.filter(d => ids.includes(d.id)));
+    // A single file left over gets the single-file form, with the title and album it had in the grid
+    if (remaining.length === 1) {
+      setTitle(remaining[0].title);
+      if (remaining[0].albumId) setSelectedAlbumId(remaining[0].albumId);
     }
+    setDrafts(remaining);
   };
 
+  const isSkipped = (draft: UploadDraft) => duplicateActionOf(draft, duplicates.get(draft.id)) === 'skip';
+  const skippedCount = drafts.filter(isSkipped).length;
+  // Files with an album of their own in the review grid go there; files from a folder go to the folder's album
+  const needsFolderAlbum = (draft: UploadDraft) => !isSkipped(draft) && (isSingleFile || !draft.albumId);
+  const usedFolderAlbums = folderAlbums
+    .map(f => ({ ...f, fileCount: drafts.filter(d => d.folder === f.folder && needsFolderAlbum(d)).length }))
+    .filter(f => f.fileCount > 0);
+  const needsUploadAlbum = drafts.some(d => needsFolderAlbum(d) && !d.folder);
+  const hasIncompleteFolderAlbum = usedFolderAlbums.some(f => !isFolderAlbumComplete(f));
+  const isReadingDetails = !!nextUnreadDraft;
+  const isCheckingDuplicates = !!nextUnhashedDraft;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (files.length === 0) return;
     if (files.length === 1 && !title) return;
 
+    // Copies of photos in the library are left out or replace them, as chosen
+    const toUpload = drafts.filter(d => !isSkipped(d));
+    if (toUpload.length === 0) {
+      onClose();
+      resetForm();
+      return;
+    }
+
     setIsUploading(true);
-    setUploadProgress({ completed: 0, total: files.length }); // Initialize progress
     let targetAlbumId = selectedAlbumId;
-    let newAlbumCreatedId: string | null = null;
 
     try {
       if (isCreatingAlbum) {
@@ -132,34 +264,48 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
           setIsUploading(false);
           return;
         }
-        const newId = await createAlbum(newAlbumName, newAlbumDesc, newAlbumTheme);
-        targetAlbumId = newId;
-        newAlbumCreatedId = newId;
+        targetAlbumId = await createAlbum(newAlbumName, newAlbumDesc, newAlbumTheme);
       }
 
-      if (!targetAlbumId) {
+      if (!targetAlbumId && needsUploadAlbum) {
         alert('Please select or create an album');
         setIsUploading(false);
         return;
       }
 
-      try {
-        if (files.length === 1) {
-          await uploadAndAddPhoto(files[0], title, targetAlbumId, metadata || undefined);
-          setUploadProgress({ completed: 1, total: 1 }); // Update progress for single file
-        } else {
-          await batchUploadPhotos(files, targetAlbumId, (completed, total) => {
-            setUploadProgress({ completed, total });
-          });
-        }
-      } catch (uploadError) {
-        if (newAlbumCreatedId) {
-          console.warn(`Photo upload failed. Rolling back album creation for albumId: ${newAlbumCreatedId}`);
-          await deleteAlbumItem(newAlbumCreatedId);
-        }
-        throw uploadError; // Re-throw to be caught by the outer catch block
+      // Albums for the picked folders; folders with the same name and theme share one new album
+      const folderAlbumIds = new Map<string, string>();
+      const newAlbumIds = new Map<string, string>();
+      for (const { folder, albumId, name, theme } of usedFolderAlbums) {
+        const key = `${theme.trim()}/${name.trim()}`;
+        const id = albumId || newAlbumIds.get(key) || await createAlbum(name.trim(), '', theme.trim());
+        if (!albumId) newAlbumIds.set(key, id);
+        folderAlbumIds.set(folder, id);
       }
-      
+      const folderAlbumOf = (draft: UploadDraft) => draft.folder && folderAlbumIds.get(draft.folder);
+
+      const duplicateFields = (draft: UploadDraft) => {
+        const match = duplicates.get(draft.id);
+        return {
+          hashes: draft.hashes,
+          replacesPhotoId: match && duplicateActionOf(draft, match) === 'replace' ? match.photo.id : undefined,
+        };
+      };
+
+      // The files are uploaded in the background; the upload tray shows how they are doing
+      await queueUploads(isSingleFile
+        ? [{ file: files[0], motionFile: drafts[0].motionFile, albumId: folderAlbumOf(drafts[0]) || targetAlbumId, title, details: metadata || undefined, preprocess: preprocess ?? undefined, ...duplicateFields(drafts[0]) }]
+        : toUpload.map(draft => ({
+          file: draft.file,
+          motionFile: draft.motionFile,
+          albumId: draft.albumId || folderAlbumOf(draft) || targetAlbumId,
+          title: draft.title,
+          location: draft.location || undefined,
+          details: draft.details && withReviewedDate(draft, draft.details),
+          preprocess: preprocess ?? undefined,
+          ...duplicateFields(draft),
+        })));
+
       onClose();
       resetForm();
     } catch (error: any) {
@@ -170,12 +316,9 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
     }
   };
 
-  const isSingleFile = files.length === 1;
-  const progressValue = uploadProgress.total > 0 ? (uploadProgress.completed / uploadProgress.total) * 100 : 0;
-
   return (
     <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-4">
-      <div className="bg-zinc-900 rounded-lg w-full max-w-md p-6 relative border border-white/10 max-h-[90vh] overflow-y-auto scrollbar-thin scrollbar-thumb-zinc-700 transition-all duration-300">
+      <div className={`bg-zinc-900 rounded-lg w-full ${files.length > 1 ? 'max-w-4xl' : 'max-w-md'} p-6 relative border border-white/10 max-h-[90vh] overflow-y-auto scrollbar-thin scrollbar-thumb-zinc-700 transition-all duration-300`}>
         <button
           onClick={onClose}
           className="absolute top-4 right-4 text-white/60 hover:text-white"
@@ -189,10 +332,18 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* File Input */}
-          <div className="border-2 border-dashed border-white/20 rounded-lg p-8 text-center hover:border-white/40 transition-colors cursor-pointer relative">
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-white/40 transition-colors cursor-pointer relative ${isDragging ? 'border-blue-400 bg-blue-500/5' : 'border-white/20'}`}
+          >
             <input
               type="file"
-              accept="image/*"
+              accept={FILE_INPUT_ACCEPT}
               multiple
               onChange={handleFileChange}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -202,7 +353,10 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
                 {isSingleFile ? (
                   <>
                     <p className="font-medium truncate">{files[0].name}</p>
-                    <p className="text-sm text-white/60 mt-1">{(files[0].size / 1024 / 1024).toFixed(2)} MB</p>
+                    <p className="text-sm text-white/60 mt-1">
+                      {((files[0].size + (drafts[0].motionFile?.size ?? 0)) / 1024 / 1024).toFixed(2)} MB
+                      {drafts[0].motionFile && ' · Live Photo'}
+                    </p>
                   </>
                 ) : (
                   <>
@@ -216,7 +370,7 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
                     </div>
                     <p className="font-medium">{files.length} photos selected</p>
                     <p className="text-sm text-white/60 mt-1">
-                      {(files.reduce((acc, f) => acc + f.size, 0) / 1024 / 1024).toFixed(2)} MB Total
+                      {(drafts.reduce((acc, d) => acc + d.file.size + (d.motionFile?.size ?? 0), 0) / 1024 / 1024).toFixed(2)} MB Total
                     </p>
                   </>
                 )}
@@ -224,10 +378,39 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             ) : (
               <div className="text-white/60">
                 <Upload className="w-8 h-8 mx-auto mb-2" />
-                <p>Click or drag to upload images</p>
+                <p>Click or drop photos, videos or folders</p>
               </div>
             )}
           </div>
+          <label className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 cursor-pointer w-fit">
+            <FolderOpen className="w-3 h-3" /> Choose a folder
+            <input
+              type="file"
+              // Not in React's typings; picks a whole folder, with the path of each file inside it
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {/* Albums for the picked folders */}
+          {usedFolderAlbums.length > 0 && (
+            <FolderAlbumMapping folders={usedFolderAlbums} albums={albums} onChange={handleFolderAlbumChange} />
+          )}
+
+          {/* Review grid (several files) */}
+          {files.length > 1 && (
+            <UploadReviewGrid drafts={drafts} duplicates={duplicates} albums={albums} onChange={handleDraftsChange} onRemove={handleDraftsRemove} />
+          )}
+
+          {/* Duplicate (single file only; the review grid shows its own) */}
+          {isSingleFile && duplicates.has(drafts[0].id) && (
+            <DuplicateNotice
+              match={duplicates.get(drafts[0].id)!}
+              action={duplicateActionOf(drafts[0], duplicates.get(drafts[0].id))}
+              onChange={(duplicateAction) => handleDraftsChange([drafts[0].id], { duplicateAction })}
+            />
+          )}
 
           {/* Metadata Display (Single file only) */}
           {isSingleFile && metadata && (
@@ -291,9 +474,14 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             </div>
           )}
 
+          <PreprocessOptionsPanel options={preprocess} onChange={handlePreprocessChange} files={imageFiles} />
+
           {/* Album Selection */}
           <div>
-            <label className="block text-sm text-white/60 mb-1">Album</label>
+            <label className="block text-sm text-white/60 mb-1">{files.length > 1 ? 'Upload album' : 'Album'}</label>
+            {files.length > 1 && (
+              <p className="text-xs text-white/40 mb-2">For the photos above that have no album of their own.</p>
+            )}
             {!isCreatingAlbum ? (
               <div className="space-y-2">
                 <div 
@@ -355,26 +543,33 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             )}
           </div>
 
-          {/* Progress Bar */}
-          {isUploading && (
-            <div className="space-y-1 pt-2">
-              <Progress value={progressValue} className="w-full h-2 bg-white/10 [&>div]:bg-white" />
-              <p className="text-xs text-white/60 text-right">
-                {uploadProgress.completed} / {uploadProgress.total}
-              </p>
-            </div>
-          )}
-
           <button
             type="submit"
-            disabled={files.length === 0 || (isSingleFile && !title) || isUploading || (!selectedAlbumId && !isCreatingAlbum)}
+            disabled={
+              files.length === 0 || (isSingleFile && !title) || isUploading || isReadingDetails || isCheckingDuplicates || hasIncompleteFolderAlbum ||
+              (needsUploadAlbum && !selectedAlbumId && !isCreatingAlbum)
+            }
             className="w-full bg-white text-black font-medium py-2 rounded hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 mt-6"
           >
             {isUploading ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin" />
-                {files.length > 1 ? `Uploading...` : 'Uploading...'}
+                Adding to upload queue...
+              </>
+            ) : isReadingDetails ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading photo details...
+              </>
+            ) : isCheckingDuplicates ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Checking for duplicates...
               </>
+            ) : skippedCount === files.length ? (
+              'Close (All Skipped as Duplicates)'
+            ) : skippedCount > 0 ? (
+              `Upload ${files.length - skippedCount} Photos (${skippedCount} skipped)`
             ) : (
               files.length > 1 ? 'Upload All Photos' : 'Upload Photo'
             )}
@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import { X, Loader2, Trash2, Copy } from 'lucide-react';
+import { AlbumWithStats } from '../types';
+import { PhotoDetails } from '../services/photoUpload';
+import { getFileFormat } from '../services/imageFormats';
+import { isVideoFile } from '../services/videoFiles';
+import { DuplicateMatch, PhotoHashes } from '../services/photoHashing';
+import { getImageUrl } from '../services/backend';
+import { THUMBNAIL_SIZES } from '../config/imageConfig';
+
+// What to do with a file that is already in the library: leave it out, upload it and trash the copy, or keep both
+export type DuplicateAction = 'skip' | 'replace' | 'keep';
+
+const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: 'Skip',
+  replace: 'Replace',
+  keep: 'Keep both',
+};
+
+// A file picked for upload, with the fields the user can still change before it is queued
+export interface UploadDraft {
+  id: string;
+  file: File;
+  motionFile?: File; // The clip of a Live Photo
+  folder?: string; // Path of the folder it was picked from, whose album it goes to unless it has one of its own
+  previewUrl: string; // Object URL of the file or its thumbnail, revoked when the draft is dropped; empty when there is none
+  details?: PhotoDetails; // Undefined until the file's EXIF data has been read
+  title: string;
+  albumId: string; // Empty for the album chosen for the whole upload
+  location: string;
+  takenAt: string; // As a datetime-local value; empty when unknown
+  hashes?: PhotoHashes; // Undefined until the file has been hashed
+  duplicateAction?: DuplicateAction; // Chosen for a file that is already in the library; see duplicateActionOf
+}
+
+export type UploadDraftChanges = Partial<Pick<UploadDraft, 'title' | 'albumId' | 'location' | 'takenAt' | 'duplicateAction'>>;
+
+/** What happens to a draft on upload. Exact copies are skipped unless the user says otherwise; similar photos are kept. */
+export const duplicateActionOf = (draft: UploadDraft, match?: DuplicateMatch): DuplicateAction =>
+  match ? draft.duplicateAction ?? (match.exact ? 'skip' : 'keep') : 'keep';
+
+type BulkField = keyof UploadDraftChanges;
+
+const BULK_FIELD_LABELS: Record<BulkField, string> = {
+  title: 'Title',
+  albumId: 'Album',
+  location: 'Location',
+  takenAt: 'Date taken',
+  duplicateAction: 'Duplicates',
+};
+
+interface UploadReviewGridProps {
+  drafts: UploadDraft[];
+  duplicates: Map<string, DuplicateMatch>; // By draft id, for the drafts already in the library
+  albums: AlbumWithStats[];
+  onChange: (ids: string[], changes: UploadDraftChanges) => void;
+  onRemove: (ids: string[]) => void;
+}
+
+const inputClassName = 'w-full bg-black/50 border border-white/10 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-white/40';
+
+const describeExposure = ({ cameraModel, fNumber, exposureTime, iso }: PhotoDetails) => [
+  cameraModel,
+  fNumber && `f/${fNumber.toFixed(1)}`,
+  exposureTime && `1/${Math.round(1 / exposureTime)}s`,
+  iso && `ISO ${iso}`,
+].filter(Boolean).join(' · ');
+
+function AlbumOptions({ albums }: { albums: AlbumWithStats[] }) {
+  return (
+    <>
+      <option value="">Upload album</option>
+      {albums.map(album => <option key={album.id} value={album.id}>{album.name} ({album.theme})</option>)}
+    </>
+  );
+}
+
+function DuplicateActionOptions() {
+  return (
+    <>
+      {Object.entries(DUPLICATE_ACTION_LABELS).map(([action, label]) => <option key={action} value={action}>{label}</option>)}
+    </>
+  );
+}
+
+interface DuplicateNoticeProps {
+  match: DuplicateMatch;
+  action: DuplicateAction;
+  onChange: (action: DuplicateAction) => void;
+}
+
+/** Names the photo a file to upload is a copy of, and asks what to do about it. */
+export function DuplicateNotice({ match, action, onChange }: DuplicateNoticeProps) {
+  return (
+    <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/30 rounded p-1.5 text-[11px] text-amber-200">
+      <img
+        src={getImageUrl(match.photo.url, THUMBNAIL_SIZES.VIEWER_THUMBNAIL)}
+        alt={match.photo.title}
+        className="w-8 h-8 rounded object-cover flex-shrink-0"
+      />
+      <span className="flex-1 min-w-0 truncate" title={match.photo.title}>
+        <Copy className="w-3 h-3 inline mr-1" />
+        {match.exact ? 'Already uploaded' : 'Looks like'} "{match.photo.title}"
+      </span>
+      <select
+        value={action}
+        onChange={(e) => onChange(e.target.value as DuplicateAction)}
+        className="bg-zinc-800 border border-white/10 rounded px-1 py-0.5 text-white"
+      >
+        <DuplicateActionOptions />
+      </select>
+    </div>
+  );
+}
+
+// Thumbnails of the files in a batch upload. Each can be edited on its own, or selected to change several at once.
+export function UploadReviewGrid({ drafts, duplicates, albums, onChange, onRemove }: UploadReviewGridProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkField, setBulkField] = useState<BulkField>('albumId');
+  const [bulkValue, setBulkValue] = useState('');
+
+  // Drafts removed since the last render drop out of the selection
+  const selectedIds = drafts.filter(d => selected.has(d.id)).map(d => d.id);
+  const allSelected = selectedIds.length === drafts.length;
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const applyToSelected = () => {
+    onChange(selectedIds, { [bulkField]: bulkValue });
+  };
+
+  const removeSelected = () => {
+    onRemove(selectedIds);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-white/70">
+        <button
+          type="button"
+          onClick={() => setSelected(allSelected ? new Set() : new Set(drafts.map(d => d.id)))}
+          className="px-2 py-1 rounded border border-white/10 hover:bg-white/10"
+        >
+          {allSelected ? 'Select none' : 'Select all'}
+        </button>
+        {selectedIds.length > 0 && (
+          <>
+            <span>{selectedIds.length} selected · Set</span>
+            <select
+              value={bulkField}
+              onChange={(e) => {
+                const field = e.target.value as BulkField;
+                setBulkField(field);
+                setBulkValue(field === 'duplicateAction' ? 'skip' : '');
+              }}
+              className="bg-zinc-800 border border-white/10 rounded px-2 py-1 text-white"
+            >
+              {Object.entries(BULK_FIELD_LABELS).map(([field, label]) => <option key={field} value={field}>{label}</option>)}
+            </select>
+            {bulkField === 'albumId' || bulkField === 'duplicateAction' ? (
+              <select
+                value={bulkValue}
+                onChange={(e) => setBulkValue(e.target.value)}
+                className="bg-zinc-800 border border-white/10 rounded px-2 py-1 text-white max-w-[12rem]"
+              >
+                {bulkField === 'albumId' ? <AlbumOptions albums={albums} /> : <DuplicateActionOptions />}
+              </select>
+            ) : (
+              <input
+                type={bulkField === 'takenAt' ? 'datetime-local' : 'text'}
+                value={bulkValue}
+                onChange={(e) => setBulkValue(e.target.value)}
+                className="bg-black/50 border border-white/10 rounded px-2 py-1 text-white"
+              />
+            )}
+            <button type="button" onClick={applyToSelected} className="px-2 py-1 rounded bg-white text-black hover:bg-white/90">
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={removeSelected}
+              className="flex items-center gap-1 px-2 py-1 rounded text-red-400 hover:bg-red-500/10"
+            >
+              <Trash2 className="w-3 h-3" /> Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[50vh] overflow-y-auto pr-1 scrollbar-thin scrollbar-thumb-zinc-700">
+        {drafts.map(draft => {
+          const isSelected = selected.has(draft.id);
+          const { details } = draft;
+          const duplicate = duplicates.get(draft.id);
+          const isSkipped = duplicateActionOf(draft, duplicate) === 'skip';
+          return (
+            <div
+              key={draft.id}
+              className={`rounded-lg border bg-white/5 overflow-hidden ${isSelected ? 'border-blue-400' : 'border-white/10'}`}
+            >
+              <div className={`relative aspect-square bg-black ${isSkipped ? 'opacity-40' : ''}`}>
+                {draft.previewUrl && isVideoFile(draft.file) ? (
+                  <video src={draft.previewUrl} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                ) : draft.previewUrl ? (
+                  <img src={draft.previewUrl} alt={draft.file.name} loading="lazy" decoding="async" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-white/40 text-sm font-medium uppercase">
+                    {getFileFormat(draft.file)}
+                  </div>
+                )}
+                {(draft.motionFile || isVideoFile(draft.file)) && (
+                  <span className="absolute bottom-1.5 left-1.5 bg-black/60 px-1.5 py-0.5 rounded text-[10px] font-semibold text-white/90">
+                    {draft.motionFile ? 'LIVE' : 'VIDEO'}
+                  </span>
+                )}
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => toggle(draft.id)}
+                  className="absolute top-2 left-2 w-4 h-4"
+                  aria-label={`Select ${draft.file.name}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => onRemove([draft.id])}
+                  className="absolute top-1.5 right-1.5 bg-black/60 p-1 rounded-full text-white/80 hover:text-white"
+                  title="Remove from upload"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="p-2 space-y-1.5">
+                <p className="text-[11px] text-white/40 truncate" title={draft.file.name}>
+                  {details ? describeExposure(details) || draft.file.name : (
+                    <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Reading details</span>
+                  )}
+                </p>
+                {duplicate && (
+                  <DuplicateNotice
+                    match={duplicate}
+                    action={duplicateActionOf(draft, duplicate)}
+                    onChange={(duplicateAction) => onChange([draft.id], { duplicateAction })}
+                  />
+                )}
+                <input
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => onChange([draft.id], { title: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Title"
+                />
+                <select
+                  value={draft.albumId}
+                  onChange={(e) => onChange([draft.id], { albumId: e.target.value })}
+                  className={inputClassName}
+                >
+                  <AlbumOptions albums={albums} />
+                </select>
+                <input
+                  type="text"
+                  value={draft.location}
+                  onChange={(e) => onChange([draft.id], { location: e.target.value })}
+                  className={inputClassName}
+                  placeholder={details?.gps ? `GPS ${details.gps.latitude.toFixed(3)}, ${details.gps.longitude.toFixed(3)}` : 'Location'}
+                />
+                <input
+                  type="datetime-local"
+                  value={draft.takenAt}
+                  onChange={(e) => onChange([draft.id], { takenAt: e.target.value })}
+                  className={inputClassName}
+                  title="Date taken"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Pause, Play, RotateCw, X, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { useGalleryActions, useImports, useUploads } from '../hooks/useGallery';
+import { UploadItem } from '../services/uploadStorage';
+import { ImportJob } from '../store/galleryStore';
+import { Progress } from './ui/progress';
+
+const STEP_LABELS: Record<UploadItem['status'], string> = {
+  pending: 'Waiting',
+  extracting: 'Reading details',
+  processing: 'Processing',
+  uploading: 'Uploading',
+  saving: 'Saving',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const describeStatus = (item: UploadItem) => {
+  if (item.paused) return 'Paused';
+  if (item.status === 'pending' && item.retryAt) return 'Will retry';
+  return STEP_LABELS[item.status];
+};
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`;
+
+const describeImport = (job: ImportJob) => {
+  if (job.status === 'failed') return `Stopped · ${job.error}`;
+  if (job.status === 'done') return `Done · ${job.completed} files read`;
+  return `Reading export · ${job.completed} of ${job.total} files`;
+};
+
+const isActive = (item: UploadItem) => item.status !== 'done' && item.status !== 'failed';
+
+const iconButton = 'p-1 rounded text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Progress of the upload queue, in the corner of every page so uploads can be followed after the dialog is closed.
+// Exports being read into the queue are listed above it, with the files that could not be imported.
+export function UploadTray() {
+  const uploads = useUploads();
+  const imports = useImports();
+  const { pauseUploads, resumeUploads, retryUploads, cancelUploads, clearFinishedUploads, dismissImports } = useGalleryActions();
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (uploads.length === 0 && imports.length === 0) return null;
+
+  const done = uploads.filter(u => u.status === 'done').length;
+  const failed = uploads.filter(u => u.status === 'failed').length;
+  const active = uploads.filter(isActive);
+  const running = active.filter(u => !u.paused);
+  const paused = active.filter(u => u.paused);
+  const reading = imports.filter(i => i.status === 'reading');
+
+  const progress = `${done} of ${uploads.length} uploaded`;
+  const summary = running.length > 0 ? `Uploading · ${progress}` : paused.length > 0 ? `Paused · ${progress}`
+    : uploads.length === 0 ? (reading.length > 0 ? 'Importing' : 'Import finished') : progress;
+
+  const closeTray = () => {
+    clearFinishedUploads();
+    dismissImports(imports.map(i => i.id));
+  };
+
+  const handleError = (err: unknown) => alert(err instanceof Error ? err.message : 'Failed to change the upload queue.');
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] bg-zinc-900 rounded-xl border border-white/10 shadow-2xl text-white">
+      <div className="flex items-center gap-2 px-4 py-3">
+        {active.length > 0 || reading.length > 0
+          ? <Loader2 className={`w-4 h-4 text-white/60 ${running.length > 0 || reading.length > 0 ? 'animate-spin' : ''}`} />
+          : failed > 0 ? <AlertCircle className="w-4 h-4 text-red-400" /> : <CheckCircle2 className="w-4 h-4 text-green-400" />}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{summary}</p>
+          {failed > 0 && <p className="text-xs text-red-400">{failed} failed</p>}
+        </div>
+        {running.length > 0 && (
+          <button onClick={() => pauseUploads(running.map(u => u.id)).catch(handleError)} className={iconButton} title="Pause all">
+            <Pause className="w-4 h-4" />
+          </button>
+        )}
+        {running.length === 0 && paused.length > 0 && (
+          <button onClick={() => resumeUploads(paused.map(u => u.id)).catch(handleError)} className={iconButton} title="Resume all">
+            <Play className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={() => setIsExpanded(prev => !prev)} className={iconButton} title={isExpanded ? 'Collapse' : 'Expand'}>
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        {active.length === 0 && failed === 0 && reading.length === 0 && (
+          <button onClick={closeTray} className={iconButton} title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <Progress value={uploads.length > 0 ? (done / uploads.length) * 100 : 0} className="h-1 rounded-none bg-white/10 [&>div]:bg-white" />
+
+      {isExpanded && (
+        <>
+          {imports.map(job => (
+            <div key={job.id} className="px-4 py-2 border-b border-white/10">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={job.fileName}>{job.fileName}</p>
+                  <p className={`text-xs truncate ${job.status === 'failed' ? 'text-red-400' : 'text-white/50'}`} title={job.error}>
+                    {describeImport(job)}
+                  </p>
+                </div>
+                {job.status !== 'reading' && (
+                  <button onClick={() => dismissImports([job.id])} className={iconButton} title="Dismiss">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              {job.status === 'reading' && (
+                <Progress value={job.total > 0 ? (job.completed / job.total) * 100 : 0} className="h-1 mt-1.5 bg-white/10 [&>div]:bg-white/60" />
+              )}
+              {job.errors.length > 0 && (
+                <details className="mt-1.5 text-xs">
+                  <summary className="cursor-pointer text-amber-300/90">
+                    {job.errors.length} {job.errors.length === 1 ? 'file' : 'files'} with problems
+                  </summary>
+                  <ul className="mt-1 max-h-32 overflow-y-auto space-y-1 text-white/50">
+                    {job.errors.map((fileError, i) => (
+                      <li key={i} className="break-words">
+                        <span className="text-white/70">{fileError.fileName}</span> · {fileError.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+          <ul className="max-h-64 overflow-y-auto divide-y divide-white/5">
+            {uploads.map(item => (
+              <li key={item.id} className="flex items-center gap-2 px-4 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={item.fileName}>{item.fileName}</p>
+                  {item.processedSize !== undefined && (
+                    <p className="text-xs text-white/40">{formatSize(item.size)} → {formatSize(item.processedSize)}</p>
+                  )}
+                  <p
+                    className={`text-xs truncate ${item.status === 'failed' ? 'text-red-400' : item.error ? 'text-amber-300/90' : 'text-white/50'}`}
+                    title={item.error}
+                  >
+                    {describeStatus(item)}{item.error && ` · ${item.error}`}
+                  </p>
+                </div>
+                {isActive(item) && !item.paused && item.status !== 'saving' && (
+                  <button onClick={() => pauseUploads([item.id]).catch(handleError)} className={iconButton} title="Pause">
+                    <Pause className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {item.paused && (
+                  <button onClick={() => resumeUploads([item.id]).catch(handleError)} className={iconButton} title="Resume">
+                    <Play className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {(item.status === 'failed' || (item.retryAt && !item.paused)) && (
+                  <button onClick={() => retryUploads([item.id]).catch(handleError)} className={iconButton} title="Retry now">
+                    <RotateCw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {item.status === 'done' ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-400 mx-1" />
+                ) : (
+                  <button
+                    onClick={() => cancelUploads([item.id]).catch(handleError)}
+                    disabled={item.status === 'saving'}
+                    className={iconButton}
+                    title={item.status === 'failed' ? 'Remove' : 'Cancel'}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {done > 0 && (
+            <div className="px-4 py-2 border-t border-white/10 text-right">
+              <button onClick={clearFinishedUploads} className="text-xs text-white/60 hover:text-white">
+                Clear finished
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+// Gallery behaviour configuration
+
+// Trashed photos older than this are permanently deleted the next time an editor is active
+export const TRASH_RETENTION_DAYS = 30;
+
+// System album that collects photos whose album was deleted
+export const UNSORTED_ALBUM_ID = 'unsorted';
+
+// Most recent audit log entries loaded by the Activity page; filters apply to these
+export const ACTIVITY_LOG_LIMIT = 500;
+
+// How long to wait before sending queued offline writes again when the server could not be reached
+export const OUTBOX_RETRY_MS = 30 * 1000;
+
+// Files uploaded at the same time by the upload queue
+export const UPLOAD_CONCURRENCY = 3;
+
+// A failed upload is retried after UPLOAD_RETRY_BASE_MS, then twice as long after each further failure,
+// and given up on after UPLOAD_MAX_ATTEMPTS attempts
+export const UPLOAD_RETRY_BASE_MS = 5 * 1000;
+export const UPLOAD_MAX_ATTEMPTS = 5;
+
+// Photos whose perceptual hashes differ in at most this many of their 64 bits are taken to be the same picture
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// Hosted images downloaded at the same time to hash photos uploaded before hashes were kept
+export const DUPLICATE_SCAN_CONCURRENCY = 4;
+
+// Files from a Google Takeout export are added to the upload queue this many at a time
+export const TAKEOUT_QUEUE_BATCH_SIZE = 20;
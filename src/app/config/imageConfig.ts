@@ -1,3 +1,5 @@
+import type { PreprocessOptions } from '../services/imagePreprocessing';
+
 // Image resolution configuration
 
 export const THUMBNAIL_SIZES = {
@@ -63,3 +65,14 @@ export const getResponsiveThumbnailSize = (screenWidth: number, defaultSize: num
 export const getResponsiveAlbumCoverSize = (screenWidth: number): number => {
   return getResponsiveThumbnailSize(screenWidth, THUMBNAIL_SIZES.ALBUM_COVER);
 };
+
+// Longest sides offered when images are preprocessed before upload (see services/imagePreprocessing.ts).
+// 5712px keeps 4:3 photos under Cloudinary's 25MP free-tier limit, like the incoming transformation in the README.
+export const PREPROCESS_MAX_EDGES = [2048, 3072, 4096, 5712];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 5712,
+  format: 'webp',
+  quality: 0.85,
+  stripGps: false,
+};
@@ -0,0 +1,42 @@
+import { createContext, useEffect, useState, ReactNode } from 'react';
+import { createGalleryStore, GalleryStore } from '../store/galleryStore';
+import { createGalleryActions, GalleryActions } from '../store/galleryActions';
+import { startGallerySync } from '../store/gallerySync';
+import { galleryRepository, GALLERY_BACKEND } from '../services/backend';
+
+// The local backend never leaves the browser, so only a server-backed gallery needs an offline copy and outbox
+const OFFLINE_SUPPORT = GALLERY_BACKEND === 'firebase';
+
+interface GalleryContextValue {
+  store: GalleryStore;
+  actions: GalleryActions;
+}
+
+export const GalleryContext = createContext<GalleryContextValue | null>(null);
+
+interface GalleryProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Owns the single gallery store for the app.
+ * Live listeners keep the store current with edits made in other tabs and on other devices,
+ * and every local mutation updates the shared store, so all views stay in sync.
+ */
+export function GalleryProvider({ children }: GalleryProviderProps) {
+  const [value] = useState<GalleryContextValue>(() => {
+    const store = createGalleryStore();
+    return { store, actions: createGalleryActions(store) };
+  });
+
+  useEffect(() => {
+    const stopSync = startGallerySync(value.store, galleryRepository, { offlineCache: OFFLINE_SUPPORT });
+    const stopOfflineSync = OFFLINE_SUPPORT ? value.actions.startOfflineSync() : undefined;
+    return () => {
+      stopSync();
+      stopOfflineSync?.();
+    };
+  }, [value]);
+
+  return <GalleryContext.Provider value={value}>{children}</GalleryContext.Provider>;
+}
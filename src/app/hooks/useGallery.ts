@@ -1,254 +1,86 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { 
-  getGalleryData, 
-  addPhoto, 
-  updatePhoto, 
-  deletePhoto, 
-  addAlbum,
-  updateAlbum as fbUpdateAlbum,
-  deleteAlbum,
-  logDeletedPhoto,
-  updatePhotosAlbumId
-} from '../services/firebase';
-import { uploadToCloudinary } from '../services/cloudinary';
-import { Photo, Album, AlbumWithStats } from '../types';
-import exifr from 'exifr';
-import { getCityFromCoordinates } from '../services/geocoding';
-
-type PhotoWithChunk = Photo & { _chunkId: string };
+import { useContext, useSyncExternalStore } from 'react';
+import { GalleryContext } from '../context/GalleryProvider';
+import { GalleryState } from '../store/galleryStore';
+import {
+  selectPhotos, selectPhotosByAlbum, selectAlbumsWithStats, selectLoading, selectError, selectTrash,
+  selectHasMoreChunks, selectIsLoadingChunks, selectHasFailedChunks, selectIsAlbumLoaded, selectSchemaVersion,
+  selectQuarantine, selectCanUndo, selectCanRedo, selectLastHistoryEntry, selectSyncStatus,
+  selectUploads, selectImports,
+} from '../store/selectors';
+
+const useGalleryContext = () => {
+  const context = useContext(GalleryContext);
+  if (!context) {
+    throw new Error('Gallery hooks must be used within a GalleryProvider.');
+  }
+  return context;
+};
+
+/**
+ * Subscribes to a slice of the shared gallery store.
+ * Selectors must return stable references (see store/selectors.ts) to avoid needless re-renders.
+ */
+export const useGallerySelector = <T>(selector: (state: GalleryState) => T): T => {
+  const { store } = useGalleryContext();
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
+
+export const useGalleryActions = () => useGalleryContext().actions;
+
+export const usePhotos = () => useGallerySelector(selectPhotos);
+
+// Photos grouped by album id; orphaned photos are listed under UNSORTED_ALBUM_ID
+export const usePhotosByAlbum = () => useGallerySelector(selectPhotosByAlbum);
+
+export const useAlbums = () => useGallerySelector(selectAlbumsWithStats);
+
+export const useTrash = () => useGallerySelector(selectTrash);
+
+export const useHistory = () => {
+  const canUndo = useGallerySelector(selectCanUndo);
+  const canRedo = useGallerySelector(selectCanRedo);
+  const lastEntry = useGallerySelector(selectLastHistoryEntry);
+  return { canUndo, canRedo, lastEntry };
+};
+
+// Records that failed validation when they were read, for editors to look at
+export const useQuarantine = () => useGallerySelector(selectQuarantine);
 
+// Schema version of the stored data (see services/migrations.ts)
+export const useSchemaVersion = () => useGallerySelector(selectSchemaVersion);
+
+// Connection state and the offline writes still waiting to be sent
+export const useSyncStatus = () => useGallerySelector(selectSyncStatus);
+
+// Files queued for upload on this device, with the progress of each
+export const useUploads = () => useGallerySelector(selectUploads);
+
+// Exports (e.g. Google Takeout zips) being read into the upload queue
+export const useImports = () => useGallerySelector(selectImports);
+
+export const useGalleryStatus = () => {
+  const loading = useGallerySelector(selectLoading);
+  const error = useGallerySelector(selectError);
+  return { loading, error };
+};
+
+// Whether older photos are still to be loaded, whether some are loading right now, and whether some failed to load
+export const useChunkLoadingStatus = () => {
+  const hasMore = useGallerySelector(selectHasMoreChunks);
+  const loadingMore = useGallerySelector(selectIsLoadingChunks);
+  const hasFailed = useGallerySelector(selectHasFailedChunks);
+  return { hasMore, loadingMore, hasFailed };
+};
+
+export const useIsAlbumLoaded = (albumId: string) =>
+  useGallerySelector(state => selectIsAlbumLoaded(state, albumId));
+
+// Convenience hook returning the whole gallery API. Prefer the narrower hooks above in new code.
 export const useGallery = () => {
-  const [photos, setPhotos] = useState<PhotoWithChunk[]>([]);
-  const [albums, setAlbums] = useState<Album[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchData = useCallback(async () => {
-    try {
-      setLoading(true);
-      const { photos, albums } = await getGalleryData();
-      setPhotos(photos.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-      setAlbums(albums);
-    } catch (err) {
-      setError('Failed to fetch gallery data.');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  const albumsWithStats: AlbumWithStats[] = useMemo(() => {
-    const albumsWithComputedStats = albums.map(album => {
-      const albumPhotos = photos.filter(p => p.albumId === album.id);
-      
-      // Determine cover photo:
-      // 1. If coverPhotoId is set and exists in photos, use it.
-      // 2. Fallback to the first photo in the album.
-      let coverPhoto: Photo | undefined;
-      if (album.coverPhotoId) {
-        coverPhoto = photos.find(p => p.id === album.coverPhotoId);
-      }
-      if (!coverPhoto && albumPhotos.length > 0) {
-        coverPhoto = albumPhotos[0];
-      }
-      
-      let yearRange: { start: number, end: number } | undefined = undefined;
-      let latestPhotoDate: string | undefined = undefined;
-
-      if (albumPhotos.length > 0) {
-        const years = albumPhotos.map(p => new Date(p.takenAt || p.date).getFullYear());
-        yearRange = { start: Math.min(...years), end: Math.max(...years) };
-        
-        // Find the latest photo date
-        const dates = albumPhotos.map(p => new Date(p.takenAt || p.date).getTime());
-        const maxDate = Math.max(...dates);
-        latestPhotoDate = new Date(maxDate).toISOString();
-      }
-
-      return {
-        ...album,
-        photoCount: albumPhotos.length,
-        coverPhotoUrl: coverPhoto?.url,
-        yearRange: yearRange,
-        latestPhotoDate: latestPhotoDate,
-      };
-    });
-
-    return albumsWithComputedStats.sort((a, b) => {
-      // Sort by latest photo date descending
-      const dateA = a.latestPhotoDate ? new Date(a.latestPhotoDate).getTime() : 0;
-      const dateB = b.latestPhotoDate ? new Date(b.latestPhotoDate).getTime() : 0;
-      
-      if (dateA !== dateB) {
-        return dateB - dateA;
-      }
-      
-      // Fallback to name
-      return a.name.localeCompare(b.name);
-    });
-  }, [albums, photos]);
-
-  const updatePhotoDetails = async (photoId: string, details: Partial<Pick<Photo, 'title' | 'albumId'>>) => {
-    try {
-      const photoToUpdate = photos.find(p => p.id === photoId);
-      if (!photoToUpdate) throw new Error("Photo not found in local state");
-      
-      await updatePhoto(photoId, photoToUpdate._chunkId, details);
-      setPhotos(prev => prev.map(p => p.id === photoId ? { ...p, ...details } : p));
-      
-      // If albumId changed, we might need to refresh albums to update counts/covers if needed,
-      // but local state update above handles the photo list.
-      // However, if the photo was a cover photo of the old album, or becomes one for the new album,
-      // the derived albumsWithStats will handle it automatically because it depends on [albums, photos].
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const deletePhotoItem = async (photoId: string) => {
-    try {
-      const photoToDelete = photos.find(p => p.id === photoId);
-      if (!photoToDelete) throw new Error("Photo not found in local state");
-
-      await logDeletedPhoto(photoToDelete);
-      await deletePhoto(photoId, photoToDelete._chunkId);
-      setPhotos(prev => prev.filter(p => p.id !== photoId));
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const updateAlbum = async (albumId: string, details: Partial<Album>, oldTheme?: string) => {
-    try {
-      // Update the primary album's details.
-      await fbUpdateAlbum(albumId, details);
-
-      // Update local state optimistically
-      setAlbums(prev => prev.map(a => a.id === albumId ? { ...a, ...details } : a));
-    } catch (err) {
-      console.error("Failed to update album:", err);
-      throw err;
-    }
-  };
-
-  const deleteAlbumItem = async (albumId: string) => {
-    try {
-      await deleteAlbum(albumId);
-      setAlbums(prev => prev.filter(a => a.id !== albumId));
-      fetchData(); 
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const transferAlbumPhotos = async (sourceAlbumId: string, targetAlbumId: string, deleteSource: boolean) => {
-    try {
-      const photosToTransfer = photos
-        .filter(p => p.albumId === sourceAlbumId)
-        .map(p => ({ photoId: p.id, chunkId: p._chunkId }));
-
-      if (photosToTransfer.length > 0) {
-        await updatePhotosAlbumId(photosToTransfer, targetAlbumId);
-      }
-
-      if (deleteSource) {
-        await deleteAlbum(sourceAlbumId);
-      }
-      
-      fetchData();
-
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const createAlbum = async (name: string, description: string, theme: string) => {
-    try {
-      const newAlbum: Album = { id: `album_${Date.now()}`, name, description, theme, createdAt: new Date().toISOString() };
-      await addAlbum(newAlbum);
-      setAlbums(prev => [...prev, newAlbum]);
-      return newAlbum.id;
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const processAndUploadSinglePhoto = async (file: File, title: string, albumId: string, preExtractedMetadata?: any) => {
-    let exifData = preExtractedMetadata || {};
-    if (!preExtractedMetadata) {
-      try {
-        const output = await exifr.parse(file, { tiff: true, exif: true, gps: true });
-        if (output) {
-          exifData = {
-            takenAt: output.DateTimeOriginal?.toISOString(),
-            cameraMake: output.Make,
-            cameraModel: output.Model,
-            fNumber: output.FNumber,
-            exposureTime: output.ExposureTime,
-            iso: output.ISO,
-            gps: output.latitude && output.longitude ? { latitude: output.latitude, longitude: output.longitude } : undefined
-          };
-        }
-      } catch (e) { console.warn(`Failed to extract EXIF data for ${file.name}:`, e); }
-    }
-    if (exifData.gps && !exifData.locationName) {
-      const city = await getCityFromCoordinates(exifData.gps.latitude, exifData.gps.longitude);
-      if (city) { exifData.locationName = city; }
-    }
-    const imageUrl = await uploadToCloudinary(file);
-    const image = new Image();
-    image.src = imageUrl;
-    await image.decode();
-
-    // Create photo object and remove undefined fields
-    const newPhoto: Photo = {
-      id: `photo_${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      url: imageUrl,
-      date: new Date().toISOString().split('T')[0],
-      title,
-      albumId,
-      width: image.width,
-      height: image.height,
-      aspectRatio: image.width > image.height ? 'landscape' : 'portrait',
-      ...exifData
-    };
-
-    // Remove undefined values to prevent Firestore errors
-    Object.keys(newPhoto).forEach(key => {
-      if ((newPhoto as any)[key] === undefined) {
-        delete (newPhoto as any)[key];
-      }
-    });
-
-    const chunkId = await addPhoto(newPhoto);
-    return { ...newPhoto, _chunkId: chunkId };
-  };
-
-  const uploadAndAddPhoto = async (file: File, title: string, albumId: string, preExtractedMetadata?: any) => {
-    try {
-      const newPhoto = await processAndUploadSinglePhoto(file, title, albumId, preExtractedMetadata);
-      setPhotos(prev => [newPhoto, ...prev]);
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  const batchUploadPhotos = async (files: File[], albumId: string, onProgress?: (completed: number, total: number) => void) => {
-    try {
-      let completedCount = 0;
-      const total = files.length;
-      const newPhotos: PhotoWithChunk[] = [];
-      const chunkSize = 3;
-      for (let i = 0; i < files.length; i += chunkSize) {
-        const chunk = files.slice(i, i + chunkSize);
-        const promises = chunk.map(async (file) => {
-          const photo = await processAndUploadSinglePhoto(file, file.name.replace(/\.[^/.]+$/, ""), albumId);
-          completedCount++;
-          onProgress?.(completedCount, total);
-          return photo;
-        });
-        const results = await Promise.all(promises);
-        newPhotos.push(...results);
-      }
-      setPhotos(prev => [...newPhotos, ...prev]);
-    } catch (err) { console.error(err); throw err; }
-  };
-
-  return { 
-    photos, albums: albumsWithStats, loading, error, refetch: fetchData, 
-    uploadAndAddPhoto, batchUploadPhotos, createAlbum, updatePhotoDetails, deletePhotoItem,
-    updateAlbum, deleteAlbumItem, transferAlbumPhotos
-  };
+  const photos = usePhotos();
+  const albums = useAlbums();
+  const { loading, error } = useGalleryStatus();
+  const actions = useGalleryActions();
+
+  return { photos, albums, loading, error, ...actions };
 };
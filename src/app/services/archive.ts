@@ -0,0 +1,338 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Album, Photo } from '../types';
+import { GalleryRepository, StorageSnapshot } from './galleryRepository';
+import { ImageHost } from './imageHost';
+import { planCompaction } from './compaction';
+import { InvalidArchiveError } from './errors';
+import { readVideoInfo } from './videoFiles';
+import { SCHEMA_VERSION, upgradeAlbum, upgradePhoto } from './migrations';
+import { parseAlbums, parsePhotos, QuarantinedRecord } from './validation';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+
+// Backup format: a zip with gallery.json (albums and full photo records) and, optionally, the original
+// image files under images/. It describes the gallery, not the storage layout, so chunks are not part of it.
+
+export const ARCHIVE_FORMAT = 'web-gallery-archive';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'gallery.json';
+
+export interface GalleryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number; // Shape of the album and photo records (see migrations.ts)
+  albums: Album[];
+  photos: Photo[];
+  images: Record<string, string>; // Photo id -> path of its original file in the zip
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  albumCount: number;
+  photoCount: number;
+  imageCount: number;
+  failedImages: Photo[]; // Originals that could not be downloaded; their records still point at the host
+}
+
+// What to do with an archived album or photo whose id is already in the gallery
+export type CollisionPolicy = 'skip' | 'replace' | 'keepBoth';
+
+export interface ImportCounts {
+  added: number;
+  replaced: number;
+  skipped: number;
+  renamed: number; // Kept both, under a new id
+}
+
+export interface ImportSummary {
+  albums: ImportCounts;
+  photos: ImportCounts;
+  imagesToUpload: number;
+  exportedAt: string;
+  invalid: string[]; // Malformed records in the archive, which are not imported
+  emptyGallery: boolean;
+}
+
+// The result of a dry run. Applying it performs exactly what the summary describes.
+export interface ImportPlan {
+  summary: ImportSummary;
+  albumsToAdd: Album[];
+  albumsToReplace: Album[];
+  photosToAdd: Photo[];
+  photosToReplace: { photo: Photo; chunkId: string }[];
+  images: Record<string, Uint8Array>; // Final photo id -> original file to upload
+  snapshot: StorageSnapshot;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(IMAGE_EXTENSIONS).map(([type, ext]) => [ext, type])
+);
+
+const getExtension = (contentType: string | null, url: string) => {
+  const fromType = contentType && IMAGE_EXTENSIONS[contentType.split(';')[0].trim()];
+  if (fromType) return fromType;
+  const fromUrl = new URL(url, window.location.href).pathname.match(/\.(\w+)$/)?.[1].toLowerCase();
+  return fromUrl === 'jpeg' ? 'jpg' : fromUrl || 'jpg';
+};
+
+// Every photo in a listed chunk, once
+const listedPhotos = (snapshot: StorageSnapshot): { photo: Photo; chunkId: string }[] => {
+  const seen = new Set<string>();
+  return snapshot.metadata.photoChunkIds.flatMap(chunkId =>
+    (snapshot.chunks[chunkId] || []).filter(photo => {
+      if (seen.has(photo.id)) return false;
+      seen.add(photo.id);
+      return true;
+    }).map(photo => ({ photo, chunkId }))
+  );
+};
+
+// --- Export ---
+
+export const exportGallery = async (
+  repository: GalleryRepository,
+  options: { includeImages: boolean; onProgress?: (completed: number, total: number) => void }
+): Promise<ExportResult> => {
+  const snapshot = await repository.getStorageSnapshot();
+  const storedVersion = snapshot.metadata.schemaVersion ?? 0;
+  const photos = listedPhotos(snapshot).map(({ photo }) => upgradePhoto(photo, storedVersion));
+  const files: Zippable = {};
+  const images: Record<string, string> = {};
+  const failedImages: Photo[] = [];
+
+  if (options.includeImages) {
+    let completed = 0;
+    for (const photo of photos) {
+      try {
+        const response = await fetch(photo.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const path = `images/${photo.id}.${getExtension(response.headers.get('content-type'), photo.url)}`;
+        files[path] = new Uint8Array(await response.arrayBuffer());
+        images[photo.id] = path;
+      } catch (err) {
+        console.error(`Failed to download ${photo.url}:`, err);
+        failedImages.push(photo);
+      }
+      options.onProgress?.(++completed, photos.length);
+    }
+  }
+
+  const archive: GalleryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    albums: snapshot.metadata.albums.map(album => upgradeAlbum(album, storedVersion)),
+    photos,
+    images,
+  };
+  // Images are already compressed, so only the manifest is deflated
+  files[MANIFEST_FILE] = [strToU8(JSON.stringify(archive, null, 2)), { level: 6 }];
+  const zipped = zipSync(files, { level: 0 });
+
+  return {
+    blob: new Blob([zipped as Uint8Array<ArrayBuffer>], { type: 'application/zip' }),
+    fileName: `gallery-${archive.exportedAt.slice(0, 10)}.zip`,
+    albumCount: archive.albums.length,
+    photoCount: photos.length,
+    imageCount: Object.keys(images).length,
+    failedImages,
+  };
+};
+
+// --- Import ---
+
+const readArchive = async (file: File): Promise<{
+  archive: GalleryArchive;
+  invalid: QuarantinedRecord[];
+  files: Record<string, Uint8Array>;
+}> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new InvalidArchiveError('This file is not a zip archive.');
+  }
+  if (!files[MANIFEST_FILE]) {
+    throw new InvalidArchiveError(`This archive has no ${MANIFEST_FILE}, so it was not exported from a gallery.`);
+  }
+
+  let archive: GalleryArchive;
+  try {
+    archive = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch {
+    throw new InvalidArchiveError(`${MANIFEST_FILE} in this archive is not valid JSON.`);
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.albums) || !Array.isArray(archive.photos)) {
+    throw new InvalidArchiveError('This archive was not exported from a gallery.');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new InvalidArchiveError(`This archive uses format version ${archive.version}, which this version of the gallery cannot read.`);
+  }
+  // Records from older galleries are brought up to the current shape; malformed ones are left out
+  const schemaVersion = archive.schemaVersion ?? 0;
+  const albums = parseAlbums(archive.albums, schemaVersion);
+  const photos = parsePhotos(archive.photos, MANIFEST_FILE, schemaVersion);
+  return {
+    archive: {
+      ...archive,
+      schemaVersion: SCHEMA_VERSION,
+      albums: albums.valid,
+      photos: photos.valid,
+      images: archive.images || {},
+    },
+    invalid: [...albums.quarantined, ...photos.quarantined],
+    files,
+  };
+};
+
+const emptyCounts = (): ImportCounts => ({ added: 0, replaced: 0, skipped: 0, renamed: 0 });
+
+// Reads the archive and works out what importing it would change, without writing anything
+export const planImport = async (repository: GalleryRepository, file: File, policy: CollisionPolicy): Promise<ImportPlan> => {
+  const { archive, invalid, files } = await readArchive(file);
+  const snapshot = await repository.getStorageSnapshot();
+  const existingAlbumIds = new Set(snapshot.metadata.albums.map(a => a.id));
+  const existingPhotoChunks = new Map(listedPhotos(snapshot).map(({ photo, chunkId }) => [photo.id, chunkId]));
+  const suffix = `_import_${Date.now()}`;
+
+  const summary: ImportSummary = {
+    albums: emptyCounts(),
+    photos: emptyCounts(),
+    imagesToUpload: 0,
+    exportedAt: archive.exportedAt,
+    invalid: invalid.map(record => `${record.kind} ${record.id ?? '(no id)'}: ${record.problems.join(', ')}`),
+    emptyGallery: existingAlbumIds.size === 0 && existingPhotoChunks.size === 0,
+  };
+  const plan: ImportPlan = {
+    summary, albumsToAdd: [], albumsToReplace: [], photosToAdd: [], photosToReplace: [], images: {}, snapshot,
+  };
+
+  // Ids are renamed for "keep both"; photos follow their album and covers follow their photo
+  const albumIdMap = new Map<string, string>();
+  const photoIdMap = new Map<string, string>();
+
+  const keptPhotos: Photo[] = [];
+  archive.photos.forEach(photo => {
+    const chunkId = existingPhotoChunks.get(photo.id);
+    if (!chunkId) {
+      summary.photos.added++;
+      keptPhotos.push(photo);
+    } else if (policy === 'skip') {
+      summary.photos.skipped++;
+    } else if (policy === 'replace') {
+      summary.photos.replaced++;
+      keptPhotos.push(photo);
+    } else {
+      summary.photos.renamed++;
+      photoIdMap.set(photo.id, `${photo.id}${suffix}`);
+      keptPhotos.push(photo);
+    }
+  });
+
+  archive.albums.forEach(album => {
+    if (!existingAlbumIds.has(album.id)) {
+      summary.albums.added++;
+      plan.albumsToAdd.push(album);
+    } else if (policy === 'skip' || album.id === UNSORTED_ALBUM_ID) {
+      // There is only ever one Unsorted album, so its photos join the existing one
+      summary.albums.skipped++;
+    } else if (policy === 'replace') {
+      summary.albums.replaced++;
+      plan.albumsToReplace.push(album);
+    } else {
+      summary.albums.renamed++;
+      albumIdMap.set(album.id, `${album.id}${suffix}`);
+      plan.albumsToAdd.push(album);
+    }
+  });
+
+  const remapAlbum = (album: Album): Album => ({
+    ...album,
+    id: albumIdMap.get(album.id) || album.id,
+    coverPhotoId: album.coverPhotoId && (photoIdMap.get(album.coverPhotoId) || album.coverPhotoId),
+  });
+  plan.albumsToAdd = plan.albumsToAdd.map(remapAlbum);
+  plan.albumsToReplace = plan.albumsToReplace.map(remapAlbum);
+
+  keptPhotos.forEach(original => {
+    const photo = {
+      ...original,
+      id: photoIdMap.get(original.id) || original.id,
+      albumId: albumIdMap.get(original.albumId) || original.albumId,
+    };
+    const imagePath = archive.images[original.id];
+    if (imagePath && files[imagePath]) {
+      plan.images[photo.id] = files[imagePath];
+      summary.imagesToUpload++;
+    }
+
+    const chunkId = existingPhotoChunks.get(photo.id);
+    if (chunkId) plan.photosToReplace.push({ photo, chunkId });
+    else plan.photosToAdd.push(photo);
+  });
+
+  return plan;
+};
+
+const uploadImage = async (host: ImageHost, photo: Photo, bytes: Uint8Array) => {
+  const extension = getExtension(null, photo.url);
+  const file = new File([bytes as Uint8Array<ArrayBuffer>], `${photo.id}.${extension}`, { type: MIME_TYPES[extension] || 'image/jpeg' });
+  // Hosts that cannot make poster frames themselves need one for videos
+  const poster = photo.mediaType === 'video' ? (await readVideoInfo(file).catch(() => undefined))?.poster : undefined;
+  return host.upload(file, poster);
+};
+
+/**
+ * Writes a planned import. Images are uploaded first, so a failed upload leaves the gallery untouched.
+ * New photos go into new chunks appended to the gallery; replaced photos are rewritten in their own chunk.
+ */
+export const applyImport = async (
+  repository: GalleryRepository,
+  host: ImageHost,
+  plan: ImportPlan,
+  onProgress?: (completed: number, total: number) => void
+): Promise<void> => {
+  const uploadedUrls = new Map<string, string>();
+  const toUpload = Object.entries(plan.images);
+  for (const [photoId, bytes] of toUpload) {
+    const photo = plan.photosToAdd.find(p => p.id === photoId) || plan.photosToReplace.find(r => r.photo.id === photoId)!.photo;
+    uploadedUrls.set(photoId, await uploadImage(host, photo, bytes));
+    onProgress?.(uploadedUrls.size, toUpload.length);
+  }
+  const withUploadedUrl = (photo: Photo): Photo => ({ ...photo, url: uploadedUrls.get(photo.id) || photo.url });
+
+  for (const album of plan.albumsToAdd) {
+    await repository.addAlbum(album);
+  }
+  for (const album of plan.albumsToReplace) {
+    await repository.updateAlbum(album.id, album);
+  }
+
+  // One rewrite per chunk keeps every chunk where it is in the list
+  const replacementsByChunk = new Map<string, Photo[]>();
+  plan.photosToReplace.forEach(({ photo, chunkId }) => {
+    replacementsByChunk.set(chunkId, [...(replacementsByChunk.get(chunkId) || []), withUploadedUrl(photo)]);
+  });
+  for (const [chunkId, replacements] of replacementsByChunk) {
+    const current = plan.snapshot.chunks[chunkId];
+    const updated = current.map(photo => replacements.find(p => p.id === photo.id) || photo);
+    await repository.rewriteChunks({ replaced: { [chunkId]: current }, chunks: [updated] });
+  }
+
+  if (plan.photosToAdd.length > 0) {
+    await repository.rewriteChunks({ replaced: {}, chunks: planCompaction([plan.photosToAdd.map(withUploadedUrl)]) });
+  }
+};
@@ -0,0 +1,134 @@
+import { Album, Photo } from '../types';
+import { isSameData } from './galleryRepository';
+
+// Audit log: every write to the gallery records who made it, what kind of change it was, which photos,
+// albums and chunks it touched, and the fields that changed. Entries are written in the same atomic
+// step as the change itself, so the log never claims a change that did not happen (or misses one).
+
+export type AuditAction =
+  | 'addPhoto'
+  | 'updatePhoto'
+  | 'updatePhotos'
+  | 'deletePhoto'
+  | 'movePhotos'
+  | 'trashPhoto'
+  | 'restorePhoto'
+  | 'purgePhoto'
+  | 'addAlbum'
+  | 'updateAlbum'
+  | 'deleteAlbum'
+  | 'rewriteChunks'
+  | 'migrate';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  addPhoto: 'Added photo',
+  updatePhoto: 'Edited photo',
+  updatePhotos: 'Edited photos',
+  deletePhoto: 'Deleted photo',
+  movePhotos: 'Moved photos',
+  trashPhoto: 'Moved photo to trash',
+  restorePhoto: 'Restored photo',
+  purgePhoto: 'Deleted photo forever',
+  addAlbum: 'Created album',
+  updateAlbum: 'Edited album',
+  deleteAlbum: 'Deleted album',
+  rewriteChunks: 'Rewrote storage',
+  migrate: 'Migrated data',
+};
+
+export interface AuditUser {
+  uid: string;
+  email: string | null;
+}
+
+// Fields of one record that changed. `before` is missing for created records, `after` for removed ones.
+export interface AuditChange {
+  kind: 'photo' | 'album';
+  id: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  user: AuditUser | null; // Null for writes made while signed out, which the security rules should reject
+  action: AuditAction;
+  photoIds: string[];
+  albumIds: string[]; // Includes the albums that changed photos were in before and after
+  chunkIds: string[];
+  changes: AuditChange[];
+  omittedChanges?: number; // Large rewrites list only the first MAX_AUDIT_CHANGES changes, to stay within document limits
+}
+
+// Full records before and after a write; the entry keeps only what differs
+export type AuditedRecord =
+  | { kind: 'photo'; before?: Photo; after?: Photo }
+  | { kind: 'album'; before?: Album; after?: Album };
+
+const MAX_AUDIT_CHANGES = 200;
+
+const diffFields = (before: object | undefined, after: object | undefined) => {
+  if (!before || !after) return { before: before as Record<string, unknown>, after: after as Record<string, unknown> };
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const changed = [...new Set([...Object.keys(b), ...Object.keys(a)])].filter(key => !isSameData(b[key], a[key]));
+  // Null stands in for a missing field, since Firestore drops undefined values
+  return {
+    before: Object.fromEntries(changed.map(key => [key, b[key] ?? null])),
+    after: Object.fromEntries(changed.map(key => [key, a[key] ?? null])),
+  };
+};
+
+export const createAuditEntry = (
+  id: string,
+  user: AuditUser | null,
+  action: AuditAction,
+  records: AuditedRecord[],
+  chunkIds: string[] = []
+): AuditEntry => {
+  const photoIds = new Set<string>();
+  const albumIds = new Set<string>();
+  const changes: AuditChange[] = [];
+
+  records.forEach(({ kind, before, after }) => {
+    const recordId = (after || before)!.id;
+    if (before && after && isSameData(before, after)) return;
+    if (kind === 'photo') {
+      photoIds.add(recordId);
+      [before, after].forEach(photo => photo && albumIds.add((photo as Photo).albumId));
+    } else {
+      albumIds.add(recordId);
+    }
+    changes.push({ kind, id: recordId, ...diffFields(before, after) });
+  });
+
+  const entry: AuditEntry = {
+    id,
+    at: new Date().toISOString(),
+    user,
+    action,
+    photoIds: [...photoIds],
+    albumIds: [...albumIds].filter(Boolean),
+    chunkIds,
+    changes: changes.slice(0, MAX_AUDIT_CHANGES),
+  };
+  if (changes.length > MAX_AUDIT_CHANGES) entry.omittedChanges = changes.length - MAX_AUDIT_CHANGES;
+  // Firestore rejects undefined values
+  return JSON.parse(JSON.stringify(entry));
+};
+
+// Photos that differ between two versions of a set of chunks, by id
+export const diffPhotoLists = (before: Photo[], after: Photo[]): AuditedRecord[] => {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterById = new Map(after.map(p => [p.id, p]));
+  const ids = [...new Set([...beforeById.keys(), ...afterById.keys()])];
+  return ids.map(id => ({ kind: 'photo' as const, before: beforeById.get(id), after: afterById.get(id) }));
+};
+
+export const diffAlbumLists = (before: Album[], after: Album[]): AuditedRecord[] => {
+  const beforeById = new Map(before.map(a => [a.id, a]));
+  const afterById = new Map(after.map(a => [a.id, a]));
+  const ids = [...new Set([...beforeById.keys(), ...afterById.keys()])];
+  return ids.map(id => ({ kind: 'album' as const, before: beforeById.get(id), after: afterById.get(id) }));
+};
@@ -0,0 +1,57 @@
+import { getAuth, onAuthStateChanged, signInWithPopup, signOut as fbSignOut, GoogleAuthProvider, User } from 'firebase/auth';
+import { firebaseApp } from './firebase';
+import { GALLERY_BACKEND } from './backend';
+
+export type AuthUser = Pick<User, 'uid' | 'email' | 'displayName'>;
+
+// --- Local backend ---
+// Without Firebase there is nobody to authenticate against, so "signing in" just unlocks editing for this browser.
+
+const LOCAL_SESSION_KEY = 'web-gallery-local-session';
+const LOCAL_USER: AuthUser = { uid: 'local-editor', email: 'editor@localhost', displayName: 'Local Editor' };
+const localListeners = new Set<(user: AuthUser | null) => void>();
+
+const getLocalUser = (): AuthUser | null =>
+  localStorage.getItem(LOCAL_SESSION_KEY) ? LOCAL_USER : null;
+
+const setLocalSession = (signedIn: boolean) => {
+  if (signedIn) localStorage.setItem(LOCAL_SESSION_KEY, '1');
+  else localStorage.removeItem(LOCAL_SESSION_KEY);
+  localListeners.forEach(listener => listener(getLocalUser()));
+};
+
+// --- Public API ---
+
+export const subscribeToAuth = (callback: (user: AuthUser | null) => void): (() => void) => {
+  if (GALLERY_BACKEND === 'local') {
+    localListeners.add(callback);
+    callback(getLocalUser());
+    return () => {
+      localListeners.delete(callback);
+    };
+  }
+  return onAuthStateChanged(getAuth(firebaseApp), callback);
+};
+
+export const getCurrentUser = (): AuthUser | null => {
+  if (GALLERY_BACKEND === 'local') return getLocalUser();
+  return getAuth(firebaseApp).currentUser;
+};
+
+export const signIn = async (): Promise<void> => {
+  if (GALLERY_BACKEND === 'local') {
+    setLocalSession(true);
+    return;
+  }
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({ prompt: 'select_account' });
+  await signInWithPopup(getAuth(firebaseApp), provider);
+};
+
+export const signOut = async (): Promise<void> => {
+  if (GALLERY_BACKEND === 'local') {
+    setLocalSession(false);
+    return;
+  }
+  await fbSignOut(getAuth(firebaseApp));
+};
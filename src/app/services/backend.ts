@@ -0,0 +1,48 @@
+import { GalleryRepository } from './galleryRepository';
+import { firebaseRepository } from './firebase';
+import { localRepository } from './localRepository';
+import { ImageFormat, ImageHost } from './imageHost';
+import { cloudinaryImageHost } from './cloudinary';
+import { localImageHost } from './localImageHost';
+
+export type GalleryBackend = 'firebase' | 'local';
+
+// Selected with VITE_GALLERY_BACKEND. "local" keeps everything in IndexedDB and needs no Firebase project.
+export const GALLERY_BACKEND: GalleryBackend =
+  import.meta.env.VITE_GALLERY_BACKEND === 'local' ? 'local' : 'firebase';
+
+export const galleryRepository: GalleryRepository =
+  GALLERY_BACKEND === 'local' ? localRepository : firebaseRepository;
+
+export type ImageHostName = 'cloudinary' | 'local';
+
+// Selected with VITE_IMAGE_HOST. Defaults to "local" when the local gallery backend is used.
+export const IMAGE_HOST_NAME: ImageHostName =
+  (import.meta.env.VITE_IMAGE_HOST || (GALLERY_BACKEND === 'local' ? 'local' : 'cloudinary')) === 'local'
+    ? 'local'
+    : 'cloudinary';
+
+// Host that receives new uploads
+export const imageHost: ImageHost = IMAGE_HOST_NAME === 'local' ? localImageHost : cloudinaryImageHost;
+
+const imageHosts: ImageHost[] = [cloudinaryImageHost, localImageHost];
+
+/**
+ * Returns a resized URL for any stored photo, whichever host it was uploaded to.
+ * Galleries can hold a mix of hosts, e.g. after switching VITE_IMAGE_HOST.
+ */
+export const getImageUrl = (url: string, width?: number, format?: ImageFormat): string => {
+  const host = imageHosts.find(h => h.owns(url));
+  return host ? host.urlFor(url, width ?? 600, format) : url;
+};
+
+/** Returns a playable URL for a stored video clip, at about the given width. */
+export const getVideoUrl = (url: string, width: number): string => {
+  const host = imageHosts.find(h => h.owns(url));
+  return host ? host.videoUrlFor(url, width) : url;
+};
+
+export const deleteImage = async (url: string): Promise<void> => {
+  const host = imageHosts.find(h => h.owns(url));
+  if (host) await host.delete(url);
+};
@@ -1,18 +1,41 @@
-export const getOptimizedImageUrl = (url: string, width: number = 600) => {
+import { ImageFormat, ImageHost } from './imageHost';
+import { isVideoFile } from './videoFiles';
+
+const isCloudinaryVideo = (url: string) => url.includes('/video/upload/');
+
+const withoutExtension = (path: string) => path.replace(/\.[^/.]+$/, '');
+
+// A video's poster frame is an image of its first frame; the extension picks the image format
+const getVideoPosterUrl = (url: string, width: number, format: ImageFormat) => {
+  const parts = url.split('/upload/');
+  if (parts.length !== 2) return url;
+  return `${parts[0]}/upload/so_0,q_auto,w_${width}/${withoutExtension(parts[1])}.${format === 'auto' ? 'jpg' : format}`;
+};
+
+export const getOptimizedImageUrl = (url: string, width: number = 600, format: ImageFormat = 'auto') => {
   if (!url.includes('cloudinary.com')) return url;
-  
+  if (isCloudinaryVideo(url)) return getVideoPosterUrl(url, width, format);
+
   // 이미 transformation 파라미터가 있는지 확인
-    if (url.includes('/upload/f_auto,q_auto')) {
-        // 기존의 w_숫자 부분을 찾아서 새로운 w_width로 교체해줍니다.
-        return url.replace(/w_\d+/, `w_${width}`);
+    if (/\/upload\/f_[a-z]+,q_auto/.test(url)) {
+        // 기존의 f_포맷, w_숫자 부분을 찾아서 새로운 값으로 교체해줍니다.
+        return url.replace(/\/upload\/f_[a-z]+,/, `/upload/f_${format},`).replace(/w_\d+/, `w_${width}`);
     }
 
   const parts = url.split('/upload/');
   if (parts.length !== 2) return url;
 
-  return `${parts[0]}/upload/f_auto,q_auto,w_${width}/${parts[1]}`;
+  return `${parts[0]}/upload/f_${format},q_auto,w_${width}/${parts[1]}`;
 };
 
+// vc_auto picks a codec the browser can play, so HEVC clips from iPhones play everywhere; c_limit never enlarges
+export const getPlayableVideoUrl = (url: string, width: number) => {
+  const parts = url.split('/upload/');
+  if (!isCloudinaryVideo(url) || parts.length !== 2) return url;
+  return `${parts[0]}/upload/vc_auto,q_auto,c_limit,w_${width}/${withoutExtension(parts[1])}.mp4`;
+};
+
+// Videos go to the video endpoint, which makes poster frames and playable copies on request
 export const uploadToCloudinary = async (file: File): Promise<string> => {
   const cloudName = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME;
   const uploadPreset = import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET;
@@ -28,7 +51,7 @@ export const uploadToCloudinary = async (file: File): Promise<string> => {
 
   try {
     const response = await fetch(
-      `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`,
+      `https://api.cloudinary.com/v1_1/${cloudName}/${isVideoFile(file) ? 'video' : 'image'}/upload`,
       {
         method: 'POST',
         body: formData,
@@ -48,3 +71,17 @@ export const uploadToCloudinary = async (file: File): Promise<string> => {
     throw error;
   }
 };
+
+// Unsigned uploads cannot be deleted from the browser; that needs the API secret.
+// The asset stays in Cloudinary and can be removed from the Media Library.
+export const deleteFromCloudinary = async (url: string): Promise<void> => {
+  console.warn(`Cloudinary assets cannot be deleted with an unsigned preset. Remove it from the Media Library: ${url}`);
+};
+
+export const cloudinaryImageHost: ImageHost = {
+  upload: uploadToCloudinary,
+  delete: deleteFromCloudinary,
+  urlFor: getOptimizedImageUrl,
+  videoUrlFor: getPlayableVideoUrl,
+  owns: (url) => url.includes('cloudinary.com'),
+};
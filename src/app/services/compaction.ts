@@ -0,0 +1,70 @@
+import { Photo } from '../types';
+import { CHUNK_SIZE, GalleryRepository, StorageSnapshot } from './galleryRepository';
+
+// "Optimize storage": deletions leave chunks half empty and uploads only ever fill the last one,
+// so over time the gallery needs more reads than its photo count calls for. Compaction packs every
+// photo into full chunks, ordered by the date the photo was taken.
+
+export interface StorageStats {
+  chunks: number;
+  photos: number;
+  bytes: number; // Approximate stored size of the chunk documents
+}
+
+export interface CompactionReport {
+  before: StorageStats;
+  after: StorageStats;
+  readsSaved: number; // Document reads saved by every full load of the gallery
+  changed: boolean; // False when storage was already optimal
+}
+
+const photoDate = (photo: Photo) => new Date(photo.takenAt || photo.date).getTime();
+
+const chunkBytes = (photos: Photo[]) => new Blob([JSON.stringify({ data: photos })]).size;
+
+const measure = (chunks: Photo[][]): StorageStats => ({
+  chunks: chunks.length,
+  photos: chunks.reduce((sum, photos) => sum + photos.length, 0),
+  bytes: chunks.reduce((sum, photos) => sum + chunkBytes(photos), 0),
+});
+
+// Oldest first, so new uploads keep landing in the last chunk
+export const planCompaction = (chunks: Photo[][]): Photo[][] => {
+  const photos = chunks.flat().sort((a, b) => photoDate(a) - photoDate(b) || a.id.localeCompare(b.id));
+  const packed: Photo[][] = [];
+  for (let i = 0; i < photos.length; i += CHUNK_SIZE) {
+    packed.push(photos.slice(i, i + CHUNK_SIZE));
+  }
+  return packed;
+};
+
+// Only chunks the metadata lists are compacted; unlisted ones are left to the integrity checker
+const listedChunks = (snapshot: StorageSnapshot): Record<string, Photo[]> => {
+  const listed: Record<string, Photo[]> = {};
+  snapshot.metadata.photoChunkIds.forEach(chunkId => {
+    if (snapshot.chunks[chunkId]) listed[chunkId] = snapshot.chunks[chunkId];
+  });
+  return listed;
+};
+
+export const compactStorage = async (repository: GalleryRepository): Promise<CompactionReport> => {
+  const snapshot = await repository.getStorageSnapshot();
+  const current = listedChunks(snapshot);
+  const currentChunks = snapshot.metadata.photoChunkIds.filter(id => current[id]).map(id => current[id]);
+  const planned = planCompaction(currentChunks);
+
+  const before = measure(currentChunks);
+  const after = measure(planned);
+  const changed = JSON.stringify(planned) !== JSON.stringify(currentChunks);
+
+  if (changed) {
+    await repository.rewriteChunks({ replaced: current, chunks: planned });
+  }
+
+  return {
+    before,
+    after: changed ? after : before,
+    readsSaved: changed ? before.chunks - after.chunks : 0,
+    changed,
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * Thrown when a write could not be applied because someone else changed the same data first
+ * and retrying did not resolve it (or the record it targets no longer exists where we expected).
+ * The live listeners will already be bringing in the other change, so the UI can ask the user to retry.
+ */
+export class GalleryConflictError extends Error {
+  constructor(message = 'This item was changed by someone else. Review the latest version and try again.') {
+    super(message);
+    this.name = 'GalleryConflictError';
+  }
+}
+
+// Thrown when an imported gallery archive cannot be read. The message says what is wrong with the file.
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
+
+// Thrown for a change that cannot wait in the offline outbox (uploads, deletions, restores) while the connection is down
+export class OfflineError extends Error {
+  constructor(message = "You're offline. This change can be made once the connection is back.") {
+    super(message);
+    this.name = 'OfflineError';
+  }
+}
+
+// Failures caused by the connection rather than the change itself: Firestore reports 'unavailable'
+// when it cannot reach the server, and fetch rejects with a TypeError
+export const isOfflineError = (error: unknown): boolean =>
+  error instanceof OfflineError ||
+  (error as { code?: unknown } | null)?.code === 'unavailable' ||
+  (error instanceof TypeError && /fetch|network/i.test(error.message));
+
+// Message to show in an alert for a failed action
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof GalleryConflictError) return error.message;
+  if (error instanceof InvalidArchiveError) return error.message;
+  if (isOfflineError(error)) return new OfflineError().message;
+  return fallback;
+};
@@ -1,6 +1,15 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore, doc, getDoc, setDoc, updateDoc, arrayUnion, collection, addDoc } from 'firebase/firestore';
-import { Photo, Album } from '../types';
+import { getFirestore, doc, getDoc, getDocs, setDoc, deleteDoc, arrayUnion, collection, onSnapshot, runTransaction, query, orderBy, limit, Transaction, FirestoreError } from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
+import { Photo, Album, TrashedPhoto } from '../types';
+import {
+  CHUNK_SIZE, GalleryData, GalleryMetadata, GalleryRepository, PhotoChunkRef, PhotoUpdate, Unsubscribe, AlbumPhotosPolicy, createUnsortedAlbum, summarizeChunk,
+  StorageSnapshot, ChunkRewrite, isSameData, applyRewriteToChunkIds,
+} from './galleryRepository';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+import { GalleryConflictError } from './errors';
+import { SCHEMA_VERSION } from './migrations';
+import { AuditAction, AuditEntry, AuditedRecord, AuditUser, createAuditEntry, diffAlbumLists, diffPhotoLists } from './audit';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -11,33 +20,28 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
+export const firebaseApp = initializeApp(firebaseConfig);
+const db = getFirestore(firebaseApp);
 
 const GALLERY_COLLECTION = 'gallery';
 const METADATA_DOC = 'metadata';
 const PHOTO_CHUNKS_COLLECTION = 'photo_chunks';
-const DELETED_PHOTOS_COLLECTION = 'deleted_photos';
-const CHUNK_SIZE = 500;
-
-interface Metadata {
-  albums: Album[];
-  photoChunkIds: string[];
-}
+const TRASH_COLLECTION = 'trash';
+const AUDIT_COLLECTION = 'audit_log';
 
 // --- Fetch Data ---
 
-export const getGalleryData = async (): Promise<{ photos: (Photo & { _chunkId: string })[], albums: Album[] }> => {
+export const getGalleryData = async (): Promise<GalleryData> => {
   const metadataRef = doc(db, GALLERY_COLLECTION, METADATA_DOC);
   const metadataSnap = await getDoc(metadataRef);
 
   if (!metadataSnap.exists()) {
     // Initialize metadata if not exists
-    await setDoc(metadataRef, { albums: [], photoChunkIds: [] });
+    await setDoc(metadataRef, { albums: [], photoChunkIds: [], schemaVersion: SCHEMA_VERSION });
     return { photos: [], albums: [] };
   }
 
-  const metadata = metadataSnap.data() as Metadata;
+  const metadata = metadataSnap.data() as GalleryMetadata;
   const albums = metadata.albums || [];
   const chunkIds = metadata.photoChunkIds || [];
 
@@ -63,99 +67,152 @@ export const getGalleryData = async (): Promise<{ photos: (Photo & { _chunkId: s
   return { photos, albums };
 };
 
-// --- Photos ---
+// --- Live Updates ---
 
-export const addPhoto = async (photo: Photo): Promise<string> => {
+export const subscribeToMetadata = (
+  onChange: (metadata: GalleryMetadata) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
   const metadataRef = doc(db, GALLERY_COLLECTION, METADATA_DOC);
-  const metadataSnap = await getDoc(metadataRef);
-  let metadata = metadataSnap.data() as Metadata;
-  
-  if (!metadata) {
-    metadata = { albums: [], photoChunkIds: [] };
-    await setDoc(metadataRef, metadata);
-  }
+  return onSnapshot(metadataRef, (metadataSnap) => {
+    // Offline, Firestore reports documents it has never seen as missing; wait for the server instead
+    if (!metadataSnap.exists() && metadataSnap.metadata.fromCache) return;
+    if (!metadataSnap.exists()) {
+      // Initialize metadata if not exists; the write triggers another snapshot
+      setDoc(metadataRef, { albums: [], photoChunkIds: [], schemaVersion: SCHEMA_VERSION }).catch(err => onError?.(err));
+      onChange({ albums: [], photoChunkIds: [], schemaVersion: SCHEMA_VERSION });
+      return;
+    }
+    const metadata = metadataSnap.data() as GalleryMetadata;
+    onChange({
+      albums: metadata.albums || [],
+      photoChunkIds: metadata.photoChunkIds || [],
+      chunkIndex: metadata.chunkIndex || {},
+      schemaVersion: metadata.schemaVersion ?? 0,
+    });
+  }, onError);
+};
 
-  let chunkIds = metadata.photoChunkIds || [];
-  let targetChunkId = chunkIds.length > 0 ? chunkIds[chunkIds.length - 1] : null;
-  let createNewChunk = false;
+export const subscribeToChunk = (
+  chunkId: string,
+  onChange: (photos: Photo[] | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, chunkId);
+  return onSnapshot(chunkRef, (chunkSnap) => {
+    if (!chunkSnap.exists() && chunkSnap.metadata.fromCache) return;
+    onChange(chunkSnap.exists() ? (chunkSnap.data().data || []) as Photo[] : null);
+  }, onError);
+};
 
-  if (!targetChunkId) {
-    createNewChunk = true;
-  } else {
-    // Check if the last chunk is full
-    const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, targetChunkId);
-    const chunkSnap = await getDoc(chunkRef);
-    if (chunkSnap.exists()) {
-      const chunkData = chunkSnap.data().data || [];
-      if (chunkData.length >= CHUNK_SIZE) {
-        createNewChunk = true;
-      }
-    } else {
-      // Should not happen, but if chunk is missing, create new one
-      createNewChunk = true;
+// --- Transactions ---
+// Every read-modify-write of a chunk or the metadata document runs in a Firestore transaction,
+// so concurrent uploads and editors cannot overflow a chunk or overwrite each other's edits.
+// Firestore retries a transaction whose reads went stale; once the attempts run out we report a conflict.
+
+const MAX_TRANSACTION_ATTEMPTS = 8;
+
+const metadataDoc = () => doc(db, GALLERY_COLLECTION, METADATA_DOC);
+const chunkDoc = (chunkId: string) => doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, chunkId);
+const trashDoc = (photoId: string) => doc(db, TRASH_COLLECTION, photoId);
+
+const auditUser = (): AuditUser | null => {
+  const user = getAuth(firebaseApp).currentUser;
+  return user ? { uid: user.uid, email: user.email } : null;
+};
+
+// Adds the audit entry to the transaction making the change, so both are written or neither is
+const writeAudit = (tx: Transaction, action: AuditAction, records: AuditedRecord[], chunkIds: string[] = []) => {
+  const auditRef = doc(collection(db, AUDIT_COLLECTION));
+  tx.set(auditRef, createAuditEntry(auditRef.id, auditUser(), action, records, chunkIds));
+};
+
+const runGalleryTransaction = async <T>(work: (tx: Transaction) => Promise<T>): Promise<T> => {
+  try {
+    return await runTransaction(db, work, { maxAttempts: MAX_TRANSACTION_ATTEMPTS });
+  } catch (err) {
+    if (err instanceof FirestoreError && (err.code === 'aborted' || err.code === 'failed-precondition')) {
+      throw new GalleryConflictError();
     }
+    throw err;
   }
+};
 
-  if (createNewChunk) {
-    targetChunkId = `chunk_${Date.now()}`;
-    const newChunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, targetChunkId);
-    await setDoc(newChunkRef, { data: [photo] });
+const readChunkPhotos = async (tx: Transaction, chunkId: string): Promise<Photo[] | null> => {
+  const chunkSnap = await tx.get(chunkDoc(chunkId));
+  return chunkSnap.exists() ? (chunkSnap.data().data || []) as Photo[] : null;
+};
 
-    await updateDoc(metadataRef, {
-      photoChunkIds: arrayUnion(targetChunkId)
-    });
-  } else {
-    const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, targetChunkId!);
-    await updateDoc(chunkRef, {
-      data: arrayUnion(photo)
-    });
+// Every chunk write goes through here so the chunk index in the metadata document never goes stale
+const writeChunkPhotos = (tx: Transaction, chunkId: string, photos: Photo[]) => {
+  tx.set(chunkDoc(chunkId), { data: photos });
+  tx.update(metadataDoc(), { [`chunkIndex.${chunkId}`]: summarizeChunk(photos) });
+};
+
+// --- Photos ---
+
+// Appends to the newest chunk, or starts a new one when it is full. Performs reads first, as transactions require.
+const appendPhoto = async (tx: Transaction, photo: Photo): Promise<string> => {
+  const metadataSnap = await tx.get(metadataDoc());
+  const metadata = metadataSnap.exists()
+    ? metadataSnap.data() as GalleryMetadata
+    : { albums: [], photoChunkIds: [] };
+
+  const chunkIds = metadata.photoChunkIds || [];
+  const lastChunkId = chunkIds.length > 0 ? chunkIds[chunkIds.length - 1] : null;
+  // A missing last chunk should not happen, but if it does we start a new one
+  const lastChunk = lastChunkId ? await readChunkPhotos(tx, lastChunkId) : null;
+
+  if (lastChunkId && lastChunk && lastChunk.length < CHUNK_SIZE) {
+    writeChunkPhotos(tx, lastChunkId, [...lastChunk, photo]);
+    return lastChunkId;
   }
 
-  return targetChunkId!;
+  const newChunkId = `chunk_${Date.now()}`;
+  tx.set(metadataDoc(), { ...metadata, photoChunkIds: [...chunkIds, newChunkId] });
+  writeChunkPhotos(tx, newChunkId, [photo]);
+  return newChunkId;
 };
 
-export const updatePhoto = async (photoId: string, chunkId: string, details: Partial<Photo>): Promise<void> => {
-  const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, chunkId);
-  const chunkSnap = await getDoc(chunkRef);
-
-  if (chunkSnap.exists()) {
-    const chunkData = chunkSnap.data().data as Photo[];
-    const photoIndex = chunkData.findIndex(p => p.id === photoId);
-
-    if (photoIndex > -1) {
-      const updatedList = [...chunkData];
-      updatedList[photoIndex] = { ...updatedList[photoIndex], ...details };
-      
-      await updateDoc(chunkRef, { data: updatedList });
-    } else {
-      throw new Error(`Photo with id ${photoId} not found in chunk ${chunkId}.`);
-    }
-  }
+export const addPhoto = async (photo: Photo): Promise<string> => {
+  return runGalleryTransaction(async (tx) => {
+    const chunkId = await appendPhoto(tx, photo);
+    writeAudit(tx, 'addPhoto', [{ kind: 'photo', after: photo }], [chunkId]);
+    return chunkId;
+  });
 };
 
-export const deletePhoto = async (photoId: string, chunkId: string): Promise<{ deletedAlbumId?: string }> => {
-  const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, chunkId);
-  const chunkSnap = await getDoc(chunkRef);
+export const updatePhoto = async (photoId: string, chunkId: string, details: Partial<Photo>): Promise<void> => {
+  await runGalleryTransaction(async (tx) => {
+    const chunkData = await readChunkPhotos(tx, chunkId);
+    const photoIndex = chunkData ? chunkData.findIndex(p => p.id === photoId) : -1;
 
-  if (!chunkSnap.exists()) throw new Error("Chunk not found");
+    // The photo was removed or moved since we loaded it
+    if (!chunkData || photoIndex === -1) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted by someone else.`);
+    }
 
-  const chunkData = chunkSnap.data().data as Photo[];
-  const photoToDelete = chunkData.find(p => p.id === photoId);
+    const updatedList = [...chunkData];
+    updatedList[photoIndex] = { ...updatedList[photoIndex], ...details };
+    writeChunkPhotos(tx, chunkId, updatedList);
+    writeAudit(tx, 'updatePhoto', [{ kind: 'photo', before: chunkData[photoIndex], after: updatedList[photoIndex] }], [chunkId]);
+  });
+};
 
-  if (!photoToDelete) throw new Error("Photo not found");
+export const deletePhoto = async (photoId: string, chunkId: string): Promise<void> => {
+  await runGalleryTransaction(async (tx) => {
+    const chunkData = await readChunkPhotos(tx, chunkId);
 
-  // 1. Remove photo from chunk
-  const updatedList = chunkData.filter(p => p.id !== photoId);
-  await updateDoc(chunkRef, { data: updatedList });
+    if (!chunkData || !chunkData.some(p => p.id === photoId)) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted by someone else.`);
+    }
 
-  // 2. Check if album needs to be deleted (This requires fetching all photos, which is expensive. 
-  // Instead, we will rely on the client-side state in useGallery to determine if an album is empty)
-  // For now, we just return undefined for deletedAlbumId and handle album cleanup in useGallery.
-  
-  return { deletedAlbumId: undefined };
+    writeChunkPhotos(tx, chunkId, chunkData.filter(p => p.id !== photoId));
+    writeAudit(tx, 'deletePhoto', [{ kind: 'photo', before: chunkData.find(p => p.id === photoId) }], [chunkId]);
+  });
 };
 
-export const updatePhotosAlbumId = async (updates: { photoId: string, chunkId: string }[], newAlbumId: string): Promise<void> => {
+export const updatePhotosAlbumId = async (updates: PhotoChunkRef[], newAlbumId: string): Promise<void> => {
   // Group updates by chunkId to minimize reads/writes
   const updatesByChunk: Record<string, string[]> = {};
   updates.forEach(({ photoId, chunkId }) => {
@@ -163,70 +220,283 @@ export const updatePhotosAlbumId = async (updates: { photoId: string, chunkId: s
     updatesByChunk[chunkId].push(photoId);
   });
 
-  // Process each chunk
-  const promises = Object.entries(updatesByChunk).map(async ([chunkId, photoIds]) => {
-    const chunkRef = doc(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION, chunkId);
-    const chunkSnap = await getDoc(chunkRef);
+  // All chunks move together, so a transfer is never left half done.
+  // Transactions must do all reads before any write.
+  await runGalleryTransaction(async (tx) => {
+    const entries = Object.entries(updatesByChunk);
+    const chunks = await Promise.all(entries.map(([chunkId]) => readChunkPhotos(tx, chunkId)));
 
-    if (chunkSnap.exists()) {
-      const chunkData = chunkSnap.data().data as Photo[];
+    const moved: AuditedRecord[] = [];
+    entries.forEach(([chunkId, photoIds], i) => {
+      const chunkData = chunks[i];
+      if (!chunkData) return;
       const updatedList = chunkData.map(photo => {
         if (photoIds.includes(photo.id)) {
-          return { ...photo, albumId: newAlbumId };
+          const updated = { ...photo, albumId: newAlbumId };
+          moved.push({ kind: 'photo', before: photo, after: updated });
+          return updated;
         }
         return photo;
       });
-      
-      await updateDoc(chunkRef, { data: updatedList });
-    }
+      writeChunkPhotos(tx, chunkId, updatedList);
+    });
+    writeAudit(tx, 'movePhotos', moved, entries.map(([chunkId]) => chunkId));
   });
+};
+
+export const updatePhotos = async (updates: PhotoUpdate[]): Promise<void> => {
+  const updatesByChunk: Record<string, Record<string, Partial<Photo>>> = {};
+  updates.forEach(({ photoId, chunkId, details }) => {
+    if (!updatesByChunk[chunkId]) updatesByChunk[chunkId] = {};
+    updatesByChunk[chunkId][photoId] = details;
+  });
+
+  await runGalleryTransaction(async (tx) => {
+    const entries = Object.entries(updatesByChunk);
+    const chunks = await Promise.all(entries.map(([chunkId]) => readChunkPhotos(tx, chunkId)));
 
-  await Promise.all(promises);
+    const updated: AuditedRecord[] = [];
+    entries.forEach(([chunkId, detailsById], i) => {
+      const chunkData = chunks[i];
+      if (!chunkData) return;
+      const updatedList = chunkData.map(photo => {
+        if (!detailsById[photo.id]) return photo;
+        const after = { ...photo, ...detailsById[photo.id] };
+        updated.push({ kind: 'photo', before: photo, after });
+        return after;
+      });
+      writeChunkPhotos(tx, chunkId, updatedList);
+    });
+    writeAudit(tx, 'updatePhotos', updated, entries.map(([chunkId]) => chunkId));
+  });
 };
 
 // --- Albums ---
 
+const updateAlbums = async (action: AuditAction, update: (albums: Album[]) => Album[]): Promise<void> => {
+  await runGalleryTransaction(async (tx) => {
+    const metadataSnap = await tx.get(metadataDoc());
+    if (!metadataSnap.exists()) return;
+
+    const metadata = metadataSnap.data() as GalleryMetadata;
+    // Firestore rejects undefined values; dropping them is how an optional field gets cleared
+    const albums: Album[] = JSON.parse(JSON.stringify(update(metadata.albums || [])));
+    tx.update(metadataDoc(), { albums });
+    writeAudit(tx, action, diffAlbumLists(metadata.albums || [], albums));
+  });
+};
+
 export const addAlbum = async (album: Album): Promise<void> => {
-  const metadataRef = doc(db, GALLERY_COLLECTION, METADATA_DOC);
-  await updateDoc(metadataRef, {
-    albums: arrayUnion(album)
+  // arrayUnion is applied atomically on the server, so the album list does not need to be read
+  await runGalleryTransaction(async (tx) => {
+    tx.update(metadataDoc(), { albums: arrayUnion(album) });
+    writeAudit(tx, 'addAlbum', [{ kind: 'album', after: album }]);
   });
 };
 
-export const updateAlbum = async (albumId: string, details: Partial<Album>): Promise<void> => {
-  const metadataRef = doc(db, GALLERY_COLLECTION, METADATA_DOC);
-  const metadataSnap = await getDoc(metadataRef);
+export const updateAlbum = (albumId: string, details: Partial<Album>): Promise<void> =>
+  updateAlbums('updateAlbum', albums => albums.map(a => a.id === albumId ? { ...a, ...details } : a));
+
+export const deleteAlbum = async (albumId: string, photos: PhotoChunkRef[], policy: AlbumPhotosPolicy): Promise<TrashedPhoto[]> => {
+  const photoIdsByChunk: Record<string, Set<string>> = {};
+  photos.forEach(({ photoId, chunkId }) => {
+    if (!photoIdsByChunk[chunkId]) photoIdsByChunk[chunkId] = new Set();
+    photoIdsByChunk[chunkId].add(photoId);
+  });
 
-  if (metadataSnap.exists()) {
-    const metadata = metadataSnap.data() as Metadata;
-    const albumIndex = metadata.albums.findIndex(a => a.id === albumId);
+  return runGalleryTransaction(async (tx) => {
+    const metaSnap = await tx.get(metadataDoc());
+    const entries = Object.entries(photoIdsByChunk);
+    const chunks = await Promise.all(entries.map(([chunkId]) => readChunkPhotos(tx, chunkId)));
 
-    if (albumIndex > -1) {
-      const updatedAlbums = [...metadata.albums];
-      updatedAlbums[albumIndex] = { ...updatedAlbums[albumIndex], ...details };
-      await updateDoc(metadataRef, { albums: updatedAlbums });
+    const previousAlbums = (metaSnap.data()?.albums || []) as Album[];
+    const albums = previousAlbums.filter(a => a.id !== albumId);
+    if (policy.action === 'move' && !albums.some(a => a.id === policy.albumId)) {
+      if (policy.albumId !== UNSORTED_ALBUM_ID) {
+        throw new GalleryConflictError('The album you chose was deleted by someone else. Pick another one and try again.');
+      }
+      albums.push(createUnsortedAlbum());
     }
-  }
+
+    const deletedAt = new Date().toISOString();
+    const trashed: TrashedPhoto[] = [];
+    const audited = diffAlbumLists(previousAlbums, albums);
+    entries.forEach(([chunkId, photoIds], i) => {
+      const chunkData = chunks[i];
+      if (!chunkData) return;
+      const updatedList = policy.action === 'trash'
+        ? chunkData.filter(p => !photoIds.has(p.id))
+        : chunkData.map(p => photoIds.has(p.id) ? { ...p, albumId: policy.albumId } : p);
+      if (policy.action === 'trash') {
+        chunkData.filter(p => photoIds.has(p.id)).forEach(photo => trashed.push({ photo, deletedAt }));
+      }
+      writeChunkPhotos(tx, chunkId, updatedList);
+      audited.push(...diffPhotoLists(chunkData, updatedList));
+    });
+
+    trashed.forEach(record => tx.set(trashDoc(record.photo.id), record));
+    tx.update(metadataDoc(), { albums });
+    writeAudit(tx, 'deleteAlbum', audited, entries.map(([chunkId]) => chunkId));
+    return trashed;
+  });
 };
 
-export const deleteAlbum = async (albumId: string): Promise<void> => {
-  const metadataRef = doc(db, GALLERY_COLLECTION, METADATA_DOC);
-  const metadataSnap = await getDoc(metadataRef);
+// --- Trash ---
+// Trashed photos live in their own collection, one document per photo, so they never add to gallery reads.
+
+export const trashPhoto = async (photoId: string, chunkId: string): Promise<TrashedPhoto> => {
+  return runGalleryTransaction(async (tx) => {
+    const chunkData = await readChunkPhotos(tx, chunkId);
+    const photo = chunkData?.find(p => p.id === photoId);
+
+    if (!chunkData || !photo) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted by someone else.`);
+    }
+
+    const trashed: TrashedPhoto = { photo, deletedAt: new Date().toISOString() };
+    writeChunkPhotos(tx, chunkId, chunkData.filter(p => p.id !== photoId));
+    tx.set(trashDoc(photoId), trashed);
+    writeAudit(tx, 'trashPhoto', [{ kind: 'photo', before: photo }], [chunkId]);
+    return trashed;
+  });
+};
 
-  if (metadataSnap.exists()) {
-    const metadata = metadataSnap.data() as Metadata;
-    const updatedAlbums = metadata.albums.filter(a => a.id !== albumId);
-    await updateDoc(metadataRef, { albums: updatedAlbums });
+export const getTrash = async (): Promise<TrashedPhoto[]> => {
+  const trashSnap = await getDocs(collection(db, TRASH_COLLECTION));
+  return trashSnap.docs.map(d => d.data() as TrashedPhoto);
+};
+
+export const restorePhoto = async (photoId: string, albumId?: string): Promise<string> => {
+  return runGalleryTransaction(async (tx) => {
+    const trashSnap = await tx.get(trashDoc(photoId));
+    if (!trashSnap.exists()) {
+      throw new GalleryConflictError('This photo is no longer in the trash. It may have been restored or purged by someone else.');
+    }
+
+    const { photo } = trashSnap.data() as TrashedPhoto;
+    const restored = albumId ? { ...photo, albumId } : photo;
+    const chunkId = await appendPhoto(tx, restored);
+    tx.delete(trashDoc(photoId));
+    writeAudit(tx, 'restorePhoto', [{ kind: 'photo', after: restored }], [chunkId]);
+    return chunkId;
+  });
+};
+
+export const purgePhoto = async (photoId: string): Promise<void> => {
+  await runGalleryTransaction(async (tx) => {
+    const trashSnap = await tx.get(trashDoc(photoId));
+    if (!trashSnap.exists()) return;
+    tx.delete(trashDoc(photoId));
+    writeAudit(tx, 'purgePhoto', [{ kind: 'photo', before: (trashSnap.data() as TrashedPhoto).photo }]);
+  });
+};
+
+// --- Maintenance ---
+
+export const getStorageSnapshot = async (): Promise<StorageSnapshot> => {
+  const [metadataSnap, chunksSnap] = await Promise.all([
+    getDoc(metadataDoc()),
+    getDocs(collection(db, GALLERY_COLLECTION, METADATA_DOC, PHOTO_CHUNKS_COLLECTION)),
+  ]);
+  const metadata = (metadataSnap.data() || {}) as Partial<GalleryMetadata>;
+
+  const chunks: Record<string, Photo[]> = {};
+  chunksSnap.docs.forEach(chunkSnap => {
+    chunks[chunkSnap.id] = (chunkSnap.data().data || []) as Photo[];
+  });
+
+  return {
+    metadata: {
+      albums: metadata.albums || [],
+      photoChunkIds: metadata.photoChunkIds || [],
+      chunkIndex: metadata.chunkIndex || {},
+      schemaVersion: metadata.schemaVersion ?? 0,
+    },
+    chunks,
+  };
+};
+
+export const rewriteChunks = async ({ replaced, chunks, dropped = [] }: ChunkRewrite): Promise<string[]> => {
+  const stamp = Date.now();
+  const newChunkIds = chunks.map((_, i) => `chunk_${stamp}_${i}`);
+
+  // 1. Write the new chunks. Nothing lists them yet, so readers are unaffected.
+  await Promise.all(chunks.map((photos, i) => setDoc(chunkDoc(newChunkIds[i]), { data: photos })));
+
+  // 2. Switch the metadata over, provided nobody touched the replaced chunks in the meantime
+  try {
+    await runGalleryTransaction(async (tx) => {
+      const replacedIds = Object.keys(replaced);
+      const metadataSnap = await tx.get(metadataDoc());
+      const current = await Promise.all(replacedIds.map(chunkId => readChunkPhotos(tx, chunkId)));
+
+      if (replacedIds.some((chunkId, i) => !current[i] || !isSameData(current[i]!, replaced[chunkId]))) {
+        throw new GalleryConflictError('Photos were changed while storage was being rewritten. Nothing was changed; please try again.');
+      }
+
+      const metadata = metadataSnap.data() as GalleryMetadata;
+      const chunkIndex = { ...(metadata.chunkIndex || {}) };
+      [...replacedIds, ...dropped].forEach(chunkId => delete chunkIndex[chunkId]);
+      newChunkIds.forEach((chunkId, i) => {
+        chunkIndex[chunkId] = summarizeChunk(chunks[i]);
+      });
+
+      tx.update(metadataDoc(), {
+        photoChunkIds: applyRewriteToChunkIds(metadata.photoChunkIds || [], replacedIds, newChunkIds, dropped),
+        chunkIndex,
+      });
+      // Repacking alone changes no photo, so a compaction is logged with its chunks only
+      writeAudit(
+        tx,
+        'rewriteChunks',
+        diffPhotoLists(Object.values(replaced).flat(), chunks.flat()),
+        [...replacedIds, ...dropped, ...newChunkIds]
+      );
+    });
+  } catch (err) {
+    // Leave storage as it was
+    await Promise.all(newChunkIds.map(chunkId => deleteDoc(chunkDoc(chunkId)))).catch(console.error);
+    throw err;
   }
+
+  // 3. Remove the old chunks. If this is interrupted they are merely unlisted.
+  await Promise.all(Object.keys(replaced).map(chunkId => deleteDoc(chunkDoc(chunkId))));
+  return newChunkIds;
 };
 
-// Helper to log deleted photos
-export const logDeletedPhoto = async (photo: Photo): Promise<void> => {
-  // We can keep using a separate collection for logs as it doesn't impact the main gallery read cost
-  await addDoc(collection(db, DELETED_PHOTOS_COLLECTION), {
-    photoId: photo.id,
-    url: photo.url,
-    deletedAt: new Date().toISOString(),
-    albumId: photo.albumId
+export const completeMigration = async (schemaVersion: number, migrateAlbum: (album: Album) => Album): Promise<void> => {
+  await runGalleryTransaction(async (tx) => {
+    const metadataSnap = await tx.get(metadataDoc());
+    const previousAlbums = (metadataSnap.data()?.albums || []) as Album[];
+    const albums: Album[] = JSON.parse(JSON.stringify(previousAlbums.map(migrateAlbum)));
+    tx.update(metadataDoc(), { albums, schemaVersion });
+    writeAudit(tx, 'migrate', diffAlbumLists(previousAlbums, albums));
   });
 };
+
+export const getAuditLog = async (maxEntries: number): Promise<AuditEntry[]> => {
+  const auditSnap = await getDocs(query(collection(db, AUDIT_COLLECTION), orderBy('at', 'desc'), limit(maxEntries)));
+  return auditSnap.docs.map(d => d.data() as AuditEntry);
+};
+
+export const firebaseRepository: GalleryRepository = {
+  getGalleryData,
+  subscribeToMetadata,
+  subscribeToChunk,
+  addPhoto,
+  updatePhoto,
+  deletePhoto,
+  updatePhotosAlbumId,
+  updatePhotos,
+  addAlbum,
+  updateAlbum,
+  deleteAlbum,
+  trashPhoto,
+  getTrash,
+  restorePhoto,
+  purgePhoto,
+  getStorageSnapshot,
+  rewriteChunks,
+  completeMigration,
+  getAuditLog,
+};
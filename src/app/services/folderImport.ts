@@ -0,0 +1,89 @@
+import { Album } from '../types';
+import { needsConversion } from './imageFormats';
+import { isVideoFile } from './videoFiles';
+
+// Files picked as whole folders, either dropped on the upload dialog (read through the File and Directory
+// Entries API) or chosen with a directory input (webkitdirectory), and the albums those folders map to.
+
+export interface PickedFile {
+  file: File;
+  folder: string; // Path of the folder it came from, e.g. "Travel/Japan"; empty for a file picked on its own
+}
+
+// Everything the upload pipeline takes; other files in a folder (sidecars, .DS_Store, ...) are left out
+const isUploadableFile = (file: File) =>
+  !file.name.startsWith('.') && (file.type.startsWith('image/') || isVideoFile(file) || needsConversion(file));
+
+const folderOf = (path: string) => path.split('/').filter(Boolean).slice(0, -1).join('/');
+
+// A directory reader returns its entries in batches, until an empty one
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<PickedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, folder: folderOf(entry.fullPath) }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(readEntry))).flat();
+  }
+  return [];
+};
+
+/** The files dropped on the page, walking into dropped folders and the folders inside them. */
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  // Entries must be taken before the first await: the drop data is gone once the event is over
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  if (entries.some(entry => !entry)) {
+    // No folder support: only the files themselves
+    return Array.from(dataTransfer.files).filter(isUploadableFile).map(file => ({ file, folder: '' }));
+  }
+  const picked = (await Promise.all(entries.map(entry => readEntry(entry!)))).flat();
+  return picked.filter(p => isUploadableFile(p.file));
+};
+
+/** The files of a file input, with their folders when it was a directory input. */
+export const readInputFiles = (files: FileList): PickedFile[] =>
+  Array.from(files)
+    .filter(isUploadableFile)
+    .map(file => ({ file, folder: folderOf(file.webkitRelativePath) }));
+
+// Where the files of one folder go: an album that exists already, or a new one
+export interface FolderAlbum {
+  folder: string;
+  fileCount: number;
+  albumId: string; // Empty for a new album
+  name: string; // Of the new album
+  theme: string;
+}
+
+const sameName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+
+/**
+ * Maps every folder holding files onto an album named after it, with the folder above it as the album's theme.
+ * An album with that name (and theme, when there is a folder above) is reused; otherwise a new one is proposed.
+ */
+export const planFolderAlbums = (picked: PickedFile[], albums: Album[]): FolderAlbum[] => {
+  const counts = new Map<string, number>();
+  picked.forEach(({ folder }) => {
+    if (folder) counts.set(folder, (counts.get(folder) ?? 0) + 1);
+  });
+  return Array.from(counts, ([folder, fileCount]) => {
+    const segments = folder.split('/');
+    const name = segments[segments.length - 1];
+    const theme = segments.length > 1 ? segments[segments.length - 2] : '';
+    const existing = albums.find(a => !a.system && sameName(a.name, name) && (!theme || sameName(a.theme, theme)));
+    return { folder, fileCount, albumId: existing?.id ?? '', name, theme };
+  }).sort((a, b) => a.folder.localeCompare(b.folder));
+};
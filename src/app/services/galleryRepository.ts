@@ -0,0 +1,181 @@
+import { Photo, Album, PhotoWithChunk, TrashedPhoto } from '../types';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+import { AuditEntry } from './audit';
+
+// Photos are stored in fixed-size chunk documents listed by the metadata document.
+// Every backend keeps this layout so data can move between them unchanged.
+export const CHUNK_SIZE = 500;
+
+export interface GalleryMetadata {
+  albums: Album[];
+  photoChunkIds: string[];
+  // Summary of every chunk, kept current by each write, so clients can load chunks lazily.
+  // Missing for galleries written before the index existed.
+  chunkIndex?: Record<string, ChunkSummary>;
+  // Version of the photo and album record shapes the stored data was last migrated to (see migrations.ts).
+  // Missing for galleries written before versioning.
+  schemaVersion?: number;
+}
+
+export interface DateRange {
+  start: string; // Oldest photo date (taken date, falling back to upload date)
+  end: string; // Newest photo date
+}
+
+export interface ChunkSummary extends DateRange {
+  count: number;
+  albums: Record<string, ChunkAlbumSummary>;
+}
+
+export interface ChunkAlbumSummary extends DateRange {
+  count: number;
+  sampleUrl: string; // Newest upload of the album in this chunk; used as a cover before the chunk is loaded
+}
+
+const photoDate = (photo: Photo) => photo.takenAt || photo.date;
+
+const widenRange = (range: DateRange | undefined, date: string): DateRange => {
+  if (!range) return { start: date, end: date };
+  return {
+    start: new Date(date) < new Date(range.start) ? date : range.start,
+    end: new Date(date) > new Date(range.end) ? date : range.end,
+  };
+};
+
+// Builds the chunk index entry for a chunk's photos (in upload order, as stored)
+export const summarizeChunk = (photos: Photo[]): ChunkSummary => {
+  let range: DateRange | undefined;
+  const albums: Record<string, ChunkAlbumSummary> = {};
+
+  photos.forEach(photo => {
+    const date = photoDate(photo);
+    range = widenRange(range, date);
+    const album = albums[photo.albumId];
+    albums[photo.albumId] = {
+      ...widenRange(album, date),
+      count: (album?.count || 0) + 1,
+      sampleUrl: photo.url,
+    };
+  });
+
+  return { start: range?.start || '', end: range?.end || '', count: photos.length, albums };
+};
+
+export interface GalleryData {
+  photos: PhotoWithChunk[];
+  albums: Album[];
+}
+
+export type Unsubscribe = () => void;
+
+export interface PhotoChunkRef {
+  photoId: string;
+  chunkId: string;
+}
+
+export interface PhotoUpdate extends PhotoChunkRef {
+  details: Partial<Photo>;
+}
+
+// Raw view of storage for maintenance jobs
+export interface StorageSnapshot {
+  metadata: GalleryMetadata;
+  chunks: Record<string, Photo[]>; // Every chunk in storage, whether or not the metadata lists it
+}
+
+export interface ChunkRewrite {
+  // Chunks to replace, with the contents they were read with. The rewrite is rejected if any of them changed since.
+  replaced: Record<string, Photo[]>;
+  // New chunk contents, listed where the first listed replaced chunk was (or at the end if none was listed)
+  chunks: Photo[][];
+  // Listed chunk ids that no longer exist in storage; they are dropped from the metadata
+  dropped?: string[];
+}
+
+// Where the new chunks of a rewrite go in the chunk list
+export const applyRewriteToChunkIds = (photoChunkIds: string[], replacedIds: string[], newChunkIds: string[], dropped: string[] = []) => {
+  const removed = new Set([...replacedIds, ...dropped]);
+  const firstReplaced = photoChunkIds.filter(id => !dropped.includes(id)).findIndex(id => removed.has(id));
+  const kept = photoChunkIds.filter(id => !removed.has(id));
+  const insertAt = firstReplaced === -1 ? kept.length : firstReplaced;
+  return [...kept.slice(0, insertAt), ...newChunkIds, ...kept.slice(insertAt)];
+};
+
+// Key order is not preserved by every backend, so compare with keys sorted
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const isSameData = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+// What happens to an album's photos when the album is deleted
+export type AlbumPhotosPolicy =
+  | { action: 'move'; albumId: string } // Moving to UNSORTED_ALBUM_ID creates the Unsorted album if needed
+  | { action: 'trash' };
+
+export const createUnsortedAlbum = (): Album => ({
+  id: UNSORTED_ALBUM_ID,
+  name: 'Unsorted',
+  description: 'Photos whose album was deleted',
+  theme: 'Unsorted',
+  createdAt: new Date().toISOString(),
+  system: true,
+});
+
+/**
+ * Storage backend for gallery metadata and photo records.
+ * Implemented by the Firestore service and by the IndexedDB-backed local repository.
+ */
+export interface GalleryRepository {
+  getGalleryData(): Promise<GalleryData>;
+
+  /** Calls `onChange` with the current metadata and again whenever it changes, from any client. */
+  subscribeToMetadata(onChange: (metadata: GalleryMetadata) => void, onError?: (error: Error) => void): Unsubscribe;
+  /** Calls `onChange` with the chunk's photos, or `null` if the chunk does not exist, and again on every change. */
+  subscribeToChunk(chunkId: string, onChange: (photos: Photo[] | null) => void, onError?: (error: Error) => void): Unsubscribe;
+
+  /** Appends the photo to the newest chunk (creating one when full) and returns that chunk's id. */
+  addPhoto(photo: Photo): Promise<string>;
+  updatePhoto(photoId: string, chunkId: string, details: Partial<Photo>): Promise<void>;
+  deletePhoto(photoId: string, chunkId: string): Promise<void>;
+  updatePhotosAlbumId(updates: PhotoChunkRef[], newAlbumId: string): Promise<void>;
+  /** Applies the details of many photos in one atomic step with a single audit entry. Photos no longer in their chunk are skipped. */
+  updatePhotos(updates: PhotoUpdate[]): Promise<void>;
+
+  addAlbum(album: Album): Promise<void>;
+  updateAlbum(albumId: string, details: Partial<Album>): Promise<void>;
+  /**
+   * Deletes the album and, in the same atomic step, moves or trashes the given photos (the album's contents).
+   * Returns the trash records created when the policy is 'trash'.
+   */
+  deleteAlbum(albumId: string, photos: PhotoChunkRef[], policy: AlbumPhotosPolicy): Promise<TrashedPhoto[]>;
+
+  // --- Trash ---
+  /** Moves the photo out of its chunk and into the trash in one atomic step. */
+  trashPhoto(photoId: string, chunkId: string): Promise<TrashedPhoto>;
+  getTrash(): Promise<TrashedPhoto[]>;
+  /** Moves a trashed photo back into the gallery, optionally into a different album, and returns its chunk id. */
+  restorePhoto(photoId: string, albumId?: string): Promise<string>;
+  /** Permanently removes the trash record. The image file is deleted separately through the image host. */
+  purgePhoto(photoId: string): Promise<void>;
+
+  // --- Maintenance ---
+  getStorageSnapshot(): Promise<StorageSnapshot>;
+  /**
+   * Swaps a set of chunks for new ones without risking data: new chunks are written first, the metadata
+   * switches over in one atomic step, and only then are the old chunks removed. An interruption leaves
+   * at worst unlisted chunks behind, never missing photos. Returns the new chunk ids.
+   */
+  rewriteChunks(rewrite: ChunkRewrite): Promise<string[]>;
+  /** Rewrites every album with `migrateAlbum` and records the new schema version, in one atomic step. */
+  completeMigration(schemaVersion: number, migrateAlbum: (album: Album) => Album): Promise<void>;
+
+  // --- Activity ---
+  /** The most recent audit log entries, newest first. Every write above adds one in the same atomic step. */
+  getAuditLog(maxEntries: number): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,135 @@
+import exifr from 'exifr';
+import { PreprocessOptions, isPreprocessingSupported, preprocessImage } from './imagePreprocessing';
+
+// Camera formats browsers cannot show, and how to turn them into one they can before upload:
+// HEIC/HEIF (iPhone photos) is decoded with heic2any, which is only loaded when such a file comes along;
+// RAW files carry a full-size JPEG preview made by the camera, which is uploaded in their place.
+
+const HEIC_EXTENSIONS = ['heic', 'heif'];
+const RAW_EXTENSIONS = ['dng', 'cr3', 'cr2', 'nef', 'arw'];
+
+// For the file input: browsers do not count these as image/* everywhere
+export const CAMERA_FILE_EXTENSIONS = [...HEIC_EXTENSIONS, ...RAW_EXTENSIONS].map(ext => `.${ext}`);
+
+/** The file's format as a lowercase extension, e.g. "jpeg", "heic" or "nef". */
+export const getFileFormat = (file: File): string => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const format = extension || file.type.split('/')[1]?.toLowerCase() || 'unknown';
+  return format === 'jpg' ? 'jpeg' : format;
+};
+
+export const isHeicFile = (file: File) =>
+  HEIC_EXTENSIONS.includes(getFileFormat(file)) || file.type === 'image/heic' || file.type === 'image/heif';
+
+export const isRawFile = (file: File) => RAW_EXTENSIONS.includes(getFileFormat(file));
+
+export const needsConversion = (file: File) => isHeicFile(file) || isRawFile(file);
+
+// SOF markers of JPEGs browsers can decode (baseline, extended, progressive). RAW files also hold
+// lossless JPEG streams (SOF3) with the sensor data, which must not be mistaken for a preview.
+const DECODABLE_SOF_MARKERS = [0xc0, 0xc1, 0xc2];
+
+// Follows the JPEG segments from the SOI at `start`; returns where the image ends, or null if it is not a decodable JPEG
+const findJpegEnd = (bytes: Uint8Array, start: number): number | null => {
+  let i = start + 2;
+  let decodable = false;
+  while (i + 1 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++; // Fill byte
+    } else if (marker === 0xd9) {
+      return decodable ? i + 2 : null;
+    } else if (marker >= 0xd0 && marker <= 0xd7) {
+      i += 2; // Restart markers have no length
+    } else {
+      if (i + 3 >= bytes.length) return null;
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        decodable = DECODABLE_SOF_MARKERS.includes(marker);
+      }
+      i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+      if (marker === 0xda) {
+        // Entropy-coded data runs until a marker other than a stuffed 0xFF00 or a restart marker
+        while (i + 1 < bytes.length && !(bytes[i] === 0xff && bytes[i + 1] !== 0x00 && (bytes[i + 1] < 0xd0 || bytes[i + 1] > 0xd7))) i++;
+      }
+    }
+  }
+  return null;
+};
+
+/** The largest JPEG embedded in a RAW file, which is the camera's full-size preview. */
+export const extractRawPreview = async (file: File): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let best: [number, number] | null = null;
+  for (let i = 0; i + 2 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const end = findJpegEnd(bytes, i);
+    if (end === null) continue;
+    if (!best || end - i > best[1] - best[0]) best = [i, end];
+    i = end - 1; // Skip the thumbnails nested inside this preview's own EXIF data
+  }
+  if (!best) throw new Error(`${file.name} has no preview image that can be uploaded.`);
+  return new Blob([bytes.subarray(best[0], best[1])], { type: 'image/jpeg' });
+};
+
+export const decodeHeic = async (file: File, type: 'image/jpeg' | 'image/png'): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: type, quality: 0.92 });
+  // Image sequences (e.g. bursts) give one blob per image; the first is the main photo
+  return Array.isArray(result) ? result[0] : result;
+};
+
+/** The small JPEG thumbnail stored in a file's EXIF data, which stands in for files browsers cannot show. */
+export const readEmbeddedThumbnail = async (file: File): Promise<Blob | undefined> => {
+  try {
+    const bytes = await exifr.thumbnail(file);
+    return bytes ? new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' }) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export interface BrowserImage {
+  file: File;
+  // EXIF orientation to apply, for previews that do not carry the one of the RAW file they came from
+  orientation?: number;
+}
+
+/**
+ * Returns `file` in a format the browser (and the image host's resizing) can handle.
+ * HEIC is decoded to PNG when it will be re-encoded anyway (`lossless`), to JPEG otherwise.
+ */
+export const toBrowserImage = async (file: File, { lossless = false } = {}): Promise<BrowserImage> => {
+  const baseName = file.name.replace(/\.[^/.]+$/, '');
+  if (isHeicFile(file)) {
+    const blob = await decodeHeic(file, lossless ? 'image/png' : 'image/jpeg');
+    return { file: new File([blob], `${baseName}.${lossless ? 'png' : 'jpg'}`, { type: blob.type, lastModified: file.lastModified }) };
+  }
+  if (isRawFile(file)) {
+    const preview = await extractRawPreview(file);
+    const [rawOrientation, previewOrientation] = await Promise.all([
+      exifr.orientation(file).catch(() => undefined),
+      exifr.orientation(preview).catch(() => undefined),
+    ]);
+    return {
+      file: new File([preview], `${baseName}.jpg`, { type: 'image/jpeg', lastModified: file.lastModified }),
+      orientation: !previewOrientation && rawOrientation && rawOrientation !== 1 ? rawOrientation : undefined,
+    };
+  }
+  return { file };
+};
+
+// Re-encodes RAW previews that have to be turned upright, when no other preprocessing is asked for
+const UPRIGHT_OPTIONS: PreprocessOptions = { maxEdge: Infinity, format: 'jpeg', quality: 0.92, stripGps: false };
+
+/** The file to send to the image host: HEIC and RAW files converted to something browsers show, then preprocessed. */
+export const prepareUploadFile = async (file: File, preprocess?: PreprocessOptions): Promise<File> => {
+  // Without worker support (e.g. the queue was restored in an older browser) the file is uploaded unprocessed
+  const options = preprocess && isPreprocessingSupported() ? preprocess : undefined;
+  const { file: converted, orientation } = needsConversion(file)
+    ? await toBrowserImage(file, { lossless: !!options })
+    : { file, orientation: undefined };
+  if (options) return (await preprocessImage(converted, options, orientation)).file;
+  if (orientation && isPreprocessingSupported()) return (await preprocessImage(converted, UPRIGHT_OPTIONS, orientation)).file;
+  return converted;
+};
@@ -0,0 +1,24 @@
+// Output format requested from an image host. "auto" lets the host pick the best format for the browser.
+export type ImageFormat = 'auto' | 'avif' | 'webp' | 'jpg';
+
+/**
+ * Where photo files are stored and how resized copies are addressed.
+ * Implemented by the Cloudinary service and by the local dev-server host.
+ */
+export interface ImageHost {
+  /**
+   * Uploads the original file, an image or a video clip, and returns its public URL (the value stored as `Photo.url`).
+   * `poster` is the clip's first frame, for hosts that cannot make one themselves.
+   */
+  upload(file: File, poster?: Blob): Promise<string>;
+  delete(url: string): Promise<void>;
+  /**
+   * Returns a URL for a copy of `url` at the given width; for a video, a copy of its poster frame.
+   * Must be synchronous so it can be used in `src`.
+   */
+  urlFor(url: string, width: number, format?: ImageFormat): string;
+  /** Returns a URL of the video `url` that browsers can play, at about the given width. */
+  videoUrlFor(url: string, width: number): string;
+  /** Whether `url` was produced by this host. */
+  owns(url: string): boolean;
+}
@@ -0,0 +1,89 @@
+import { createWorkerClient } from './workerClient';
+
+// Page side of the image preprocessing worker (workers/imagePreprocessor.ts). Before upload, an image can be
+// turned upright, scaled down to a maximum edge and re-encoded, so the host receives a smaller file.
+// The re-encoded file carries no EXIF data; the photo's details are read from the original beforehand.
+
+export type PreprocessFormat = 'webp' | 'avif' | 'jpeg';
+
+export interface PreprocessOptions {
+  maxEdge: number; // Longest side in pixels; smaller images keep their size
+  format: PreprocessFormat;
+  quality: number; // 0–1
+  stripGps: boolean; // Leave the location out of the photo record as well
+}
+
+export interface PreprocessResult {
+  file: File;
+  width: number;
+  height: number;
+}
+
+// What the worker is asked to do, and what it returns
+export interface PreprocessRequest {
+  file: Blob;
+  options: PreprocessOptions;
+  orientation?: number; // EXIF orientation to apply instead of the file's own, e.g. for RAW previews
+}
+
+export interface PreprocessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<PreprocessFormat, string> = { webp: 'webp', avif: 'avif', jpeg: 'jpg' };
+
+// The upload dialog remembers the last settings on this device; null when preprocessing is off
+const PREFERENCE_KEY = 'web-gallery-preprocessing';
+
+const requestPreprocessing = createWorkerClient<PreprocessRequest, PreprocessedImage>(
+  () => new Worker(new URL('../workers/imagePreprocessor.ts', import.meta.url), { type: 'module' }),
+  'Image processing failed.'
+);
+
+export const isPreprocessingSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+export const preprocessImage = async (file: File, options: PreprocessOptions, orientation?: number): Promise<PreprocessResult> => {
+  const { blob, width, height } = await requestPreprocessing({ file, options, orientation });
+  const name = `${file.name.replace(/\.[^/.]+$/, '')}.${EXTENSIONS[options.format]}`;
+  return {
+    file: new File([blob], name, { type: blob.type, lastModified: file.lastModified }),
+    width,
+    height,
+  };
+};
+
+let encodableFormats: Promise<PreprocessFormat[]> | null = null;
+
+/** Formats this browser can encode. Canvases fall back to PNG for the others. */
+export const getEncodableFormats = (): Promise<PreprocessFormat[]> => {
+  if (!encodableFormats) {
+    encodableFormats = (async () => {
+      if (!isPreprocessingSupported()) return [];
+      const canvas = new OffscreenCanvas(1, 1);
+      canvas.getContext('2d')!.fillRect(0, 0, 1, 1);
+      const formats: PreprocessFormat[] = ['webp', 'avif', 'jpeg'];
+      const supported = await Promise.all(formats.map(format =>
+        canvas.convertToBlob({ type: `image/${format}` }).then(blob => blob.type === `image/${format}`, () => false)
+      ));
+      return formats.filter((_, i) => supported[i]);
+    })();
+  }
+  return encodableFormats;
+};
+
+export const loadPreprocessPreference = (): PreprocessOptions | null => {
+  try {
+    const stored = localStorage.getItem(PREFERENCE_KEY);
+    return stored ? JSON.parse(stored) as PreprocessOptions : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePreprocessPreference = (options: PreprocessOptions | null) => {
+  if (options) localStorage.setItem(PREFERENCE_KEY, JSON.stringify(options));
+  else localStorage.removeItem(PREFERENCE_KEY);
+};
@@ -0,0 +1,70 @@
+// Small promise wrappers around the IndexedDB API, shared by every service that persists data in the browser.
+
+const openDatabases: Record<string, Promise<IDBDatabase>> = {};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+/**
+ * Opens (and caches) a database. `upgrade` receives the previous version so stores can be added incrementally.
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  if (!openDatabases[name]) {
+    openDatabases[name] = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment.'));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => {
+        upgrade(request.result, event.oldVersion, request.transaction!);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        delete openDatabases[name];
+        reject(request.error);
+      };
+    });
+  }
+  return openDatabases[name];
+};
+
+/**
+ * Runs `work` inside a single transaction and resolves once it has committed.
+ * Only await IndexedDB requests inside `work`; awaiting anything else lets the transaction auto-commit early.
+ */
+export const runTransaction = async <T>(
+  db: IDBDatabase,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const tx = db.transaction(storeNames, mode);
+  const done = transactionDone(tx);
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (err) {
+    try { tx.abort(); } catch { /* already finished */ }
+    // Swallow the abort rejection; the original error is more useful
+    done.catch(() => undefined);
+    throw err;
+  }
+};
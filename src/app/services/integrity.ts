@@ -0,0 +1,219 @@
+import { Photo } from '../types';
+import { GalleryRepository, StorageSnapshot, createUnsortedAlbum, isSameData, summarizeChunk } from './galleryRepository';
+import { planCompaction } from './compaction';
+import { getImageUrl } from './backend';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+
+// Integrity checker: finds inconsistencies between the metadata document, the chunks and the photo
+// records, and repairs each kind of problem directly against the storage layer.
+
+export type IntegrityIssueKind =
+  | 'missingChunk'
+  | 'unlistedChunk'
+  | 'duplicatePhoto'
+  | 'photoWithoutAlbum'
+  | 'brokenCover'
+  | 'missingAspectRatio'
+  | 'staleChunkIndex';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  description: string;
+  chunkId?: string;
+  photoId?: string;
+  albumId?: string;
+}
+
+export interface IntegrityReport {
+  issues: Record<IntegrityIssueKind, IntegrityIssue[]>;
+  snapshot: StorageSnapshot; // What the scan saw; repairs only act if storage still matches it
+  photoCount: number;
+}
+
+export const INTEGRITY_CHECKS: { kind: IntegrityIssueKind; label: string; repairLabel: string }[] = [
+  { kind: 'missingChunk', label: 'Listed chunks that no longer exist', repairLabel: 'Remove from list' },
+  { kind: 'unlistedChunk', label: 'Chunks missing from the chunk list', repairLabel: 'Recover photos' },
+  { kind: 'duplicatePhoto', label: 'Photos stored more than once', repairLabel: 'Remove extra copies' },
+  { kind: 'photoWithoutAlbum', label: 'Photos without a valid album', repairLabel: 'Move to Unsorted' },
+  { kind: 'brokenCover', label: 'Album covers pointing to missing photos', repairLabel: 'Reset covers' },
+  { kind: 'missingAspectRatio', label: 'Photos missing their aspect ratio', repairLabel: 'Measure images' },
+  { kind: 'staleChunkIndex', label: 'Out-of-date chunk index entries', repairLabel: 'Rebuild index' },
+];
+
+const emptyIssues = (): Record<IntegrityIssueKind, IntegrityIssue[]> => ({
+  missingChunk: [],
+  unlistedChunk: [],
+  duplicatePhoto: [],
+  photoWithoutAlbum: [],
+  brokenCover: [],
+  missingAspectRatio: [],
+  staleChunkIndex: [],
+});
+
+export const scanIntegrity = async (repository: GalleryRepository): Promise<IntegrityReport> => {
+  const snapshot = await repository.getStorageSnapshot();
+  const { metadata, chunks } = snapshot;
+  const issues = emptyIssues();
+  const listed = new Set(metadata.photoChunkIds);
+  const albumIds = new Set(metadata.albums.map(a => a.id));
+  const seenPhotoIds = new Map<string, string>(); // Photo id -> chunk of its first copy
+  let photoCount = 0;
+
+  metadata.photoChunkIds.forEach(chunkId => {
+    const photos = chunks[chunkId];
+    if (!photos) {
+      issues.missingChunk.push({ kind: 'missingChunk', chunkId, description: `Chunk ${chunkId} is listed but does not exist.` });
+      return;
+    }
+
+    const indexed = metadata.chunkIndex?.[chunkId];
+    if (!indexed || !isSameData(indexed, summarizeChunk(photos))) {
+      issues.staleChunkIndex.push({ kind: 'staleChunkIndex', chunkId, description: `Chunk ${chunkId} has ${indexed ? 'an outdated' : 'no'} index entry.` });
+    }
+
+    photos.forEach(photo => {
+      const firstChunkId = seenPhotoIds.get(photo.id);
+      if (firstChunkId) {
+        issues.duplicatePhoto.push({
+          kind: 'duplicatePhoto', photoId: photo.id, chunkId,
+          description: `"${photo.title}" (${photo.id}) is in ${chunkId} and also in ${firstChunkId}.`,
+        });
+        return;
+      }
+      seenPhotoIds.set(photo.id, chunkId);
+      photoCount++;
+
+      if (!photo.albumId || !albumIds.has(photo.albumId)) {
+        issues.photoWithoutAlbum.push({
+          kind: 'photoWithoutAlbum', photoId: photo.id, chunkId,
+          description: photo.albumId
+            ? `"${photo.title}" belongs to album ${photo.albumId}, which does not exist.`
+            : `"${photo.title}" has no album.`,
+        });
+      }
+      if (!photo.aspectRatio) {
+        issues.missingAspectRatio.push({ kind: 'missingAspectRatio', photoId: photo.id, chunkId, description: `"${photo.title}" has no aspect ratio.` });
+      }
+    });
+  });
+
+  Object.entries(chunks).forEach(([chunkId, photos]) => {
+    if (listed.has(chunkId)) return;
+    issues.unlistedChunk.push({
+      kind: 'unlistedChunk', chunkId,
+      description: `Chunk ${chunkId} (${photos.length} photos) is not in the chunk list.`,
+    });
+  });
+
+  metadata.albums.forEach(album => {
+    if (album.coverPhotoId && !seenPhotoIds.has(album.coverPhotoId)) {
+      issues.brokenCover.push({
+        kind: 'brokenCover', albumId: album.id,
+        description: `The cover of "${album.name}" points to a photo that no longer exists.`,
+      });
+    }
+  });
+
+  return { issues, snapshot, photoCount };
+};
+
+// --- Repairs ---
+
+const measureAspectRatio = (photo: Photo): Promise<Pick<Photo, 'aspectRatio' | 'width' | 'height'>> => {
+  const fromSize = (width: number, height: number) => ({
+    width,
+    height,
+    aspectRatio: width > height ? 'landscape' as const : width < height ? 'portrait' as const : 'square' as const,
+  });
+  if (photo.width && photo.height) return Promise.resolve(fromSize(photo.width, photo.height));
+
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(fromSize(img.naturalWidth, img.naturalHeight));
+    // Without the image, fall back to the most common layout so the grid can still place the photo
+    img.onerror = () => resolve({ aspectRatio: 'landscape' });
+    img.src = getImageUrl(photo.url);
+  });
+};
+
+export const repairIssues = async (repository: GalleryRepository, report: IntegrityReport, kind: IntegrityIssueKind): Promise<void> => {
+  const { snapshot } = report;
+  const issues = report.issues[kind];
+  if (issues.length === 0) return;
+
+  switch (kind) {
+    case 'missingChunk':
+      await repository.rewriteChunks({ replaced: {}, chunks: [], dropped: issues.map(i => i.chunkId!) });
+      return;
+
+    case 'unlistedChunk': {
+      // Adopt photos that are not already in a listed chunk (e.g. left behind by an interrupted rewrite)
+      const listedPhotoIds = new Set(
+        snapshot.metadata.photoChunkIds.flatMap(chunkId => (snapshot.chunks[chunkId] || []).map(p => p.id))
+      );
+      const replaced: Record<string, Photo[]> = {};
+      const recovered = new Map<string, Photo>();
+      issues.forEach(({ chunkId }) => {
+        replaced[chunkId!] = snapshot.chunks[chunkId!];
+        snapshot.chunks[chunkId!].forEach(photo => {
+          if (!listedPhotoIds.has(photo.id)) recovered.set(photo.id, photo);
+        });
+      });
+      await repository.rewriteChunks({ replaced, chunks: planCompaction([[...recovered.values()]]) });
+      return;
+    }
+
+    case 'duplicatePhoto': {
+      // Keep the first copy in list order; rewrite every chunk that holds a later copy
+      const seen = new Set<string>();
+      const replaced: Record<string, Photo[]> = {};
+      const rewritten: Photo[][] = [];
+      snapshot.metadata.photoChunkIds.forEach(chunkId => {
+        const photos = snapshot.chunks[chunkId];
+        if (!photos) return;
+        const unique = photos.filter(photo => {
+          if (seen.has(photo.id)) return false;
+          seen.add(photo.id);
+          return true;
+        });
+        if (unique.length !== photos.length) {
+          replaced[chunkId] = photos;
+          rewritten.push(unique);
+        }
+      });
+      await repository.rewriteChunks({ replaced, chunks: rewritten.filter(photos => photos.length > 0) });
+      return;
+    }
+
+    case 'photoWithoutAlbum':
+      if (!snapshot.metadata.albums.some(a => a.id === UNSORTED_ALBUM_ID)) {
+        await repository.addAlbum(createUnsortedAlbum());
+      }
+      await repository.updatePhotosAlbumId(
+        issues.map(i => ({ photoId: i.photoId!, chunkId: i.chunkId! })),
+        UNSORTED_ALBUM_ID
+      );
+      return;
+
+    case 'brokenCover':
+      for (const { albumId } of issues) {
+        await repository.updateAlbum(albumId!, { coverPhotoId: undefined });
+      }
+      return;
+
+    case 'missingAspectRatio':
+      for (const { photoId, chunkId } of issues) {
+        const photo = snapshot.chunks[chunkId!].find(p => p.id === photoId)!;
+        await repository.updatePhoto(photoId!, chunkId!, await measureAspectRatio(photo));
+      }
+      return;
+
+    case 'staleChunkIndex':
+      // Rewriting a chunk with its own contents rebuilds its index entry. One at a time keeps every chunk in place.
+      for (const { chunkId } of issues) {
+        const photos = snapshot.chunks[chunkId!];
+        await repository.rewriteChunks({ replaced: { [chunkId!]: photos }, chunks: [photos] });
+      }
+      return;
+  }
+};
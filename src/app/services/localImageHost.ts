@@ -0,0 +1,117 @@
+import { ImageFormat, ImageHost } from './imageHost';
+import { THUMBNAIL_SIZES, VIEWER_CONFIG } from '../config/imageConfig';
+import { isVideoFile } from './videoFiles';
+
+// Stores images through the dev-server middleware in plugins/localImageHost.ts.
+// Resized WebP copies are rendered in the browser at upload time, one per width the UI asks for,
+// so `urlFor` can stay synchronous and no image service is needed.
+
+export const LOCAL_IMAGE_PREFIX = '/__local-images/';
+
+const VARIANT_WIDTHS = Array.from(new Set([
+  ...Object.values(THUMBNAIL_SIZES),
+  ...VIEWER_CONFIG.BREAKPOINTS,
+])).sort((a, b) => a - b);
+
+const VARIANT_QUALITY = 0.85;
+
+// File names look like `<id>_<originalWidth>.<ext>` for the original and `<id>_w<width>.webp` for copies.
+// Videos get their copies from the poster frame, which is also kept at full size as `<id>_poster.webp`.
+const ORIGINAL_NAME_PATTERN = /^([a-z0-9-]+)_(\d+)\.([a-z0-9]+)$/i;
+
+const VIDEO_NAME_EXTENSIONS = ['mp4', 'mov', 'm4v'];
+
+const isLocalImageUrl = (url: string) => url.startsWith(LOCAL_IMAGE_PREFIX);
+
+const getExtension = (file: File) => {
+  const fromName = file.name.split('.').pop()?.toLowerCase();
+  if (fromName && /^[a-z0-9]+$/.test(fromName)) return fromName;
+  return file.type.split('/')[1] || 'bin';
+};
+
+const putFile = async (name: string, body: Blob) => {
+  const response = await fetch(`${LOCAL_IMAGE_PREFIX}${name}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': body.type || 'application/octet-stream' },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Local image upload failed: ${response.status} ${response.statusText}. Is the dev server running?`);
+  }
+};
+
+const renderVariant = async (bitmap: ImageBitmap, width: number): Promise<Blob> => {
+  const height = Math.round(bitmap.height * (width / bitmap.width));
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+    return canvas.convertToBlob({ type: 'image/webp', quality: VARIANT_QUALITY });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Failed to encode resized image.')),
+      'image/webp',
+      VARIANT_QUALITY
+    );
+  });
+};
+
+export const uploadToLocalHost = async (file: File, poster?: Blob): Promise<string> => {
+  const isVideo = isVideoFile(file);
+  if (isVideo && !poster) throw new Error('Videos need a poster frame to be stored on the local image host.');
+  const bitmap = await createImageBitmap(isVideo ? poster! : file, { imageOrientation: 'from-image' });
+  try {
+    const id = `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const originalName = `${id}_${bitmap.width}.${getExtension(file)}`;
+
+    await putFile(originalName, file);
+    for (const width of VARIANT_WIDTHS.filter(w => w < bitmap.width)) {
+      await putFile(`${id}_w${width}.webp`, await renderVariant(bitmap, width));
+    }
+    if (isVideo) await putFile(`${id}_poster.webp`, await renderVariant(bitmap, bitmap.width));
+
+    return `${LOCAL_IMAGE_PREFIX}${originalName}`;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const deleteFromLocalHost = async (url: string): Promise<void> => {
+  const match = url.slice(LOCAL_IMAGE_PREFIX.length).match(ORIGINAL_NAME_PATTERN);
+  if (!isLocalImageUrl(url) || !match) return;
+
+  // Removes the original and every resized copy sharing its id
+  const response = await fetch(`${LOCAL_IMAGE_PREFIX}${match[1]}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Local image delete failed: ${response.status} ${response.statusText}`);
+  }
+};
+
+export const getLocalImageUrl = (url: string, width: number = 600, format: ImageFormat = 'auto'): string => {
+  const match = url.slice(LOCAL_IMAGE_PREFIX.length).match(ORIGINAL_NAME_PATTERN);
+  if (!isLocalImageUrl(url) || !match) return url;
+
+  const [, id, originalWidth, extension] = match;
+  const isVideo = VIDEO_NAME_EXTENSIONS.includes(extension.toLowerCase());
+  // Copies are only rendered as WebP; other explicit formats get the untouched original (or, for videos, the poster).
+  if (format !== 'auto' && format !== 'webp' && !isVideo) return url;
+
+  const variant = VARIANT_WIDTHS.find(w => w >= width && w < Number(originalWidth));
+  if (variant) return `${LOCAL_IMAGE_PREFIX}${id}_w${variant}.webp`;
+  return isVideo ? `${LOCAL_IMAGE_PREFIX}${id}_poster.webp` : url;
+};
+
+export const localImageHost: ImageHost = {
+  upload: uploadToLocalHost,
+  delete: deleteFromLocalHost,
+  urlFor: getLocalImageUrl,
+  // Clips are played as they were uploaded
+  videoUrlFor: (url) => url,
+  owns: isLocalImageUrl,
+};
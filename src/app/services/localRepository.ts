@@ -0,0 +1,503 @@
+import { Photo, Album, TrashedPhoto } from '../types';
+import {
+  CHUNK_SIZE, GalleryData, GalleryMetadata, GalleryRepository, PhotoChunkRef, PhotoUpdate, Unsubscribe, AlbumPhotosPolicy, createUnsortedAlbum, summarizeChunk,
+  StorageSnapshot, ChunkRewrite, isSameData, applyRewriteToChunkIds,
+} from './galleryRepository';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+import { openDatabase, requestToPromise, runTransaction } from './indexedDb';
+import { GalleryConflictError } from './errors';
+import { SCHEMA_VERSION } from './migrations';
+import { AuditAction, AuditEntry, AuditedRecord, createAuditEntry, diffAlbumLists, diffPhotoLists } from './audit';
+import { getCurrentUser } from './auth';
+
+// Browser-local backend used for demos and development without a Firebase project.
+// It mirrors the Firestore layout: one metadata record plus chunk records of up to CHUNK_SIZE photos.
+
+const DB_NAME = 'web-gallery-local';
+const DB_VERSION = 3;
+const METADATA_STORE = 'metadata';
+const METADATA_KEY = 'metadata';
+const PHOTO_CHUNKS_STORE = 'photo_chunks';
+const TRASH_STORE = 'trash';
+const AUDIT_STORE = 'audit_log';
+const AUDIT_TIME_INDEX = 'at';
+
+interface ChunkRecord {
+  data: Photo[];
+}
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(METADATA_STORE);
+    db.createObjectStore(PHOTO_CHUNKS_STORE);
+  }
+  if (oldVersion < 2) {
+    // Version 1 only logged deleted photo ids; the trash keeps full records keyed by photo id
+    if (db.objectStoreNames.contains('deleted_photos')) db.deleteObjectStore('deleted_photos');
+    db.createObjectStore(TRASH_STORE);
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(AUDIT_STORE).createIndex(AUDIT_TIME_INDEX, 'at');
+  }
+});
+
+const emptyMetadata = (): GalleryMetadata => ({ albums: [], photoChunkIds: [], schemaVersion: SCHEMA_VERSION });
+
+const readMetadata = async (tx: IDBTransaction): Promise<GalleryMetadata> => {
+  const metadata = await requestToPromise<GalleryMetadata | undefined>(tx.objectStore(METADATA_STORE).get(METADATA_KEY));
+  return metadata || emptyMetadata();
+};
+
+const writeMetadata = (tx: IDBTransaction, metadata: GalleryMetadata) => {
+  tx.objectStore(METADATA_STORE).put(metadata, METADATA_KEY);
+};
+
+const readChunk = (tx: IDBTransaction, chunkId: string) =>
+  requestToPromise<ChunkRecord | undefined>(tx.objectStore(PHOTO_CHUNKS_STORE).get(chunkId));
+
+// Also refreshes the chunk's entry in the metadata chunk index, so transactions that write chunks need both stores
+const writeChunk = async (tx: IDBTransaction, chunkId: string, data: Photo[]) => {
+  tx.objectStore(PHOTO_CHUNKS_STORE).put({ data }, chunkId);
+  const metadata = await readMetadata(tx);
+  writeMetadata(tx, { ...metadata, chunkIndex: { ...metadata.chunkIndex, [chunkId]: summarizeChunk(data) } });
+};
+
+// IndexedDB stores values with the structured clone algorithm, so strip anything that is not plain data
+const toRecord = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Adds the audit entry to the transaction making the change, so both are written or neither is
+const writeAudit = (tx: IDBTransaction, action: AuditAction, records: AuditedRecord[], chunkIds: string[] = []) => {
+  const id = `audit_${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const user = getCurrentUser();
+  tx.objectStore(AUDIT_STORE).put(createAuditEntry(id, user && { uid: user.uid, email: user.email }, action, records, chunkIds), id);
+};
+
+// --- Change Notifications ---
+// Listeners in this tab are called directly; other tabs hear about writes over a BroadcastChannel.
+
+interface ChangeNotice {
+  metadata?: boolean;
+  chunkIds?: string[];
+}
+
+const CHANGE_CHANNEL = 'web-gallery-local-changes';
+const metadataListeners = new Set<() => void>();
+const chunkListeners: Record<string, Set<() => void>> = {};
+const changeChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+
+const dispatchChange = ({ metadata, chunkIds = [] }: ChangeNotice) => {
+  if (metadata) metadataListeners.forEach(listener => listener());
+  chunkIds.forEach(chunkId => chunkListeners[chunkId]?.forEach(listener => listener()));
+};
+
+changeChannel?.addEventListener('message', (event: MessageEvent<ChangeNotice>) => dispatchChange(event.data));
+
+const notifyChange = (notice: ChangeNotice) => {
+  dispatchChange(notice);
+  changeChannel?.postMessage(notice);
+};
+
+// --- Fetch Data ---
+
+export const getGalleryData = async (): Promise<GalleryData> => {
+  const db = await getDb();
+  return runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE], 'readonly', async (tx) => {
+    const metadata = await readMetadata(tx);
+    const chunks = await Promise.all(metadata.photoChunkIds.map(async (chunkId) => {
+      const chunk = await readChunk(tx, chunkId);
+      return (chunk?.data || []).map(photo => ({ ...photo, _chunkId: chunkId }));
+    }));
+    return { photos: chunks.flat(), albums: metadata.albums };
+  });
+};
+
+// --- Live Updates ---
+
+export const subscribeToMetadata = (
+  onChange: (metadata: GalleryMetadata) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const emit = async () => {
+    try {
+      const db = await getDb();
+      onChange(await runTransaction(db, METADATA_STORE, 'readonly', readMetadata));
+    } catch (err) { onError?.(err as Error); }
+  };
+
+  metadataListeners.add(emit);
+  emit();
+  return () => {
+    metadataListeners.delete(emit);
+  };
+};
+
+export const subscribeToChunk = (
+  chunkId: string,
+  onChange: (photos: Photo[] | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const emit = async () => {
+    try {
+      const db = await getDb();
+      const chunk = await runTransaction(db, PHOTO_CHUNKS_STORE, 'readonly', tx => readChunk(tx, chunkId));
+      onChange(chunk ? chunk.data : null);
+    } catch (err) { onError?.(err as Error); }
+  };
+
+  if (!chunkListeners[chunkId]) chunkListeners[chunkId] = new Set();
+  chunkListeners[chunkId].add(emit);
+  emit();
+  return () => {
+    chunkListeners[chunkId]?.delete(emit);
+  };
+};
+
+// --- Photos ---
+
+// Appends to the newest chunk, or starts a new one when it is full
+const appendPhoto = async (tx: IDBTransaction, photo: Photo) => {
+  const metadata = await readMetadata(tx);
+  const lastChunkId = metadata.photoChunkIds[metadata.photoChunkIds.length - 1];
+  const lastChunk = lastChunkId ? await readChunk(tx, lastChunkId) : undefined;
+
+  if (lastChunkId && lastChunk && lastChunk.data.length < CHUNK_SIZE) {
+    await writeChunk(tx, lastChunkId, [...lastChunk.data, toRecord(photo)]);
+    return lastChunkId;
+  }
+
+  const newChunkId = `chunk_${Date.now()}`;
+  writeMetadata(tx, { ...metadata, photoChunkIds: [...metadata.photoChunkIds, newChunkId] });
+  await writeChunk(tx, newChunkId, [toRecord(photo)]);
+  return newChunkId;
+};
+
+export const addPhoto = async (photo: Photo): Promise<string> => {
+  const db = await getDb();
+  const chunkId = await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const appendedChunkId = await appendPhoto(tx, photo);
+    writeAudit(tx, 'addPhoto', [{ kind: 'photo', after: photo }], [appendedChunkId]);
+    return appendedChunkId;
+  });
+
+  notifyChange({ metadata: true, chunkIds: [chunkId] });
+  return chunkId;
+};
+
+export const updatePhoto = async (photoId: string, chunkId: string, details: Partial<Photo>): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const chunk = await readChunk(tx, chunkId);
+    const photoIndex = chunk ? chunk.data.findIndex(p => p.id === photoId) : -1;
+
+    // The photo was removed or moved (possibly from another tab) since we loaded it
+    if (!chunk || photoIndex === -1) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted in another tab.`);
+    }
+
+    const updatedList = [...chunk.data];
+    updatedList[photoIndex] = toRecord({ ...updatedList[photoIndex], ...details });
+    await writeChunk(tx, chunkId, updatedList);
+    writeAudit(tx, 'updatePhoto', [{ kind: 'photo', before: chunk.data[photoIndex], after: updatedList[photoIndex] }], [chunkId]);
+  });
+  notifyChange({ metadata: true, chunkIds: [chunkId] });
+};
+
+export const deletePhoto = async (photoId: string, chunkId: string): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const chunk = await readChunk(tx, chunkId);
+    if (!chunk || !chunk.data.some(p => p.id === photoId)) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted in another tab.`);
+    }
+
+    await writeChunk(tx, chunkId, chunk.data.filter(p => p.id !== photoId));
+    writeAudit(tx, 'deletePhoto', [{ kind: 'photo', before: chunk.data.find(p => p.id === photoId) }], [chunkId]);
+  });
+  notifyChange({ metadata: true, chunkIds: [chunkId] });
+};
+
+export const updatePhotosAlbumId = async (updates: PhotoChunkRef[], newAlbumId: string): Promise<void> => {
+  const photoIdsByChunk: Record<string, Set<string>> = {};
+  updates.forEach(({ photoId, chunkId }) => {
+    if (!photoIdsByChunk[chunkId]) photoIdsByChunk[chunkId] = new Set();
+    photoIdsByChunk[chunkId].add(photoId);
+  });
+
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const moved: AuditedRecord[] = [];
+    for (const [chunkId, photoIds] of Object.entries(photoIdsByChunk)) {
+      const chunk = await readChunk(tx, chunkId);
+      if (!chunk) continue;
+      const updatedList = chunk.data.map(photo => photoIds.has(photo.id) ? { ...photo, albumId: newAlbumId } : photo);
+      await writeChunk(tx, chunkId, updatedList);
+      moved.push(...diffPhotoLists(chunk.data, updatedList));
+    }
+    writeAudit(tx, 'movePhotos', moved, Object.keys(photoIdsByChunk));
+  });
+  notifyChange({ metadata: true, chunkIds: Object.keys(photoIdsByChunk) });
+};
+
+export const updatePhotos = async (updates: PhotoUpdate[]): Promise<void> => {
+  const updatesByChunk: Record<string, Record<string, Partial<Photo>>> = {};
+  updates.forEach(({ photoId, chunkId, details }) => {
+    if (!updatesByChunk[chunkId]) updatesByChunk[chunkId] = {};
+    updatesByChunk[chunkId][photoId] = details;
+  });
+
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const updated: AuditedRecord[] = [];
+    for (const [chunkId, detailsById] of Object.entries(updatesByChunk)) {
+      const chunk = await readChunk(tx, chunkId);
+      if (!chunk) continue;
+      const updatedList = chunk.data.map(photo => detailsById[photo.id] ? toRecord({ ...photo, ...detailsById[photo.id] }) : photo);
+      await writeChunk(tx, chunkId, updatedList);
+      updated.push(...diffPhotoLists(chunk.data, updatedList));
+    }
+    writeAudit(tx, 'updatePhotos', updated, Object.keys(updatesByChunk));
+  });
+  notifyChange({ metadata: true, chunkIds: Object.keys(updatesByChunk) });
+};
+
+// --- Albums ---
+
+const updateAlbums = async (action: AuditAction, update: (albums: Album[]) => Album[]): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const metadata = await readMetadata(tx);
+    const albums = toRecord(update(metadata.albums));
+    writeMetadata(tx, { ...metadata, albums });
+    writeAudit(tx, action, diffAlbumLists(metadata.albums, albums));
+  });
+  notifyChange({ metadata: true });
+};
+
+export const addAlbum = (album: Album): Promise<void> =>
+  updateAlbums('addAlbum', albums => albums.some(a => a.id === album.id) ? albums : [...albums, album]);
+
+export const updateAlbum = (albumId: string, details: Partial<Album>): Promise<void> =>
+  updateAlbums('updateAlbum', albums => albums.map(a => a.id === albumId ? { ...a, ...details } : a));
+
+export const deleteAlbum = async (albumId: string, photos: PhotoChunkRef[], policy: AlbumPhotosPolicy): Promise<TrashedPhoto[]> => {
+  const photoIdsByChunk: Record<string, Set<string>> = {};
+  photos.forEach(({ photoId, chunkId }) => {
+    if (!photoIdsByChunk[chunkId]) photoIdsByChunk[chunkId] = new Set();
+    photoIdsByChunk[chunkId].add(photoId);
+  });
+
+  const db = await getDb();
+  const trashed = await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, TRASH_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const metadata = await readMetadata(tx);
+    const albums = metadata.albums.filter(a => a.id !== albumId);
+    if (policy.action === 'move' && !albums.some(a => a.id === policy.albumId)) {
+      if (policy.albumId !== UNSORTED_ALBUM_ID) {
+        throw new GalleryConflictError('The album you chose was deleted in another tab. Pick another one and try again.');
+      }
+      albums.push(createUnsortedAlbum());
+    }
+    // Written before the chunks, since each chunk write updates the chunk index in this record
+    writeMetadata(tx, { ...metadata, albums: toRecord(albums) });
+
+    const deletedAt = new Date().toISOString();
+    const records: TrashedPhoto[] = [];
+    const audited = diffAlbumLists(metadata.albums, albums);
+    for (const [chunkId, photoIds] of Object.entries(photoIdsByChunk)) {
+      const chunk = await readChunk(tx, chunkId);
+      if (!chunk) continue;
+      const updatedList = policy.action === 'trash'
+        ? chunk.data.filter(p => !photoIds.has(p.id))
+        : chunk.data.map(p => photoIds.has(p.id) ? { ...p, albumId: policy.albumId } : p);
+      if (policy.action === 'trash') {
+        chunk.data.filter(p => photoIds.has(p.id)).forEach(photo => records.push({ photo, deletedAt }));
+      }
+      await writeChunk(tx, chunkId, updatedList);
+      audited.push(...diffPhotoLists(chunk.data, updatedList));
+    }
+
+    records.forEach(record => tx.objectStore(TRASH_STORE).put(record, record.photo.id));
+    writeAudit(tx, 'deleteAlbum', audited, Object.keys(photoIdsByChunk));
+    return records;
+  });
+  notifyChange({ metadata: true, chunkIds: Object.keys(photoIdsByChunk) });
+  return trashed;
+};
+
+// --- Trash ---
+
+export const trashPhoto = async (photoId: string, chunkId: string): Promise<TrashedPhoto> => {
+  const db = await getDb();
+  const trashed = await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, TRASH_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const chunk = await readChunk(tx, chunkId);
+    const photo = chunk?.data.find(p => p.id === photoId);
+    if (!chunk || !photo) {
+      throw new GalleryConflictError(`Photo ${photoId} is no longer where we expected. It may have been moved or deleted in another tab.`);
+    }
+
+    const record: TrashedPhoto = { photo, deletedAt: new Date().toISOString() };
+    await writeChunk(tx, chunkId, chunk.data.filter(p => p.id !== photoId));
+    tx.objectStore(TRASH_STORE).put(record, photoId);
+    writeAudit(tx, 'trashPhoto', [{ kind: 'photo', before: photo }], [chunkId]);
+    return record;
+  });
+  notifyChange({ metadata: true, chunkIds: [chunkId] });
+  return trashed;
+};
+
+export const getTrash = async (): Promise<TrashedPhoto[]> => {
+  const db = await getDb();
+  return runTransaction(db, TRASH_STORE, 'readonly', tx =>
+    requestToPromise<TrashedPhoto[]>(tx.objectStore(TRASH_STORE).getAll())
+  );
+};
+
+export const restorePhoto = async (photoId: string, albumId?: string): Promise<string> => {
+  const db = await getDb();
+  const chunkId = await runTransaction(
+    db, [METADATA_STORE, PHOTO_CHUNKS_STORE, TRASH_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+      const record = await requestToPromise<TrashedPhoto | undefined>(tx.objectStore(TRASH_STORE).get(photoId));
+      if (!record) {
+        throw new GalleryConflictError('This photo is no longer in the trash. It may have been restored or purged in another tab.');
+      }
+
+      const restored = albumId ? { ...record.photo, albumId } : record.photo;
+      const restoredChunkId = await appendPhoto(tx, restored);
+      tx.objectStore(TRASH_STORE).delete(photoId);
+      writeAudit(tx, 'restorePhoto', [{ kind: 'photo', after: restored }], [restoredChunkId]);
+      return restoredChunkId;
+    }
+  );
+  notifyChange({ metadata: true, chunkIds: [chunkId] });
+  return chunkId;
+};
+
+export const purgePhoto = async (photoId: string): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [TRASH_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const record = await requestToPromise<TrashedPhoto | undefined>(tx.objectStore(TRASH_STORE).get(photoId));
+    if (!record) return;
+    tx.objectStore(TRASH_STORE).delete(photoId);
+    writeAudit(tx, 'purgePhoto', [{ kind: 'photo', before: record.photo }]);
+  });
+};
+
+// --- Maintenance ---
+
+export const getStorageSnapshot = async (): Promise<StorageSnapshot> => {
+  const db = await getDb();
+  return runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE], 'readonly', async (tx) => {
+    const store = tx.objectStore(PHOTO_CHUNKS_STORE);
+    const [metadata, keys, records] = await Promise.all([
+      readMetadata(tx),
+      requestToPromise(store.getAllKeys()),
+      requestToPromise<ChunkRecord[]>(store.getAll()),
+    ]);
+
+    const chunks: Record<string, Photo[]> = {};
+    keys.forEach((key, i) => {
+      chunks[String(key)] = records[i].data;
+    });
+    return { metadata: { ...metadata, chunkIndex: metadata.chunkIndex || {} }, chunks };
+  });
+};
+
+// IndexedDB transactions are atomic, so the whole swap happens in one; the check still catches edits from other tabs
+export const rewriteChunks = async ({ replaced, chunks, dropped = [] }: ChunkRewrite): Promise<string[]> => {
+  const stamp = Date.now();
+  const newChunkIds = chunks.map((_, i) => `chunk_${stamp}_${i}`);
+  const replacedIds = Object.keys(replaced);
+
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, PHOTO_CHUNKS_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    for (const chunkId of replacedIds) {
+      const chunk = await readChunk(tx, chunkId);
+      if (!chunk || !isSameData(chunk.data, replaced[chunkId])) {
+        throw new GalleryConflictError('Photos were changed while storage was being rewritten. Nothing was changed; please try again.');
+      }
+    }
+
+    const metadata = await readMetadata(tx);
+    const chunkIndex = { ...metadata.chunkIndex };
+    dropped.forEach(chunkId => delete chunkIndex[chunkId]);
+    replacedIds.forEach(chunkId => {
+      delete chunkIndex[chunkId];
+      tx.objectStore(PHOTO_CHUNKS_STORE).delete(chunkId);
+    });
+    newChunkIds.forEach((chunkId, i) => {
+      tx.objectStore(PHOTO_CHUNKS_STORE).put({ data: toRecord(chunks[i]) }, chunkId);
+      chunkIndex[chunkId] = summarizeChunk(chunks[i]);
+    });
+
+    writeMetadata(tx, {
+      ...metadata,
+      photoChunkIds: applyRewriteToChunkIds(metadata.photoChunkIds, replacedIds, newChunkIds, dropped),
+      chunkIndex: toRecord(chunkIndex),
+    });
+    // Repacking alone changes no photo, so a compaction is logged with its chunks only
+    writeAudit(
+      tx,
+      'rewriteChunks',
+      diffPhotoLists(Object.values(replaced).flat(), chunks.flat()),
+      [...replacedIds, ...dropped, ...newChunkIds]
+    );
+  });
+  notifyChange({ metadata: true, chunkIds: replacedIds });
+  return newChunkIds;
+};
+
+export const completeMigration = async (schemaVersion: number, migrateAlbum: (album: Album) => Album): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [METADATA_STORE, AUDIT_STORE], 'readwrite', async (tx) => {
+    const metadata = await readMetadata(tx);
+    const albums = toRecord(metadata.albums.map(migrateAlbum));
+    writeMetadata(tx, { ...metadata, albums, schemaVersion });
+    writeAudit(tx, 'migrate', diffAlbumLists(metadata.albums, albums));
+  });
+  notifyChange({ metadata: true });
+};
+
+// --- Activity ---
+
+export const getAuditLog = async (maxEntries: number): Promise<AuditEntry[]> => {
+  const db = await getDb();
+  return runTransaction(db, AUDIT_STORE, 'readonly', async (tx) => {
+    const entries: AuditEntry[] = [];
+    // Walks the time index from the newest entry back
+    const cursorRequest = tx.objectStore(AUDIT_STORE).index(AUDIT_TIME_INDEX).openCursor(null, 'prev');
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || entries.length >= maxEntries) {
+          resolve();
+          return;
+        }
+        entries.push(cursor.value as AuditEntry);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    return entries;
+  });
+};
+
+export const localRepository: GalleryRepository = {
+  getGalleryData,
+  subscribeToMetadata,
+  subscribeToChunk,
+  addPhoto,
+  updatePhoto,
+  deletePhoto,
+  updatePhotosAlbumId,
+  updatePhotos,
+  addAlbum,
+  updateAlbum,
+  deleteAlbum,
+  trashPhoto,
+  getTrash,
+  restorePhoto,
+  purgePhoto,
+  getStorageSnapshot,
+  rewriteChunks,
+  completeMigration,
+  getAuditLog,
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Album, Photo } from '../types';
+import { GalleryRepository, StorageSnapshot } from './galleryRepository';
+import { SCHEMA_VERSION, runMigrations, upgradeAlbum, upgradePhoto } from './migrations';
+
+// Records as older versions of the app stored them
+
+// Before version 1: hand-edited records could carry nulls, and square photos were saved as portrait
+const photoV0 = {
+  id: 'photo_1', url: 'https://example.com/photo_1.jpg', date: '2023-04-01T10:00:00.000Z', title: 'Harbour', albumId: 'album_1',
+  location: null, cameraMake: null, width: 3000, height: 3000, aspectRatio: 'portrait',
+} as unknown as Photo;
+
+// Before version 3: albums stored the range of years their photos were taken in
+const albumV2 = {
+  id: 'album_1', name: 'Lisbon', description: '', theme: 'Travel', createdAt: '2023-04-02T08:00:00.000Z',
+  coverPhotoId: null, yearRange: { start: 2022, end: 2023 },
+} as unknown as Album;
+
+const currentPhoto: Photo = {
+  id: 'photo_2', url: 'https://example.com/photo_2.jpg', date: '2024-06-01T10:00:00.000Z', title: 'Tram', albumId: 'album_1',
+  width: 4000, height: 3000, aspectRatio: 'landscape',
+};
+
+const snapshotAt = (schemaVersion: number | undefined): StorageSnapshot => ({
+  metadata: { albums: [albumV2], photoChunkIds: ['chunk_1', 'chunk_2'], schemaVersion },
+  chunks: {
+    chunk_1: [photoV0],
+    chunk_2: [currentPhoto],
+    chunk_unlisted: [photoV0], // Left to the integrity checker
+  },
+});
+
+const fakeRepository = (snapshot: StorageSnapshot) => ({
+  getStorageSnapshot: vi.fn(async () => snapshot),
+  rewriteChunks: vi.fn(async () => []),
+  completeMigration: vi.fn(async () => {}),
+});
+
+describe('upgradePhoto', () => {
+  it('drops null fields and fixes the aspect ratio of a record from before versioning', () => {
+    expect(upgradePhoto(photoV0, 0)).toEqual({
+      id: 'photo_1', url: 'https://example.com/photo_1.jpg', date: '2023-04-01T10:00:00.000Z', title: 'Harbour', albumId: 'album_1',
+      width: 3000, height: 3000, aspectRatio: 'square',
+    });
+  });
+
+  it('only runs the migrations newer than the version the record was written at', () => {
+    const upgraded = upgradePhoto(photoV0, 1);
+    expect(upgraded.aspectRatio).toBe('square');
+    expect(upgraded).toHaveProperty('location', null);
+  });
+
+  it('keeps extra fields such as the chunk id', () => {
+    expect(upgradePhoto({ ...photoV0, _chunkId: 'chunk_1' }, 0)._chunkId).toBe('chunk_1');
+  });
+
+  it('returns a current record unchanged', () => {
+    expect(upgradePhoto(currentPhoto, 0)).toBe(currentPhoto);
+    expect(upgradePhoto(photoV0, SCHEMA_VERSION)).toBe(photoV0);
+  });
+});
+
+describe('upgradeAlbum', () => {
+  it('drops null fields and the stored year range', () => {
+    expect(upgradeAlbum(albumV2, 0)).toEqual({
+      id: 'album_1', name: 'Lisbon', description: '', theme: 'Travel', createdAt: '2023-04-02T08:00:00.000Z',
+    });
+  });
+
+  it('keeps the null fields of a record already past version 1', () => {
+    const upgraded = upgradeAlbum(albumV2, 2);
+    expect(upgraded).not.toHaveProperty('yearRange');
+    expect(upgraded).toHaveProperty('coverPhotoId', null);
+  });
+});
+
+describe('runMigrations', () => {
+  it('reports what a dry run would change without writing anything', async () => {
+    const repository = fakeRepository(snapshotAt(undefined));
+    const report = await runMigrations(repository as unknown as GalleryRepository, { dryRun: true });
+
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: SCHEMA_VERSION, chunksRewritten: 1, dryRun: true });
+    expect(report.steps.map(({ version, photosChanged, albumsChanged }) => ({ version, photosChanged, albumsChanged }))).toEqual([
+      { version: 1, photosChanged: 1, albumsChanged: 1 },
+      { version: 2, photosChanged: 1, albumsChanged: 0 },
+      { version: 3, photosChanged: 0, albumsChanged: 1 },
+    ]);
+    expect(report.steps[1].samples).toEqual(['photo_1: aspectRatio "portrait" → "square"']);
+    expect(report.steps[2].samples).toEqual(['album_1: yearRange removed']);
+    expect(repository.rewriteChunks).not.toHaveBeenCalled();
+    expect(repository.completeMigration).not.toHaveBeenCalled();
+  });
+
+  it('only lists the migrations newer than the stored schema version', async () => {
+    const report = await runMigrations(fakeRepository(snapshotAt(2)) as unknown as GalleryRepository, { dryRun: true });
+
+    expect(report.fromVersion).toBe(2);
+    expect(report.steps.map(step => step.version)).toEqual([3]);
+    expect(report.chunksRewritten).toBe(0);
+  });
+
+  it('rewrites only the listed chunks that changed, then the albums and schema version', async () => {
+    const repository = fakeRepository(snapshotAt(undefined));
+    await runMigrations(repository as unknown as GalleryRepository, { dryRun: false });
+
+    expect(repository.rewriteChunks).toHaveBeenCalledTimes(1);
+    expect(repository.rewriteChunks).toHaveBeenCalledWith({
+      replaced: { chunk_1: [photoV0] },
+      chunks: [[upgradePhoto(photoV0, 0)]],
+    });
+    expect(repository.completeMigration).toHaveBeenCalledWith(SCHEMA_VERSION, expect.any(Function));
+  });
+
+  it('leaves the snapshot it read untouched', async () => {
+    const snapshot = snapshotAt(undefined);
+    await runMigrations(fakeRepository(snapshot) as unknown as GalleryRepository, { dryRun: true });
+
+    expect(snapshot.chunks.chunk_1[0]).toBe(photoV0);
+    expect(snapshot.metadata.albums[0]).toBe(albumV2);
+    expect(photoV0.aspectRatio).toBe('portrait');
+  });
+});
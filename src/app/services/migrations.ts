@@ -0,0 +1,143 @@
+import { Album, Photo } from '../types';
+import { GalleryRepository, isSameData } from './galleryRepository';
+
+// Photo and album records are never rewritten when their shape changes, so old records keep old shapes.
+// Each change to the shape gets a migration here. The metadata records the schema version the stored data
+// was last migrated to: records are upgraded in memory as they load, and editors write the upgrade back.
+
+export interface Migration {
+  version: number; // Schema version this migration upgrades to; versions increase by one
+  description: string;
+  // Must be safe to run on records that are already upgraded
+  photo?: (photo: Photo) => Photo;
+  album?: (album: Album) => Album;
+}
+
+// Firestore and IndexedDB records written by hand or by older code can carry nulls where the types expect a missing field
+const dropEmptyFields = <T extends object>(record: T): T => {
+  if (!Object.values(record).some(value => value === null || value === undefined)) return record;
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null && value !== undefined)) as T;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Remove empty (null) fields',
+    photo: dropEmptyFields,
+    album: dropEmptyFields,
+  },
+  {
+    version: 2,
+    description: 'Derive the aspect ratio from the stored dimensions (square photos were saved as portrait)',
+    photo: (photo) => {
+      if (!photo.width || !photo.height) return photo;
+      const aspectRatio = photo.width > photo.height ? 'landscape' : photo.width < photo.height ? 'portrait' : 'square';
+      return photo.aspectRatio === aspectRatio ? photo : { ...photo, aspectRatio };
+    },
+  },
+  {
+    version: 3,
+    description: 'Stop storing album year ranges; they are computed from the photos',
+    album: (album) => {
+      if (!('yearRange' in album)) return album;
+      const migrated: Album & { yearRange?: unknown } = { ...album };
+      delete migrated.yearRange;
+      return migrated;
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Upgrades a record loaded from storage written at `fromVersion`. Extra fields (like `_chunkId`) are kept.
+export const upgradePhoto = <T extends Photo>(photo: T, fromVersion: number): T =>
+  MIGRATIONS.reduce((current, m) => m.version > fromVersion && m.photo ? m.photo(current) as T : current, photo);
+
+export const upgradeAlbum = (album: Album, fromVersion: number): Album =>
+  MIGRATIONS.reduce((current, m) => m.version > fromVersion && m.album ? m.album(current) : current, album);
+
+// --- Running migrations against storage ---
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  photosChanged: number;
+  albumsChanged: number;
+  samples: string[]; // A few of the changes, e.g. `photo_1: aspectRatio "portrait" → "square"`
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+  chunksRewritten: number;
+  dryRun: boolean;
+}
+
+const MAX_SAMPLES = 3;
+
+const describeChange = (id: string, before: object, after: object) => {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(b), ...Object.keys(a)])].filter(key => !isSameData(b[key], a[key]));
+  return `${id}: ` + keys.map(key =>
+    key in a ? `${key} ${JSON.stringify(b[key])} → ${JSON.stringify(a[key])}` : `${key} removed`
+  ).join(', ');
+};
+
+/**
+ * Runs every migration newer than the stored schema version. With `dryRun` nothing is written and the
+ * report describes what would change. Photos are rewritten chunk by chunk (each chunk keeps its place),
+ * then the albums and the new schema version are written together. A run that is interrupted can simply
+ * be started again.
+ */
+export const runMigrations = async (repository: GalleryRepository, options: { dryRun: boolean }): Promise<MigrationReport> => {
+  const snapshot = await repository.getStorageSnapshot();
+  const fromVersion = snapshot.metadata.schemaVersion ?? 0;
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+
+  // Only chunks the metadata lists are migrated; unlisted ones are left to the integrity checker
+  const chunks: Record<string, Photo[]> = {};
+  snapshot.metadata.photoChunkIds.forEach(chunkId => {
+    if (Array.isArray(snapshot.chunks[chunkId])) chunks[chunkId] = snapshot.chunks[chunkId];
+  });
+  let albums = snapshot.metadata.albums;
+
+  const steps = pending.map(migration => {
+    const step: MigrationStepReport = {
+      version: migration.version, description: migration.description, photosChanged: 0, albumsChanged: 0, samples: [],
+    };
+    const apply = <T extends { id: string }>(record: T, migrate: (record: T) => T, kind: 'photosChanged' | 'albumsChanged') => {
+      // Records that are not even objects are listed by the validator; there is nothing to migrate
+      if (typeof record !== 'object' || record === null) return record;
+      const migrated = migrate(record);
+      if (isSameData(record, migrated)) return record;
+      step[kind]++;
+      if (step.samples.length < MAX_SAMPLES) step.samples.push(describeChange(record.id, record, migrated));
+      return migrated;
+    };
+
+    if (migration.photo) {
+      Object.keys(chunks).forEach(chunkId => {
+        chunks[chunkId] = chunks[chunkId].map(photo => apply(photo, migration.photo!, 'photosChanged'));
+      });
+    }
+    if (migration.album) {
+      albums = albums.map(album => apply(album, migration.album!, 'albumsChanged'));
+    }
+    return step;
+  });
+
+  const changedChunkIds = Object.keys(chunks).filter(chunkId => !isSameData(chunks[chunkId], snapshot.chunks[chunkId]));
+  const report: MigrationReport = {
+    fromVersion, toVersion: SCHEMA_VERSION, steps, chunksRewritten: changedChunkIds.length, dryRun: options.dryRun,
+  };
+  if (options.dryRun || pending.length === 0) return report;
+
+  for (const chunkId of changedChunkIds) {
+    await repository.rewriteChunks({ replaced: { [chunkId]: snapshot.chunks[chunkId] }, chunks: [chunks[chunkId]] });
+  }
+  // Albums are migrated again inside the write, so edits made since the snapshot are kept
+  await repository.completeMigration(SCHEMA_VERSION, album => upgradeAlbum(album, fromVersion));
+  return report;
+};
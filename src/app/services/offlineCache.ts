@@ -0,0 +1,101 @@
+import { openDatabase, requestToPromise, runTransaction } from './indexedDb';
+
+// Offline support: the gallery data last read from the server, and editor writes still waiting to reach it.
+// Both are kept in IndexedDB so they survive a reload while the connection is down.
+// Values are stored as they were read and validated again when they come back out (see services/validation.ts).
+
+const DB_NAME = 'web-gallery-offline';
+const DB_VERSION = 1;
+const METADATA_STORE = 'metadata';
+const CHUNKS_STORE = 'chunks';
+const OUTBOX_STORE = 'outbox';
+
+const METADATA_KEY = 'gallery';
+
+// A write made while offline. Ids increase, so the outbox replays in the order the writes were made.
+export interface OutboxEntry<T> {
+  id: number;
+  write: T;
+  queuedAt: string;
+}
+
+export interface CachedGallery {
+  metadata: unknown;
+  chunks: Record<string, unknown>;
+}
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(METADATA_STORE);
+  db.createObjectStore(CHUNKS_STORE);
+  db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+});
+
+// --- Gallery cache ---
+
+export const cacheMetadata = async (metadata: unknown): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, METADATA_STORE, 'readwrite', async (tx) => {
+    tx.objectStore(METADATA_STORE).put(metadata, METADATA_KEY);
+  });
+};
+
+export const cacheChunk = async (chunkId: string, photos: unknown): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, CHUNKS_STORE, 'readwrite', async (tx) => {
+    tx.objectStore(CHUNKS_STORE).put(photos, chunkId);
+  });
+};
+
+export const uncacheChunk = async (chunkId: string): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, CHUNKS_STORE, 'readwrite', async (tx) => {
+    tx.objectStore(CHUNKS_STORE).delete(chunkId);
+  });
+};
+
+/** The cached metadata and the chunks it still lists, or `null` if nothing has been cached yet. */
+export const readCachedGallery = async (): Promise<CachedGallery | null> => {
+  const db = await getDb();
+  return runTransaction(db, [METADATA_STORE, CHUNKS_STORE], 'readonly', async (tx) => {
+    const metadata = await requestToPromise(tx.objectStore(METADATA_STORE).get(METADATA_KEY));
+    if (metadata === undefined) return null;
+
+    const chunksStore = tx.objectStore(CHUNKS_STORE);
+    const [chunkIds, chunkValues] = await Promise.all([
+      requestToPromise(chunksStore.getAllKeys()),
+      requestToPromise(chunksStore.getAll()),
+    ]);
+    const listed = new Set((metadata as { photoChunkIds?: unknown }).photoChunkIds as string[] | undefined);
+    const chunks: Record<string, unknown> = {};
+    chunkIds.forEach((chunkId, i) => {
+      if (listed.has(chunkId as string)) chunks[chunkId as string] = chunkValues[i];
+    });
+    return { metadata, chunks };
+  });
+};
+
+// --- Outbox ---
+
+export const addToOutbox = async <T>(write: T): Promise<OutboxEntry<T>> => {
+  const db = await getDb();
+  return runTransaction(db, OUTBOX_STORE, 'readwrite', async (tx) => {
+    const entry = { write, queuedAt: new Date().toISOString() };
+    const id = await requestToPromise(tx.objectStore(OUTBOX_STORE).add(entry));
+    return { ...entry, id: id as number };
+  });
+};
+
+/** Every queued write, oldest first. */
+export const readOutbox = async <T>(): Promise<OutboxEntry<T>[]> => {
+  const db = await getDb();
+  return runTransaction(db, OUTBOX_STORE, 'readonly', async (tx) =>
+    requestToPromise(tx.objectStore(OUTBOX_STORE).getAll()) as Promise<OutboxEntry<T>[]>
+  );
+};
+
+export const removeFromOutbox = async (id: number): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, OUTBOX_STORE, 'readwrite', async (tx) => {
+    tx.objectStore(OUTBOX_STORE).delete(id);
+  });
+};
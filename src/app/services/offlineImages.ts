@@ -0,0 +1,99 @@
+import { Photo } from '../types';
+import { getImageUrl } from './backend';
+import { THUMBNAIL_SIZES, calculateOptimalImageWidth, getResponsiveAlbumCoverSize } from '../config/imageConfig';
+
+// Page side of the service worker (src/sw.ts). The worker precaches the app shell and keeps resized images
+// in a size-limited cache; albums marked "available offline" are pinned in that cache until unmarked.
+// The service worker is only built for production, so none of this is active under `npm run dev`.
+
+export interface OfflineAlbumStatus {
+  imageCount: number;
+  bytes: number;
+  failed: number; // Images that could not be downloaded; marking the album again retries them
+  savedAt: string;
+}
+
+// Messages to the service worker. Each is sent with a MessageChannel port that carries the replies.
+export type ServiceWorkerRequest =
+  | { type: 'pinAlbum'; albumId: string; urls: string[] }
+  | { type: 'unpinAlbum'; albumId: string }
+  | { type: 'listOfflineAlbums' };
+
+export type ServiceWorkerReply =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'albumPinned'; status: OfflineAlbumStatus }
+  | { type: 'albumUnpinned' }
+  | { type: 'offlineAlbums'; albums: Record<string, OfflineAlbumStatus> }
+  | { type: 'error'; message: string };
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => console.warn('Service worker registration failed:', err));
+  });
+};
+
+// The worker takes control on its first install, so this is false only before that (or in development)
+export const isOfflineAlbumsSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+
+const sendToServiceWorker = (
+  request: ServiceWorkerRequest,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ServiceWorkerReply> => new Promise((resolve, reject) => {
+  const controller = navigator.serviceWorker?.controller;
+  if (!controller) {
+    reject(new Error('Offline albums need the installed app; reload the page and try again.'));
+    return;
+  }
+  const channel = new MessageChannel();
+  channel.port1.onmessage = (event) => {
+    const reply = event.data as ServiceWorkerReply;
+    if (reply.type === 'progress') {
+      onProgress?.(reply.completed, reply.total);
+      return;
+    }
+    channel.port1.close();
+    if (reply.type === 'error') reject(new Error(reply.message));
+    else resolve(reply);
+  };
+  controller.postMessage(request, [channel.port2]);
+});
+
+/**
+ * Image URLs an album needs to be browsed offline on this device: its cover, and for every photo
+ * the album viewer's thumbnail and the full-size image at the width the viewer picks for this screen.
+ */
+export const getAlbumImageUrls = (photos: Photo[], coverPhotoUrl?: string): string[] => {
+  const urls = photos.flatMap(photo => [
+    getImageUrl(photo.url, THUMBNAIL_SIZES.VIEWER_THUMBNAIL),
+    getImageUrl(
+      photo.url,
+      calculateOptimalImageWidth(window.innerWidth, window.devicePixelRatio, photo.aspectRatio ?? 'landscape')
+    ),
+  ]);
+  if (coverPhotoUrl) urls.push(getImageUrl(coverPhotoUrl, getResponsiveAlbumCoverSize(window.innerWidth)));
+  return [...new Set(urls)];
+};
+
+export const saveAlbumOffline = async (
+  albumId: string,
+  urls: string[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<OfflineAlbumStatus> => {
+  const reply = await sendToServiceWorker({ type: 'pinAlbum', albumId, urls }, onProgress);
+  if (reply.type !== 'albumPinned') throw new Error(`Unexpected reply from the service worker: ${reply.type}`);
+  return reply.status;
+};
+
+// The images stay cached, but count towards the size budget again and are evicted when space runs out
+export const removeAlbumOffline = async (albumId: string): Promise<void> => {
+  await sendToServiceWorker({ type: 'unpinAlbum', albumId });
+};
+
+export const listOfflineAlbums = async (): Promise<Record<string, OfflineAlbumStatus>> => {
+  if (!isOfflineAlbumsSupported()) return {};
+  const reply = await sendToServiceWorker({ type: 'listOfflineAlbums' });
+  return reply.type === 'offlineAlbums' ? reply.albums : {};
+};
@@ -0,0 +1,113 @@
+import { Photo } from '../types';
+import { NEAR_DUPLICATE_DISTANCE } from '../config/galleryConfig';
+import { needsConversion, readEmbeddedThumbnail } from './imageFormats';
+import { createWorkerClient } from './workerClient';
+
+// Page side of the hashing worker (workers/photoHasher.ts), and finding duplicates with the hashes it returns.
+// The content hash (SHA-256 of the uploaded file) only matches the very same file; the perceptual hash
+// (dHash of the picture) also matches resized, re-encoded or converted copies.
+
+export interface PhotoHashes {
+  contentHash?: string;
+  perceptualHash?: string;
+}
+
+// What the worker is asked to hash: `file` byte for byte, `image` (or else `file`) for the perceptual hash
+export interface HashRequest {
+  file?: Blob;
+  image?: Blob;
+}
+
+export interface DuplicateMatch {
+  photo: Photo;
+  exact: boolean; // Same file, rather than the same picture
+}
+
+const requestHashes = createWorkerClient<HashRequest, PhotoHashes>(
+  () => new Worker(new URL('../workers/photoHasher.ts', import.meta.url), { type: 'module' }),
+  'Hashing failed.'
+);
+
+/** Both hashes of a file picked for upload. HEIC and RAW files get the perceptual hash of their embedded thumbnail. */
+export const hashPhotoFile = async (file: File): Promise<PhotoHashes> => {
+  const image = needsConversion(file) ? await readEmbeddedThumbnail(file) : undefined;
+  return requestHashes({ file, image });
+};
+
+/** The perceptual hash of a hosted image, for photos uploaded before hashes were kept. */
+export const hashImageUrl = async (url: string): Promise<string | undefined> => {
+  const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  if (!response.ok) throw new Error(`Failed to download ${url} (${response.status})`);
+  return (await requestHashes({ image: await response.blob() })).perceptualHash;
+};
+
+// Number of differing bits between two perceptual hashes (hex strings of the same length)
+export const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let bits = parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16);
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+};
+
+const isSimilar = (a?: string, b?: string) =>
+  !!a && !!b && a.length === b.length && hammingDistance(a, b) <= NEAR_DUPLICATE_DISTANCE;
+
+/** The photo in `photos` that `hashes` belong to, preferring an exact match; null when there is none. */
+export const findDuplicate = (hashes: PhotoHashes, photos: Photo[]): DuplicateMatch | null => {
+  const exact = hashes.contentHash && photos.find(p => p.contentHash === hashes.contentHash);
+  if (exact) return { photo: exact, exact: true };
+  const similar = photos.find(p => isSimilar(hashes.perceptualHash, p.perceptualHash));
+  return similar ? { photo: similar, exact: false } : null;
+};
+
+export interface DuplicateGroup {
+  photos: Photo[];
+  exact: boolean; // Every photo in the group is the same file
+}
+
+/**
+ * Groups the photos that are copies of each other. A photo similar to two others puts all three in one group,
+ * even if those two are not similar to each other. Groups are listed with their most recent photo first.
+ */
+export const groupDuplicates = (photos: Photo[]): DuplicateGroup[] => {
+  // Union-find over photo indices
+  const parent = photos.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  const join = (a: number, b: number) => {
+    parent[root(a)] = root(b);
+  };
+
+  const byContent = new Map<string, number>();
+  photos.forEach((photo, i) => {
+    if (!photo.contentHash) return;
+    const first = byContent.get(photo.contentHash);
+    if (first === undefined) byContent.set(photo.contentHash, i);
+    else join(i, first);
+  });
+  const hashed = photos.map((photo, i) => [photo.perceptualHash, i] as const).filter(([hash]) => hash);
+  for (let a = 0; a < hashed.length; a++) {
+    for (let b = a + 1; b < hashed.length; b++) {
+      if (isSimilar(hashed[a][0], hashed[b][0])) join(hashed[a][1], hashed[b][1]);
+    }
+  }
+
+  const groups = new Map<number, Photo[]>();
+  photos.forEach((photo, i) => {
+    const group = groups.get(root(i)) ?? [];
+    group.push(photo);
+    groups.set(root(i), group);
+  });
+  const dateOf = (photo: Photo) => photo.takenAt ?? photo.date;
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({
+      photos: group.sort((a, b) => dateOf(b).localeCompare(dateOf(a))),
+      exact: !!group[0].contentHash && group.every(p => p.contentHash === group[0].contentHash),
+    }))
+    .sort((a, b) => dateOf(b.photos[0]).localeCompare(dateOf(a.photos[0])));
+};
@@ -0,0 +1,100 @@
+import exifr from 'exifr';
+import { Photo } from '../types';
+import { getCityFromCoordinates } from './geocoding';
+import { isVideoFile, readQuickTimeMetadata } from './videoFiles';
+
+// Steps that turn an image file into a photo record: reading its EXIF data, measuring it once hosted,
+// and assembling the record. Used by the upload queue (see store/uploadQueue.ts).
+
+// Details read from the file itself
+export interface PhotoDetails {
+  takenAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  fNumber?: number;
+  exposureTime?: number;
+  iso?: number;
+  gps?: {
+    latitude: number;
+    longitude: number;
+  };
+  locationName?: string;
+}
+
+export const readPhotoDetails = async (file: File): Promise<PhotoDetails> => {
+  // Clips keep their recording date in QuickTime metadata rather than EXIF
+  if (isVideoFile(file)) return { takenAt: (await readQuickTimeMetadata(file)).createdAt };
+  const output = await exifr.parse(file, { tiff: true, exif: true, gps: true });
+  if (!output) return {};
+  return {
+    takenAt: output.DateTimeOriginal?.toISOString(),
+    cameraMake: output.Make,
+    cameraModel: output.Model,
+    fNumber: output.FNumber,
+    exposureTime: output.ExposureTime,
+    iso: output.ISO,
+    gps: output.latitude && output.longitude ? { latitude: output.latitude, longitude: output.longitude } : undefined,
+  };
+};
+
+/**
+ * Reads the file's details unless they are already `known`, and names the place they were taken.
+ * A file without readable EXIF data simply has no details. The `preferred` details (e.g. from a sidecar file)
+ * win over the file's own. With `stripGps`, the location is left out.
+ */
+export const extractPhotoDetails = async (
+  file: File,
+  name: string,
+  known?: PhotoDetails,
+  { stripGps = false, preferred }: { stripGps?: boolean; preferred?: PhotoDetails } = {}
+): Promise<PhotoDetails> => {
+  let details = known;
+  if (!details) {
+    try {
+      details = await readPhotoDetails(file);
+    } catch (e) {
+      console.warn(`Failed to extract EXIF data for ${name}:`, e);
+      details = {};
+    }
+    const given = Object.entries(preferred ?? {}).filter(([, value]) => value !== undefined);
+    details = { ...details, ...Object.fromEntries(given) };
+  }
+  if (stripGps) {
+    const { gps, locationName, ...rest } = details;
+    return rest;
+  }
+  if (details.gps && !details.locationName) {
+    const city = await getCityFromCoordinates(details.gps.latitude, details.gps.longitude);
+    if (city) details = { ...details, locationName: city };
+  }
+  return details;
+};
+
+export const readImageSize = async (url: string): Promise<{ width: number; height: number }> => {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  return { width: image.width, height: image.height };
+};
+
+export const createPhotoRecord = (
+  fields: Pick<Photo, 'id' | 'url' | 'title' | 'albumId' | 'location' | 'mediaType' | 'videoUrl' | 'duration' | 'originalFileName' | 'originalFormat' | 'contentHash' | 'perceptualHash'>
+    & { width: number; height: number },
+  details: PhotoDetails
+): Photo => {
+  const { width, height } = fields;
+  const photo: Photo = {
+    ...fields,
+    date: new Date().toISOString().split('T')[0],
+    aspectRatio: width > height ? 'landscape' : width < height ? 'portrait' : 'square',
+    ...details,
+  };
+
+  // Remove undefined values to prevent Firestore errors
+  Object.keys(photo).forEach(key => {
+    if ((photo as any)[key] === undefined) {
+      delete (photo as any)[key];
+    }
+  });
+  return photo;
+};
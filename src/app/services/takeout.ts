@@ -0,0 +1,384 @@
+import { Unzip, UnzipFile, UnzipInflate, strFromU8 } from 'fflate';
+import { PhotoDetails } from './photoUpload';
+import { InvalidArchiveError } from './errors';
+import { isObject } from './validation';
+
+// Google Takeout exports of Google Photos, and zipped Apple Photos exports. In a Takeout export every photo
+// sits next to a JSON sidecar with what Google Photos knew about it (its caption, the date it was taken,
+// where), which is kept even when the file's EXIF data was stripped. Albums are folders with a metadata.json;
+// "Photos from <year>" folders hold every photo again. Apple Photos writes an XMP sidecar next to each file
+// when "Export IPTC as XMP" is ticked, and its folders (albums, or moments) become albums.
+// Exports run to gigabytes, so they are streamed rather than loaded: once for the sidecars, then for the files.
+
+// File types taken from an export, and the MIME type given to the extracted files
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+  bmp: 'image/bmp', tif: 'image/tiff', tiff: 'image/tiff', heic: 'image/heic', heif: 'image/heif',
+  dng: '', cr2: '', cr3: '', nef: '', arw: '',
+  mp4: 'video/mp4', mov: 'video/quicktime', m4v: 'video/mp4',
+};
+
+const ALBUM_METADATA_FILE = 'metadata.json';
+// Files an export holds besides the photos that are left out without a word: Takeout's archive_browser.html,
+// and the edit instructions Apple Photos writes next to edited originals
+const IGNORED_TYPES = ['html', 'aae'];
+const YEAR_FOLDER = /^Photos from \d{4}$/;
+// Newer exports name sidecars "<file>.supplemental-metadata.json", cut short when the name gets too long
+const SUPPLEMENTAL_SUFFIX = 'supplemental-metadata';
+
+// A photo or video to import, with what its sidecar says about it
+export interface TakeoutEntry {
+  path: string; // In the zip
+  fileName: string;
+  albumFolder?: string; // Folder of the album it goes to; undefined for photos in no album
+  title?: string; // The caption, or else the file name Google Photos had for it
+  details?: PhotoDetails;
+}
+
+export interface TakeoutAlbum {
+  folder: string;
+  name: string;
+  description: string;
+  fileCount: number;
+}
+
+export interface TakeoutFileError {
+  fileName: string;
+  message: string;
+}
+
+export interface TakeoutPlan {
+  file: File;
+  entries: TakeoutEntry[];
+  albums: TakeoutAlbum[];
+  errors: TakeoutFileError[]; // Files left out, or imported without their sidecar
+  exportedFrom?: 'Google Photos' | 'Apple Photos'; // Told by its sidecars; undefined for a zip without any
+}
+
+interface Sidecar {
+  title?: string;
+  details: PhotoDetails;
+}
+
+// The parts of a Google Photos sidecar that are used. Sidecars are parsed as unknown JSON and narrowed to this.
+interface TakeoutSidecarJson {
+  title?: string;
+  description?: string;
+  photoTakenTime?: { timestamp?: string };
+  geoData?: TakeoutGeoJson;
+  geoDataExif?: TakeoutGeoJson;
+}
+
+interface TakeoutGeoJson {
+  latitude: number;
+  longitude: number;
+}
+
+// An album folder's metadata.json
+interface TakeoutAlbumJson {
+  title?: string;
+  description?: string;
+}
+
+const extensionOf = (fileName: string) => fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+const removeExtension = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+const splitPath = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return { folder: path.slice(0, slash + 1).replace(/\/$/, ''), fileName: path.slice(slash + 1) };
+};
+
+const folderName = (folder: string) => folder.split('/').pop() ?? '';
+
+const concat = (chunks: Uint8Array[]) => {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+// Reads the zip one chunk at a time. `afterChunk` is awaited before the next one, so the caller can hold the
+// reading back while it deals with the files it got; files are inflated as their bytes come in.
+const streamZip = async (file: File, onEntry: (entry: UnzipFile) => void, afterChunk?: (bytesRead: number) => Promise<void> | void) => {
+  const unzip = new Unzip(onEntry);
+  unzip.register(UnzipInflate);
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    unzip.push(value);
+    bytesRead += value.length;
+    await afterChunk?.(bytesRead);
+  }
+  unzip.push(new Uint8Array(0), true);
+  await afterChunk?.(bytesRead);
+};
+
+// Files that are not read still have to be started: until then the unzipper keeps their compressed bytes
+const skipEntry = (entry: UnzipFile) => {
+  entry.ondata = () => {};
+  entry.start();
+};
+
+const readEntry = (entry: UnzipFile, onDone: (chunks: Uint8Array[]) => void, onError: (err: Error) => void) => {
+  const chunks: Uint8Array[] = [];
+  entry.ondata = (err, chunk, final) => {
+    if (err) {
+      onError(err);
+      return;
+    }
+    chunks.push(chunk);
+    if (final) onDone(chunks);
+  };
+  entry.start();
+};
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const toGeoJson = (value: unknown): TakeoutGeoJson | undefined =>
+  isObject(value) && typeof value.latitude === 'number' && typeof value.longitude === 'number'
+    ? { latitude: value.latitude, longitude: value.longitude }
+    : undefined;
+
+// Null for JSON files that are not photo sidecars
+const toSidecarJson = (json: unknown): TakeoutSidecarJson | null => {
+  if (!isObject(json) || !(json.photoTakenTime || json.geoData)) return null;
+  const timestamp = isObject(json.photoTakenTime) ? json.photoTakenTime.timestamp : undefined;
+  return {
+    title: optionalString(json.title),
+    description: optionalString(json.description),
+    photoTakenTime: { timestamp: typeof timestamp === 'number' ? String(timestamp) : optionalString(timestamp) },
+    geoData: toGeoJson(json.geoData),
+    geoDataExif: toGeoJson(json.geoDataExif),
+  };
+};
+
+const toAlbumJson = (json: unknown): TakeoutAlbumJson =>
+  isObject(json) ? { title: optionalString(json.title), description: optionalString(json.description) } : {};
+
+// Google Photos writes 0, 0 for photos without a location
+const parseSidecar = (json: TakeoutSidecarJson): Sidecar => {
+  const timestamp = Number(json.photoTakenTime?.timestamp);
+  const geo = [json.geoData, json.geoDataExif].find(g => g && (g.latitude || g.longitude));
+  return {
+    title: json.description?.trim() || (json.title && removeExtension(json.title)) || undefined,
+    details: {
+      takenAt: timestamp ? new Date(timestamp * 1000).toISOString() : undefined,
+      gps: geo ? { latitude: geo.latitude, longitude: geo.longitude } : undefined,
+    },
+  };
+};
+
+const XMP_NAMESPACES = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+};
+
+// XMP properties are written either as attributes of an rdf:Description or as elements inside it;
+// language alternatives (dc:title, dc:description) hold their text in an rdf:li
+const readXmpProperty = (xmp: Document, namespace: string, name: string) => {
+  for (const description of Array.from(xmp.getElementsByTagNameNS(XMP_NAMESPACES.rdf, 'Description'))) {
+    const value = description.getAttributeNS(namespace, name);
+    if (value) return value.trim();
+  }
+  return xmp.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() || undefined;
+};
+
+// XMP writes GPS coordinates as degrees and decimal minutes (or minutes and seconds) with a compass
+// direction, e.g. "37,46.4966N"
+const parseXmpCoordinate = (value?: string) => {
+  const match = value && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i.exec(value.trim());
+  if (!match) return undefined;
+  const [, degrees, minutes, seconds, direction] = match;
+  const coordinate = Number(degrees) + Number(minutes) / 60 + Number(seconds ?? 0) / 3600;
+  return /[SW]/i.test(direction) ? -coordinate : coordinate;
+};
+
+// Null when the file is not XMP
+const parseXmpSidecar = (text: string): Sidecar | null => {
+  const xmp = new DOMParser().parseFromString(text, 'application/xml');
+  if (xmp.getElementsByTagName('parsererror').length > 0) return null;
+  const takenAt = new Date(readXmpProperty(xmp, XMP_NAMESPACES.photoshop, 'DateCreated')
+    ?? readXmpProperty(xmp, XMP_NAMESPACES.exif, 'DateTimeOriginal') ?? '');
+  const latitude = parseXmpCoordinate(readXmpProperty(xmp, XMP_NAMESPACES.exif, 'GPSLatitude'));
+  const longitude = parseXmpCoordinate(readXmpProperty(xmp, XMP_NAMESPACES.exif, 'GPSLongitude'));
+  return {
+    title: readXmpProperty(xmp, XMP_NAMESPACES.dc, 'title') || readXmpProperty(xmp, XMP_NAMESPACES.dc, 'description'),
+    details: {
+      takenAt: isNaN(takenAt.getTime()) ? undefined : takenAt.toISOString(),
+      gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+    },
+  };
+};
+
+// The file a sidecar belongs to: "IMG_1.jpg.json" and "IMG_1.jpg.supplemental-metadata.json" (or ".suppl.json")
+// to "IMG_1.jpg", and "IMG_1.jpg(1).json", the sidecar of the second "IMG_1.jpg" in a folder, to "IMG_1(1).jpg"
+const mediaNameOf = (sidecarName: string) => {
+  const [, base, copy] = /^(.*?)(\(\d+\))?\.json$/i.exec(sidecarName)!;
+  let name = base;
+  const dot = name.lastIndexOf('.');
+  const suffix = name.slice(dot + 1).toLowerCase();
+  if (dot > 0 && suffix && SUPPLEMENTAL_SUFFIX.startsWith(suffix)) name = name.slice(0, dot);
+  if (copy) {
+    const extension = name.lastIndexOf('.');
+    name = extension > 0 ? `${name.slice(0, extension)}${copy}${name.slice(extension)}` : `${name}${copy}`;
+  }
+  return name.toLowerCase();
+};
+
+/**
+ * Reads the sidecars and album folders of an export, and lists the photos and videos to import with the
+ * details to give them. A photo that is both in an album and in a year folder is imported once, into the album.
+ */
+export const scanTakeout = async (file: File, onProgress?: (bytesRead: number, total: number) => void): Promise<TakeoutPlan> => {
+  const media: { path: string; folder: string; fileName: string; size?: number }[] = [];
+  // By folder, then by the lowercase name of the file they describe, or the name Google Photos had for it
+  const sidecars = new Map<string, Map<string, Sidecar>>();
+  const sidecarsByTitle = new Map<string, Map<string, Sidecar>>();
+  const albumMetadata = new Map<string, { name?: string; description: string }>();
+  const errors: TakeoutFileError[] = [];
+  let exportedFrom: TakeoutPlan['exportedFrom'];
+
+  const addSidecar = (index: Map<string, Map<string, Sidecar>>, folder: string, key: string, sidecar: Sidecar) => {
+    const inFolder = index.get(folder) ?? new Map<string, Sidecar>();
+    inFolder.set(key, sidecar);
+    index.set(folder, inFolder);
+  };
+
+  await streamZip(file, entry => {
+    const { folder, fileName } = splitPath(entry.name);
+    const extension = extensionOf(fileName);
+    const onReadError = (err: Error) => errors.push({ fileName: entry.name, message: err.message });
+    if (entry.name.endsWith('/')) {
+      skipEntry(entry);
+    } else if (extension === 'json') {
+      readEntry(entry, chunks => {
+        let json: unknown;
+        try {
+          json = JSON.parse(strFromU8(concat(chunks)));
+        } catch {
+          errors.push({ fileName: entry.name, message: 'Not valid JSON; the photo it describes keeps its own details.' });
+          return;
+        }
+        if (fileName === ALBUM_METADATA_FILE) {
+          const album = toAlbumJson(json);
+          albumMetadata.set(folder, { name: album.title || undefined, description: album.description || '' });
+          exportedFrom = 'Google Photos';
+          return;
+        }
+        const sidecarJson = toSidecarJson(json);
+        if (!sidecarJson) return;
+        const sidecar = parseSidecar(sidecarJson);
+        addSidecar(sidecars, folder, mediaNameOf(fileName), sidecar);
+        if (sidecarJson.title) addSidecar(sidecarsByTitle, folder, sidecarJson.title.toLowerCase(), sidecar);
+        exportedFrom = 'Google Photos';
+      }, onReadError);
+    } else if (extension === 'xmp') {
+      readEntry(entry, chunks => {
+        const sidecar = parseXmpSidecar(strFromU8(concat(chunks)));
+        if (!sidecar) {
+          errors.push({ fileName: entry.name, message: 'Not valid XMP; the photo it describes keeps its own details.' });
+          return;
+        }
+        // "IMG_1.xmp" describes "IMG_1.heic" (and the clip of the Live Photo, "IMG_1.mov"); some apps write "IMG_1.heic.xmp"
+        addSidecar(sidecars, folder, removeExtension(fileName).toLowerCase(), sidecar);
+        exportedFrom ??= 'Apple Photos';
+      }, onReadError);
+    } else {
+      skipEntry(entry);
+      if (extension in MEDIA_TYPES) {
+        media.push({ path: entry.name, folder, fileName, size: entry.originalSize });
+      } else if (!IGNORED_TYPES.includes(extension) && !fileName.startsWith('.')) {
+        errors.push({ fileName: entry.name, message: 'Not a photo or video; left out.' });
+      }
+    }
+  }, bytesRead => onProgress?.(bytesRead, file.size));
+
+  if (media.length === 0) throw new InvalidArchiveError('This zip has no photos or videos in it.');
+
+  // Folders without a metadata.json are albums too in older exports, unless they are year folders
+  const isAlbumFolder = (folder: string) =>
+    !!folder && (albumMetadata.has(folder) || !YEAR_FOLDER.test(folderName(folder)));
+
+  const findSidecar = (folder: string, fileName: string) => {
+    const name = fileName.toLowerCase();
+    const original = name.replace(/-edited(?=\.[^.]+$)/, ''); // Edited copies share the sidecar of the original
+    return sidecars.get(folder)?.get(name) ?? sidecars.get(folder)?.get(original)
+      // Sidecar names are cut short for long file names, but their title is the full name
+      ?? sidecarsByTitle.get(folder)?.get(name) ?? sidecarsByTitle.get(folder)?.get(original)
+      // XMP sidecars are named after the file without its extension
+      ?? sidecars.get(folder)?.get(removeExtension(name));
+  };
+
+  const seen = new Set<string>();
+  const entries: TakeoutEntry[] = [];
+  const albumFirst = [...media].sort((a, b) => Number(isAlbumFolder(b.folder)) - Number(isAlbumFolder(a.folder)));
+  for (const { path, folder, fileName, size } of albumFirst) {
+    // The copy in a year folder of a photo that is in an album has the same name and size
+    const key = size !== undefined ? `${fileName.toLowerCase()}|${size}` : path;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const sidecar = findSidecar(folder, fileName);
+    if (!sidecar) errors.push({ fileName: path, message: 'No sidecar found; imported with the details in the file itself.' });
+    entries.push({
+      path,
+      fileName,
+      albumFolder: isAlbumFolder(folder) ? folder : undefined,
+      title: sidecar?.title,
+      details: sidecar?.details,
+    });
+  }
+
+  const albums: TakeoutAlbum[] = [];
+  entries.forEach(({ albumFolder }) => {
+    if (!albumFolder) return;
+    const album = albums.find(a => a.folder === albumFolder);
+    if (album) {
+      album.fileCount++;
+    } else {
+      const metadata = albumMetadata.get(albumFolder);
+      albums.push({ folder: albumFolder, name: metadata?.name ?? folderName(albumFolder), description: metadata?.description ?? '', fileCount: 1 });
+    }
+  });
+
+  return { file, entries, albums: albums.sort((a, b) => a.name.localeCompare(b.name)), errors, exportedFrom };
+};
+
+/**
+ * Extracts the planned photos and videos from the zip, handing each to `onFile` as it comes in. The zip is
+ * read no further until `onFile` is done with the files so far, so only a few of them are held at a time.
+ */
+export const readTakeoutFiles = async (
+  plan: TakeoutPlan,
+  onFile: (entry: TakeoutEntry, file: File) => Promise<void>,
+  onError: (entry: TakeoutEntry, message: string) => void
+): Promise<void> => {
+  const planned = new Map(plan.entries.map(entry => [entry.path, entry]));
+  let handling: Promise<void>[] = [];
+
+  await streamZip(plan.file, zipEntry => {
+    const entry = planned.get(zipEntry.name);
+    if (!entry) {
+      skipEntry(zipEntry);
+      return;
+    }
+    planned.delete(zipEntry.name);
+    readEntry(zipEntry, chunks => {
+      const file = new File(chunks as Uint8Array<ArrayBuffer>[], entry.fileName, { type: MEDIA_TYPES[extensionOf(entry.fileName)] });
+      handling.push(onFile(entry, file));
+    }, err => onError(entry, err.message));
+  }, async () => {
+    const current = handling;
+    handling = [];
+    await Promise.all(current);
+  });
+
+  planned.forEach(entry => onError(entry, 'No longer in the zip.'));
+};
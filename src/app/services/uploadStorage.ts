@@ -0,0 +1,93 @@
+import { openDatabase, requestToPromise, runTransaction } from './indexedDb';
+import { PhotoDetails } from './photoUpload';
+import { PhotoHashes } from './photoHashing';
+import { PreprocessOptions } from './imagePreprocessing';
+
+// The upload queue, kept in IndexedDB so that queued files survive closing the upload dialog or reloading the page.
+// Files are stored once, apart from the records describing their progress, which are rewritten at every step.
+
+const DB_NAME = 'web-gallery-uploads';
+const DB_VERSION = 1;
+const UPLOADS_STORE = 'uploads';
+const FILES_STORE = 'files';
+
+// extracting → processing → uploading → saving are the steps of an attempt (processing only for HEIC and RAW files or with `preprocess`);
+// an upload waiting for its (next) attempt is pending
+export type UploadStatus = 'pending' | 'extracting' | 'processing' | 'uploading' | 'saving' | 'done' | 'failed';
+
+export interface UploadItem {
+  id: string; // Starts with the time it was queued, so stored uploads come back in queue order
+  fileName: string;
+  size: number;
+  albumId: string;
+  title: string;
+  location?: string; // Entered by hand in the upload dialog
+  photoId: string; // Chosen when queued, so an attempt whose reply was lost cannot add the photo twice
+  status: UploadStatus;
+  paused: boolean;
+  attempts: number; // Failed attempts so far
+  error?: string; // Why the last attempt failed
+  retryAt?: number; // Time of the next attempt, after a failure
+  details?: PhotoDetails; // Read on the first attempt, or given when queued
+  sidecarDetails?: PhotoDetails; // From a sidecar file (e.g. in a Google Takeout export); wins over the file's EXIF data
+  hashes?: PhotoHashes; // Same as details
+  replacesPhotoId?: string; // Duplicate moved to the trash once this upload is saved
+  preprocess?: PreprocessOptions; // Resize and re-encode the file before uploading it
+  processedSize?: number; // Size of the file as uploaded, once preprocessed
+  imageUrl?: string; // Set once the file is on the image host, so later attempts do not upload it again
+  motionFileName?: string; // The clip of a Live Photo, stored along with the still
+  videoUrl?: string; // Same as imageUrl, for the clip
+  queuedAt: string;
+}
+
+// A Live Photo's clip is stored next to its still
+const motionKey = (id: string) => `${id}:motion`;
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+  db.createObjectStore(FILES_STORE);
+});
+
+export const addUploads = async (uploads: { item: UploadItem; file: File; motionFile?: File }[]): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [UPLOADS_STORE, FILES_STORE], 'readwrite', async (tx) => {
+    uploads.forEach(({ item, file, motionFile }) => {
+      tx.objectStore(UPLOADS_STORE).put(item);
+      tx.objectStore(FILES_STORE).put(file, item.id);
+      if (motionFile) tx.objectStore(FILES_STORE).put(motionFile, motionKey(item.id));
+    });
+  });
+};
+
+export const saveUpload = async (item: UploadItem): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, UPLOADS_STORE, 'readwrite', async (tx) => {
+    tx.objectStore(UPLOADS_STORE).put(item);
+  });
+};
+
+/** Every stored upload, in the order they were queued. */
+export const readUploads = async (): Promise<UploadItem[]> => {
+  const db = await getDb();
+  return runTransaction(db, UPLOADS_STORE, 'readonly', async (tx) =>
+    requestToPromise(tx.objectStore(UPLOADS_STORE).getAll()) as Promise<UploadItem[]>
+  );
+};
+
+export const readUploadFile = async (id: string, { motion = false } = {}): Promise<File | undefined> => {
+  const db = await getDb();
+  return runTransaction(db, FILES_STORE, 'readonly', async (tx) =>
+    requestToPromise(tx.objectStore(FILES_STORE).get(motion ? motionKey(id) : id)) as Promise<File | undefined>
+  );
+};
+
+export const deleteUploads = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  await runTransaction(db, [UPLOADS_STORE, FILES_STORE], 'readwrite', async (tx) => {
+    ids.forEach(id => {
+      tx.objectStore(UPLOADS_STORE).delete(id);
+      tx.objectStore(FILES_STORE).delete(id);
+      tx.objectStore(FILES_STORE).delete(motionKey(id));
+    });
+  });
+};
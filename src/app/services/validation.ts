@@ -0,0 +1,177 @@
+import { Album, Photo } from '../types';
+import { ChunkSummary, GalleryMetadata } from './galleryRepository';
+import { upgradeAlbum, upgradePhoto } from './migrations';
+
+// Storage hands back whatever was written, by this app, an older version of it or by hand in the console.
+// Every record is checked on the way in: valid records reach the store, invalid ones are quarantined and
+// listed for editors instead of crashing a view halfway through rendering.
+
+// A record (or whole document) that failed validation, kept as it was read
+export interface QuarantinedRecord {
+  kind: 'photo' | 'album' | 'chunk' | 'chunkSummary' | 'metadata';
+  source: string; // Chunk id, or 'metadata' for albums, chunk index entries and the metadata document itself
+  id?: string; // Record id, when it has a usable one
+  problems: string[];
+  raw: unknown;
+}
+
+export const METADATA_SOURCE = 'metadata';
+
+type FieldCheck = { test: (value: unknown) => boolean; expected: string };
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: FieldCheck = { test: v => typeof v === 'string', expected: 'a string' };
+const nonEmptyString: FieldCheck = { test: v => typeof v === 'string' && v.length > 0, expected: 'a non-empty string' };
+const number: FieldCheck = { test: v => typeof v === 'number' && Number.isFinite(v), expected: 'a number' };
+const date: FieldCheck = { test: v => typeof v === 'string' && !isNaN(new Date(v).getTime()), expected: 'a date' };
+const oneOf = (...values: string[]): FieldCheck => ({ test: v => values.includes(v as string), expected: values.join(' | ') });
+const shape = (fields: Record<string, FieldCheck>): FieldCheck => ({
+  test: v => isObject(v) && Object.entries(fields).every(([key, check]) => check.test(v[key])),
+  expected: `{ ${Object.entries(fields).map(([key, check]) => `${key}: ${check.expected}`).join(', ')} }`,
+});
+const optional = (check: FieldCheck): FieldCheck => ({ test: v => v === undefined || check.test(v), expected: check.expected });
+
+// Keyed by every field of the type, so adding a field to Photo or Album without a check fails to compile
+const PHOTO_FIELDS: Record<keyof Photo, FieldCheck> = {
+  id: nonEmptyString,
+  url: nonEmptyString,
+  date,
+  title: string,
+  albumId: string,
+  location: optional(string),
+  takenAt: optional(date),
+  cameraMake: optional(string),
+  cameraModel: optional(string),
+  fNumber: optional(number),
+  exposureTime: optional(number),
+  iso: optional(number),
+  gps: optional(shape({ latitude: number, longitude: number })),
+  locationName: optional(string),
+  width: optional(number),
+  height: optional(number),
+  // A missing aspect ratio is not fatal; the integrity checker measures the image and fills it in
+  aspectRatio: optional(oneOf('landscape', 'portrait', 'square')),
+  mediaType: optional(oneOf('image', 'video', 'livePhoto')),
+  videoUrl: optional(nonEmptyString),
+  duration: optional(number),
+  originalFileName: optional(string),
+  originalFormat: optional(string),
+  contentHash: optional(string),
+  perceptualHash: optional(string),
+};
+
+const ALBUM_FIELDS: Record<keyof Album, FieldCheck> = {
+  id: nonEmptyString,
+  name: string,
+  description: string,
+  theme: string,
+  createdAt: date,
+  coverPhotoId: optional(string),
+  system: optional({ test: v => typeof v === 'boolean', expected: 'a boolean' }),
+};
+
+// The chunk index in the metadata is read before the chunks themselves, to page through dates and find an
+// album's chunks; an empty chunk has an empty date range
+const rangeDate: FieldCheck = { test: v => v === '' || date.test(v), expected: 'a date or empty' };
+const chunkAlbumSummary = shape({ count: number, start: date, end: date, sampleUrl: string });
+
+const CHUNK_SUMMARY_FIELDS: Record<keyof ChunkSummary, FieldCheck> = {
+  count: number,
+  start: rangeDate,
+  end: rangeDate,
+  albums: {
+    test: v => isObject(v) && Object.values(v).every(chunkAlbumSummary.test),
+    expected: `an object of ${chunkAlbumSummary.expected}`,
+  },
+};
+
+const validateFields = (value: unknown, fields: Record<string, FieldCheck>): string[] => {
+  if (!isObject(value)) return ['is not an object'];
+  return Object.entries(fields)
+    .filter(([key, check]) => !check.test(value[key]))
+    .map(([key, check]) => value[key] === undefined ? `${key} is missing` : `${key} should be ${check.expected}`);
+};
+
+export const validatePhoto = (value: unknown): string[] => validateFields(value, PHOTO_FIELDS);
+
+export const validateAlbum = (value: unknown): string[] => validateFields(value, ALBUM_FIELDS);
+
+const recordId = (value: unknown) => isObject(value) && typeof value.id === 'string' ? value.id : undefined;
+
+// Upgrades (see migrations.ts) and validates each record, splitting the valid ones from the rest
+const parseRecords = <T>(
+  values: unknown[],
+  kind: 'photo' | 'album',
+  source: string,
+  upgrade: (value: T) => T,
+  validate: (value: unknown) => string[]
+): { valid: T[]; quarantined: QuarantinedRecord[] } => {
+  const valid: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  values.forEach(raw => {
+    const value = isObject(raw) ? upgrade(raw as T) : raw;
+    const problems = validate(value);
+    if (problems.length === 0) valid.push(value as T);
+    else quarantined.push({ kind, source, id: recordId(raw), problems, raw });
+  });
+  return { valid, quarantined };
+};
+
+export const parsePhotos = (values: unknown[], source: string, fromVersion: number) =>
+  parseRecords<Photo>(values, 'photo', source, photo => upgradePhoto(photo, fromVersion), validatePhoto);
+
+export const parseAlbums = (values: unknown[], fromVersion: number) =>
+  parseRecords<Album>(values, 'album', METADATA_SOURCE, album => upgradeAlbum(album, fromVersion), validateAlbum);
+
+// Contents of a chunk document as handed back by the repository
+export const parseChunk = (raw: unknown, chunkId: string, fromVersion: number) => {
+  if (!Array.isArray(raw)) {
+    return {
+      valid: [] as Photo[],
+      quarantined: [{ kind: 'chunk' as const, source: chunkId, problems: ['photo list is not an array'], raw }],
+    };
+  }
+  return parsePhotos(raw, chunkId, fromVersion);
+};
+
+/**
+ * Validates the metadata document. Broken fields are replaced with empty values so the rest of the
+ * gallery still loads, and reported as a single quarantined 'metadata' record.
+ */
+export const parseMetadata = (raw: unknown): { metadata: GalleryMetadata; quarantined: QuarantinedRecord[] } => {
+  const document = isObject(raw) ? raw : {};
+  const problems: string[] = isObject(raw) ? [] : ['is not an object'];
+
+  const schemaVersion = document.schemaVersion === undefined ? 0 : document.schemaVersion;
+  if (!number.test(schemaVersion)) problems.push(`schemaVersion should be ${number.expected}`);
+  const fromVersion = number.test(schemaVersion) ? schemaVersion as number : 0;
+
+  const rawAlbums = Array.isArray(document.albums) ? document.albums : [];
+  if (!Array.isArray(document.albums)) problems.push('albums is not an array');
+
+  const photoChunkIds = Array.isArray(document.photoChunkIds) ? document.photoChunkIds.filter(id => nonEmptyString.test(id)) : [];
+  if (!Array.isArray(document.photoChunkIds) || photoChunkIds.length !== document.photoChunkIds.length) {
+    problems.push('photoChunkIds should be a list of chunk ids');
+  }
+
+  if (document.chunkIndex !== undefined && !isObject(document.chunkIndex)) problems.push('chunkIndex is not an object');
+  // A chunk whose entry is dropped counts as missing from the index, so it is always loaded
+  const chunkIndex: Record<string, ChunkSummary> = {};
+  const badSummaries: QuarantinedRecord[] = [];
+  Object.entries(isObject(document.chunkIndex) ? document.chunkIndex : {}).forEach(([chunkId, summary]) => {
+    const summaryProblems = validateFields(summary, CHUNK_SUMMARY_FIELDS);
+    if (summaryProblems.length === 0) chunkIndex[chunkId] = summary as ChunkSummary;
+    else badSummaries.push({ kind: 'chunkSummary', source: METADATA_SOURCE, id: chunkId, problems: summaryProblems, raw: summary });
+  });
+
+  const albums = parseAlbums(rawAlbums, fromVersion);
+  const quarantined = [...albums.quarantined, ...badSummaries];
+  if (problems.length > 0) quarantined.push({ kind: 'metadata', source: METADATA_SOURCE, problems, raw });
+
+  return {
+    metadata: { albums: albums.valid, photoChunkIds: photoChunkIds as string[], chunkIndex, schemaVersion: fromVersion },
+    quarantined,
+  };
+};
@@ -0,0 +1,266 @@
+import exifr from 'exifr';
+import { getFileFormat, isHeicFile } from './imageFormats';
+
+// Video clips and Live Photos in the upload pipeline: their size, length and poster frame, the date and
+// Live Photo id kept in their QuickTime metadata, and pairing the still and motion halves of Live Photos.
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v'];
+
+// For the file input: not every browser counts .mov files as video/*
+export const VIDEO_FILE_EXTENSIONS = VIDEO_EXTENSIONS.map(ext => `.${ext}`);
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(getFileFormat(file));
+
+export interface VideoInfo {
+  width: number;
+  height: number;
+  duration: number; // Seconds
+  poster: Blob; // First frame, as a JPEG
+}
+
+// A frame this far in is less likely to be black than the very first one
+const POSTER_TIME_SECONDS = 0.1;
+
+const waitForEvent = (video: HTMLVideoElement, type: string) => new Promise<void>((resolve, reject) => {
+  const cleanUp = () => {
+    video.removeEventListener(type, onEvent);
+    video.removeEventListener('error', onError);
+  };
+  const onEvent = () => {
+    cleanUp();
+    resolve();
+  };
+  const onError = () => {
+    cleanUp();
+    reject(new Error('This browser cannot play the video.'));
+  };
+  video.addEventListener(type, onEvent);
+  video.addEventListener('error', onError);
+});
+
+/** Reads a clip's size and length and grabs its poster frame. Fails for codecs the browser cannot play (e.g. HEVC in some browsers). */
+export const readVideoInfo = async (file: Blob): Promise<VideoInfo> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = Math.min(POSTER_TIME_SECONDS, video.duration / 2);
+    await seeked;
+
+    const { videoWidth: width, videoHeight: height } = video;
+    if (!width || !height) throw new Error('This browser cannot play the video.');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(video, 0, 0, width, height);
+    const poster = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the poster frame.')), 'image/jpeg', 0.9);
+    });
+    return { width, height, duration: video.duration, poster };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// --- QuickTime metadata ---
+// MP4 and MOV files are trees of atoms: a 32-bit size (or 1, followed by a 64-bit size) and a 4-letter type.
+
+interface Atom {
+  type: string;
+  code: number; // The type as a number, which is how metadata items name their key
+  start: number; // Of the atom's contents, after its header
+  end: number;
+}
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// The atom at `offset`, which has `remaining` bytes of its parent left to fill; null when it does not fit
+const readAtom = (view: DataView, offset: number, remaining: number): Atom | null => {
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) return null;
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = remaining; // Runs to the end
+  }
+  if (size < headerSize || size > remaining) return null;
+  return { type: readType(view, offset + 4), code: view.getUint32(offset + 4), start: offset + headerSize, end: offset + size };
+};
+
+const readAtoms = (view: DataView, start: number, end: number): Atom[] => {
+  const atoms: Atom[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    const atom = readAtom(view, offset, end - offset);
+    if (!atom) break;
+    atoms.push(atom);
+    offset = atom.end;
+  }
+  return atoms;
+};
+
+const findAtom = (atoms: Atom[], type: string) => atoms.find(atom => atom.type === type);
+
+// Larger movie headers are not worth reading for a date and an id
+const MAX_MOOV_SIZE = 16 * 1024 * 1024;
+
+// Seconds between 1904-01-01, where QuickTime times start, and 1970-01-01
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+// Apple's keys in the movie's 'meta' atom
+const CONTENT_IDENTIFIER_KEY = 'com.apple.quicktime.content.identifier';
+const CREATION_DATE_KEY = 'com.apple.quicktime.creationdate';
+
+// Reads only the top-level atom headers up to the movie header ('moov'), which may come after the media data.
+// Offsets in the returned view are relative to the contents of 'moov'.
+const readMovieHeader = async (file: Blob): Promise<DataView | null> => {
+  for (let offset = 0; offset + 8 <= file.size;) {
+    const header = readAtom(new DataView(await file.slice(offset, offset + 16).arrayBuffer()), 0, file.size - offset);
+    if (!header) return null;
+    if (header.type === 'moov') {
+      if (header.end - header.start > MAX_MOOV_SIZE) return null;
+      return new DataView(await file.slice(offset + header.start, offset + header.end).arrayBuffer());
+    }
+    offset += header.end;
+  }
+  return null;
+};
+
+// QuickTime 'meta' atoms hold their children directly; ISO ones start with a version and flags first
+const readMetaItems = (view: DataView, meta: Atom): Map<string, DataView> => {
+  const items = new Map<string, DataView>();
+  let children = readAtoms(view, meta.start, meta.end);
+  if (!findAtom(children, 'keys')) children = readAtoms(view, meta.start + 4, meta.end);
+  const keys = findAtom(children, 'keys');
+  const list = findAtom(children, 'ilst');
+  if (!keys || !list) return items;
+
+  const names: string[] = [];
+  let offset = keys.start + 8;
+  for (let i = 0; i < view.getUint32(keys.start + 4) && offset + 8 <= keys.end; i++) {
+    const size = view.getUint32(offset);
+    if (size < 8) break;
+    names.push(new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset + 8, size - 8)));
+    offset += size;
+  }
+  // Each item's type is the 1-based index of its key; its value sits in a 'data' atom after a type and a locale
+  for (const item of readAtoms(view, list.start, list.end)) {
+    const data = findAtom(readAtoms(view, item.start, item.end), 'data');
+    const name = names[item.code - 1];
+    if (name && data && data.end - data.start >= 8) {
+      items.set(name, new DataView(view.buffer, view.byteOffset + data.start + 8, data.end - data.start - 8));
+    }
+  }
+  return items;
+};
+
+export interface QuickTimeMetadata {
+  createdAt?: string; // ISO date
+  contentIdentifier?: string; // Shared by the two halves of a Live Photo
+}
+
+/** The recording date and Live Photo id of an MP4 or MOV file; empty when it has neither or cannot be read. */
+export const readQuickTimeMetadata = async (file: Blob): Promise<QuickTimeMetadata> => {
+  try {
+    const movie = await readMovieHeader(file);
+    if (!movie) return {};
+    const atoms = readAtoms(movie, 0, movie.byteLength);
+    const metadata: QuickTimeMetadata = {};
+
+    const userData = findAtom(atoms, 'udta');
+    const meta = findAtom(atoms, 'meta') ?? (userData && findAtom(readAtoms(movie, userData.start, userData.end), 'meta'));
+    const items = meta ? readMetaItems(movie, meta) : new Map<string, DataView>();
+    const decode = (value?: DataView) => value && new TextDecoder().decode(value).replace(/\0+$/, '');
+    metadata.contentIdentifier = decode(items.get(CONTENT_IDENTIFIER_KEY)) || undefined;
+
+    // Apple's creation date keeps the time zone of the recording; the movie header only has UTC seconds
+    const creationDate = decode(items.get(CREATION_DATE_KEY));
+    const mvhd = findAtom(atoms, 'mvhd');
+    if (creationDate && !isNaN(Date.parse(creationDate))) {
+      metadata.createdAt = new Date(creationDate).toISOString();
+    } else if (mvhd) {
+      const version = movie.getUint8(mvhd.start);
+      const seconds = version === 1 ? Number(movie.getBigUint64(mvhd.start + 4)) : movie.getUint32(mvhd.start + 4);
+      if (seconds > QUICKTIME_EPOCH_OFFSET) metadata.createdAt = new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+    }
+    return metadata;
+  } catch (err) {
+    console.warn('Failed to read video metadata:', err);
+    return {};
+  }
+};
+
+// --- Live Photos ---
+
+// Apple's maker note: "Apple iOS\0", two bytes, "MM", then a big-endian IFD with offsets from the note's start
+const APPLE_MAKER_NOTE_IFD_OFFSET = 14;
+const CONTENT_IDENTIFIER_TAG = 0x0011;
+
+/** The Live Photo id stored in the maker note of an iPhone photo. */
+export const readStillContentIdentifier = async (file: Blob): Promise<string | undefined> => {
+  try {
+    const output = await exifr.parse(file, { tiff: false, exif: true, makerNote: true });
+    const note: unknown = output?.MakerNote;
+    if (!(note instanceof Uint8Array)) return undefined;
+    if (new TextDecoder().decode(note.subarray(0, 9)) !== 'Apple iOS') return undefined;
+
+    const view = new DataView(note.buffer, note.byteOffset, note.byteLength);
+    const count = view.getUint16(APPLE_MAKER_NOTE_IFD_OFFSET);
+    for (let i = 0; i < count; i++) {
+      const entry = APPLE_MAKER_NOTE_IFD_OFFSET + 2 + i * 12;
+      if (entry + 12 > note.length) break;
+      if (view.getUint16(entry) !== CONTENT_IDENTIFIER_TAG) continue;
+      const length = view.getUint32(entry + 4);
+      const offset = length > 4 ? view.getUint32(entry + 8) : entry + 8;
+      return new TextDecoder().decode(note.subarray(offset, offset + length)).replace(/\0+$/, '') || undefined;
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export interface MediaGroup {
+  file: File;
+  motionFile?: File; // The clip of a Live Photo
+}
+
+const baseNameOf = (file: File) => file.name.replace(/\.[^/.]+$/, '').toLowerCase();
+
+/**
+ * Groups the halves of Live Photos picked together: a still (usually HEIC) and a MOV clip with the same
+ * content id, or, for copies that lost their metadata, the same file name. Other files stay on their own.
+ */
+export const pairLivePhotos = async (files: File[]): Promise<MediaGroup[]> => {
+  const clips = files.filter(f => getFileFormat(f) === 'mov');
+  if (clips.length === 0) return files.map(file => ({ file }));
+  const stills = files.filter(f => !isVideoFile(f));
+
+  const clipIds = await Promise.all(clips.map(clip => readQuickTimeMetadata(clip).then(m => m.contentIdentifier)));
+  const stillIds = await Promise.all(stills.map(still => isHeicFile(still) || getFileFormat(still) === 'jpeg'
+    ? readStillContentIdentifier(still)
+    : Promise.resolve(undefined)));
+
+  const unpaired = new Set(clips);
+  const motionFor = new Map<File, File>();
+  stills.forEach((still, i) => {
+    const clip = clips.find((c, j) => unpaired.has(c) && stillIds[i] && clipIds[j] === stillIds[i])
+      ?? clips.find((c, j) => unpaired.has(c) && !clipIds[j] && baseNameOf(c) === baseNameOf(still));
+    if (!clip) return;
+    motionFor.set(still, clip);
+    unpaired.delete(clip);
+  });
+  return files
+    .filter(f => !clips.includes(f) || unpaired.has(f))
+    .map(file => ({ file, motionFile: motionFor.get(file) }));
+};
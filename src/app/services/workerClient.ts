@@ -0,0 +1,48 @@
+// Page side of the app's Web Workers (the worker side is workers/serveRequests.ts).
+// Every request carries an id, and the reply to it carries the same id back.
+
+export type WorkerRequest<Payload> = Payload & { id: number };
+
+export type WorkerReply<Result> =
+  | { id: number; type: 'done'; result: Result }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Returns a function that hands a request to the worker and resolves with its result. The worker is started
+ * on the first request and serves every later one. If it cannot start or crashes, everything waiting on it
+ * fails with `crashMessage` (unless the browser gives a reason) and the next request starts a new worker.
+ */
+export const createWorkerClient = <Payload, Result>(createWorker: () => Worker, crashMessage: string) => {
+  let worker: Worker | null = null;
+  let lastRequestId = 0;
+  const pendingRequests = new Map<number, { resolve: (reply: WorkerReply<Result>) => void; reject: (err: Error) => void }>();
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = (event: MessageEvent<WorkerReply<Result>>) => {
+        const pending = pendingRequests.get(event.data.id);
+        pendingRequests.delete(event.data.id);
+        pending?.resolve(event.data);
+      };
+      worker.onerror = (event) => {
+        const error = new Error(event.message || crashMessage);
+        pendingRequests.forEach(pending => pending.reject(error));
+        pendingRequests.clear();
+        worker?.terminate();
+        worker = null;
+      };
+    }
+    return worker;
+  };
+
+  return async (payload: Payload): Promise<Result> => {
+    const id = ++lastRequestId;
+    const reply = await new Promise<WorkerReply<Result>>((resolve, reject) => {
+      pendingRequests.set(id, { resolve, reject });
+      getWorker().postMessage({ ...payload, id } satisfies WorkerRequest<Payload>);
+    });
+    if (reply.type === 'error') throw new Error(reply.message);
+    return reply.result;
+  };
+};
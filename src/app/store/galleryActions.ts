@@ -0,0 +1,638 @@
+import { galleryRepository, imageHost, deleteImage, getImageUrl } from '../services/backend';
+import { Photo, Album, PhotoWithChunk } from '../types';
+import { AlbumPhotosPolicy } from '../services/galleryRepository';
+import { ACTIVITY_LOG_LIMIT, DUPLICATE_SCAN_CONCURRENCY, OUTBOX_RETRY_MS, TRASH_RETENTION_DAYS } from '../config/galleryConfig';
+import { THUMBNAIL_SIZES } from '../config/imageConfig';
+import { compactStorage } from '../services/compaction';
+import { scanIntegrity, repairIssues, IntegrityReport, IntegrityIssueKind } from '../services/integrity';
+import { runMigrations, SCHEMA_VERSION } from '../services/migrations';
+import { exportGallery as buildGalleryArchive, planImport, applyImport, CollisionPolicy, ImportPlan } from '../services/archive';
+import { GalleryConflictError, OfflineError, isOfflineError } from '../services/errors';
+import { addToOutbox, readOutbox, removeFromOutbox } from '../services/offlineCache';
+import { getAlbumImageUrls, saveAlbumOffline, removeAlbumOffline } from '../services/offlineImages';
+import { groupDuplicates, hashImageUrl } from '../services/photoHashing';
+import { GalleryStore, EditOperation, HistoryEntry, QueueableOperation, isQueueableOperation } from './galleryStore';
+import { createUploadQueue } from './uploadQueue';
+import { createTakeoutImport } from './takeoutImport';
+import { selectPhotos, selectPhotosByAlbum, selectChunkLoadOrder, selectFailedChunkIds, selectAlbumChunkIds, selectAlbumsWithStats } from './selectors';
+
+/**
+ * Builds the mutation functions exposed by GalleryProvider.
+ * Every action reads the latest state from the store, so callers never act on a stale snapshot.
+ */
+export const createGalleryActions = (store: GalleryStore) => {
+  const { dispatch, getState } = store;
+
+  const findPhoto = (photoId: string) => getState().photosById[photoId];
+
+  // --- Chunk Loading ---
+  // Requests only mark chunks in the store; gallerySync attaches the listeners that load them.
+
+  const requestChunks = (chunkIds: string[]) => {
+    if (chunkIds.length > 0) dispatch({ type: 'chunksRequested', chunkIds });
+  };
+
+  // Resolves once every given chunk has loaded (or is no longer listed)
+  const waitForChunks = (chunkIds: string[]) => new Promise<void>((resolve, reject) => {
+    const check = () => {
+      const { chunkIds: listed, chunkStatus } = getState();
+      const pending = chunkIds.filter(id => listed.includes(id) && chunkStatus[id] !== 'loaded');
+      if (pending.some(id => chunkStatus[id] === 'failed')) {
+        unsubscribe();
+        reject(new Error('Failed to load photos.'));
+      } else if (pending.length === 0) {
+        unsubscribe();
+        resolve();
+      }
+    };
+    const unsubscribe = store.subscribe(check);
+    check();
+  });
+
+  /**
+   * Loads the next `count` chunks in date order, newest first. Chunks that failed are passed over,
+   * so one that keeps failing neither holds up older ones nor gets requested again and again.
+   */
+  const loadMoreChunks = (count = 1) => {
+    const { chunkStatus } = getState();
+    const next = selectChunkLoadOrder(getState()).filter(id => !chunkStatus[id]);
+    requestChunks(next.slice(0, count));
+  };
+
+  // Failed chunks are only requested again when the user asks
+  const retryFailedChunks = () => {
+    requestChunks(selectFailedChunkIds(getState()));
+  };
+
+  // Search and other whole-library views need everything
+  const loadAllChunks = () => {
+    const chunkIds = selectChunkLoadOrder(getState());
+    requestChunks(chunkIds);
+    return waitForChunks(chunkIds);
+  };
+
+  const loadAlbumChunks = (albumId: string) => {
+    const chunkIds = selectAlbumChunkIds(getState(), albumId);
+    requestChunks(chunkIds);
+    return waitForChunks(chunkIds);
+  };
+
+  // --- Writes ---
+  // Each applies one EditOperation to storage and the store. The actions below combine them and record
+  // the operations that reverse them, so they can be undone and redone.
+
+  // Photos touched by an older history entry (or a queued offline write) may sit in chunks that are no longer loaded
+  const findPhotos = async (photoIds: string[]) => {
+    if (photoIds.some(id => !findPhoto(id))) await loadAllChunks();
+    return photoIds.map(id => {
+      const photo = findPhoto(id);
+      if (!photo) throw new GalleryConflictError('Some of these photos were deleted in the meantime.');
+      return photo;
+    });
+  };
+
+  const writePhotoDetails = async (photoId: string, details: Partial<Photo>) => {
+    const [photo] = await findPhotos([photoId]);
+    await galleryRepository.updatePhoto(photoId, photo._chunkId, details);
+    // Album stats are derived from photos, so covers and counts follow automatically.
+    dispatch({ type: 'photoUpdated', photoId, details });
+  };
+
+  const movePhotos = async (moves: { photoId: string; albumId: string }[]) => {
+    const photos = await findPhotos(moves.map(m => m.photoId));
+    const byAlbum: Record<string, PhotoWithChunk[]> = {};
+    moves.forEach(({ albumId }, i) => {
+      if (!byAlbum[albumId]) byAlbum[albumId] = [];
+      byAlbum[albumId].push(photos[i]);
+    });
+    for (const [albumId, albumPhotos] of Object.entries(byAlbum)) {
+      await galleryRepository.updatePhotosAlbumId(albumPhotos.map(p => ({ photoId: p.id, chunkId: p._chunkId })), albumId);
+      albumPhotos.forEach(p => dispatch({ type: 'photoUpdated', photoId: p.id, details: { albumId } }));
+    }
+  };
+
+  // Soft delete: photos move to the trash and can be restored until they are purged
+  const trashPhotos = async (photoIds: string[]) => {
+    const photos = await findPhotos(photoIds);
+    for (const photo of photos) {
+      const trashed = await galleryRepository.trashPhoto(photo.id, photo._chunkId);
+      dispatch({ type: 'photoTrashed', trashed });
+    }
+  };
+
+  const restorePhotos = async (photos: Photo[]) => {
+    for (const photo of photos) {
+      const chunkId = await galleryRepository.restorePhoto(photo.id);
+      dispatch({ type: 'trashRemoved', photoIds: [photo.id] });
+      dispatch({ type: 'photosAdded', photos: [{ ...photo, _chunkId: chunkId }] });
+    }
+  };
+
+  const writeAlbumDetails = async (albumId: string, details: Partial<Album>) => {
+    await galleryRepository.updateAlbum(albumId, details);
+    dispatch({ type: 'albumUpdated', albumId, details });
+  };
+
+  const addAlbumRecord = async (album: Album) => {
+    await galleryRepository.addAlbum(album);
+    dispatch({ type: 'albumAdded', album });
+  };
+
+  // The album's photos are moved or trashed together with the album, so none are left pointing at it.
+  // Returns the operations that bring the album and its photos back.
+  const removeAlbum = async (albumId: string, policy: AlbumPhotosPolicy): Promise<EditOperation[]> => {
+    const album = getState().albumsById[albumId];
+    await loadAlbumChunks(albumId);
+    const albumPhotos = selectPhotosByAlbum(getState())[albumId] || [];
+    const trashed = await galleryRepository.deleteAlbum(
+      albumId,
+      albumPhotos.map(p => ({ photoId: p.id, chunkId: p._chunkId })),
+      policy
+    );
+
+    if (policy.action === 'move') {
+      // The live metadata listener brings in the Unsorted album if it had to be created
+      albumPhotos.forEach(p => dispatch({ type: 'photoUpdated', photoId: p.id, details: { albumId: policy.albumId } }));
+    } else {
+      trashed.forEach(record => dispatch({ type: 'photoTrashed', trashed: record }));
+    }
+    dispatch({ type: 'albumRemoved', albumId });
+
+    const photosBack: EditOperation = policy.action === 'move'
+      ? { type: 'movePhotos', moves: albumPhotos.map(p => ({ photoId: p.id, albumId: p.albumId })) }
+      : { type: 'restorePhotos', photos: trashed.map(t => t.photo) };
+    return album ? [{ type: 'addAlbum', album }, photosBack] : [photosBack];
+  };
+
+  const applyOperation = (op: EditOperation) => {
+    switch (op.type) {
+      case 'updatePhoto': return writePhotoDetails(op.photoId, op.details);
+      case 'movePhotos': return movePhotos(op.moves);
+      case 'trashPhotos': return trashPhotos(op.photoIds);
+      case 'restorePhotos': return restorePhotos(op.photos);
+      case 'updateAlbum': return writeAlbumDetails(op.albumId, op.details);
+      case 'addAlbum': return addAlbumRecord(op.album);
+      case 'deleteAlbum': return removeAlbum(op.albumId, op.policy);
+    }
+  };
+
+  // --- Offline outbox ---
+  // While offline, queueable writes are stored in the outbox and shown right away; the rest are refused.
+  // The outbox is sent in order once the connection is back, and every write waits for it to empty first.
+
+  let sending: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const queueOperation = async (op: QueueableOperation) => {
+    const entry = await addToOutbox(op);
+    dispatch({ type: 'writeQueued', entry });
+  };
+
+  const sendQueuedWrites = async () => {
+    let rejected = 0;
+    dispatch({ type: 'syncStarted' });
+    try {
+      // Writes queued while sending join the end of the line
+      while (getState().sync.online) {
+        const [entry] = getState().sync.outbox;
+        if (!entry) break;
+        try {
+          await applyOperation(entry.write);
+        } catch (err) {
+          // Still unreachable: keep the write and try again later
+          if (isOfflineError(err)) {
+            scheduleRetry();
+            break;
+          }
+          // The server will never accept it (e.g. the photo was deleted elsewhere); its listeners already show why
+          console.error('Dropped a queued write:', entry.write, err);
+          rejected++;
+        }
+        await removeFromOutbox(entry.id);
+        dispatch({ type: 'writeSent', entryId: entry.id });
+      }
+    } finally {
+      dispatch({
+        type: 'syncFinished',
+        error: rejected > 0 ? `${rejected} ${rejected === 1 ? 'change' : 'changes'} made offline could not be saved.` : null,
+      });
+    }
+  };
+
+  // Sends the outbox, or joins the send already in progress
+  const flushOutbox = (): Promise<void> => {
+    if (!sending) {
+      sending = sendQueuedWrites().finally(() => {
+        sending = null;
+      });
+    }
+    return sending;
+  };
+
+  const scheduleRetry = () => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => flushOutbox().catch(console.error), OUTBOX_RETRY_MS);
+  };
+
+  // Writes that cannot be queued need the connection, and must not overtake the queued ones
+  const ensureCanWrite = async () => {
+    if (!getState().sync.online) throw new OfflineError();
+    if (getState().sync.outbox.length > 0) await flushOutbox();
+  };
+
+  // Editor writes go through here, so queued writes always reach storage before the ones made after them
+  const runOperation = async (op: EditOperation) => {
+    const { online, outbox } = getState().sync;
+    if (isQueueableOperation(op) && (!online || outbox.length > 0)) {
+      await queueOperation(op);
+      if (online) flushOutbox().catch(console.error);
+      return;
+    }
+    await ensureCanWrite();
+
+    try {
+      return await applyOperation(op);
+    } catch (err) {
+      // The browser thinks it is online but the server is out of reach
+      if (!isQueueableOperation(op) || !isOfflineError(err)) throw err;
+      await queueOperation(op);
+      scheduleRetry();
+    }
+  };
+
+  /**
+   * Tracks the browser's connection and restores the outbox left by an earlier session.
+   * Only needed for backends that live on a server. Returns a function that stops tracking.
+   */
+  const startOfflineSync = () => {
+    const handleConnectionChange = () => {
+      dispatch({ type: 'connectionChanged', online: navigator.onLine });
+      if (navigator.onLine) flushOutbox().catch(console.error);
+    };
+
+    dispatch({ type: 'connectionChanged', online: navigator.onLine });
+    readOutbox<QueueableOperation>()
+      .then(entries => {
+        if (entries.length === 0) return;
+        dispatch({ type: 'outboxLoaded', entries });
+        if (navigator.onLine) return flushOutbox();
+      })
+      .catch(err => console.error('Failed to restore the offline outbox:', err));
+
+    window.addEventListener('online', handleConnectionChange);
+    window.addEventListener('offline', handleConnectionChange);
+    return () => {
+      window.removeEventListener('online', handleConnectionChange);
+      window.removeEventListener('offline', handleConnectionChange);
+      clearTimeout(retryTimer);
+    };
+  };
+
+  // --- History ---
+
+  let lastHistoryId = 0;
+  let isReplaying = false;
+
+  const record = (entry: Omit<HistoryEntry, 'id'>) => {
+    dispatch({ type: 'historyRecorded', entry: { ...entry, id: ++lastHistoryId } });
+  };
+
+  // Values of `keys` before an update, so the update can be reversed. Missing fields stay undefined, which clears them.
+  const previousValues = <T extends object>(current: T, keys: string[]): Partial<T> =>
+    Object.fromEntries(keys.map(key => [key, (current as Record<string, unknown>)[key]])) as Partial<T>;
+
+  // Resolves with the entry that was replayed, or null when there is nothing to replay.
+  // With `entryId`, only that entry is replayed, and only while it is still next in line.
+  const replay = async (direction: 'undo' | 'redo', entryId?: number): Promise<HistoryEntry | null> => {
+    const { past, future } = getState().history;
+    const entry = direction === 'undo' ? past[past.length - 1] : future[future.length - 1];
+    if (!entry || isReplaying || (entryId !== undefined && entry.id !== entryId)) return null;
+
+    isReplaying = true;
+    try {
+      for (const op of entry[direction]) await runOperation(op);
+      dispatch({ type: direction === 'undo' ? 'historyUndone' : 'historyRedone' });
+      return entry;
+    } catch (err) {
+      console.error(err);
+      // Someone else's change got in the way, or the entry was only partly replayed; either way it cannot be trusted again
+      dispatch({ type: 'historyDropped', entryId: entry.id });
+      throw err;
+    } finally {
+      isReplaying = false;
+    }
+  };
+
+  const undo = (entryId?: number) => replay('undo', entryId);
+  const redo = () => replay('redo');
+
+  // --- Editor actions ---
+
+  const updatePhotoDetails = async (photoId: string, details: Partial<Pick<Photo, 'title' | 'albumId'>>) => {
+    try {
+      const photo = findPhoto(photoId);
+      if (!photo) throw new Error("Photo not found in local state");
+      const previous = previousValues(photo, Object.keys(details));
+
+      await runOperation({ type: 'updatePhoto', photoId, details });
+      record({
+        label: details.albumId !== undefined && details.albumId !== photo.albumId ? 'Move photo' : 'Edit photo',
+        destructive: false,
+        undo: [{ type: 'updatePhoto', photoId, details: previous }],
+        redo: [{ type: 'updatePhoto', photoId, details }],
+      });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const deletePhotoItems = async (photoIds: string[]) => {
+    try {
+      const photos = photoIds.map(photoId => {
+        const photoToDelete = findPhoto(photoId);
+        if (!photoToDelete) throw new Error("Photo not found in local state");
+        const { _chunkId, ...photo } = photoToDelete;
+        return photo;
+      });
+
+      await runOperation({ type: 'trashPhotos', photoIds });
+      record({
+        label: photoIds.length === 1 ? 'Delete photo' : `Delete ${photoIds.length} photos`,
+        destructive: true,
+        undo: [{ type: 'restorePhotos', photos }],
+        redo: [{ type: 'trashPhotos', photoIds }],
+      });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const deletePhotoItem = (photoId: string) => deletePhotoItems([photoId]);
+
+  // --- Trash ---
+
+  const loadTrash = async () => {
+    try {
+      const trash = await galleryRepository.getTrash();
+      trash.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+      dispatch({ type: 'trashLoaded', trash });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const restoreTrashedPhoto = async (photoId: string, albumId?: string) => {
+    try {
+      const trashed = getState().trash?.find(t => t.photo.id === photoId);
+      await ensureCanWrite();
+      const chunkId = await galleryRepository.restorePhoto(photoId, albumId);
+      dispatch({ type: 'trashRemoved', photoIds: [photoId] });
+      if (trashed) {
+        const photo = albumId ? { ...trashed.photo, albumId } : trashed.photo;
+        dispatch({ type: 'photosAdded', photos: [{ ...photo, _chunkId: chunkId }] });
+      }
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // The photo's file on the image host, and the clip of a Live Photo
+  const deleteHostedFiles = (photo: Photo) => Promise.all([photo.url, photo.videoUrl].filter(Boolean).map(url =>
+    deleteImage(url!).catch(err => console.warn('Failed to delete image file:', err))
+  ));
+
+  const purgeTrashedPhoto = async (photoId: string) => {
+    try {
+      const trashed = getState().trash?.find(t => t.photo.id === photoId);
+      await ensureCanWrite();
+      // Remove the record first: an image without a record is harmless, a record without an image is not
+      await galleryRepository.purgePhoto(photoId);
+      dispatch({ type: 'trashRemoved', photoIds: [photoId] });
+      if (trashed) await deleteHostedFiles(trashed.photo);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const purgeExpiredTrash = async () => {
+    try {
+      const trash = getState().trash ?? await galleryRepository.getTrash();
+      const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      const expired = trash.filter(t => new Date(t.deletedAt).getTime() < cutoff);
+
+      for (const { photo } of expired) {
+        await galleryRepository.purgePhoto(photo.id);
+        await deleteHostedFiles(photo);
+      }
+      if (expired.length > 0) {
+        dispatch({ type: 'trashRemoved', photoIds: expired.map(t => t.photo.id) });
+      }
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const updateAlbum = async (albumId: string, details: Partial<Album>, oldTheme?: string) => {
+    try {
+      const album = getState().albumsById[albumId];
+      const previous = album ? previousValues(album, Object.keys(details)) : null;
+
+      // Update the primary album's details.
+      await runOperation({ type: 'updateAlbum', albumId, details });
+      if (previous) {
+        record({
+          label: 'coverPhotoId' in details ? 'Change album cover' : 'Edit album',
+          destructive: false,
+          undo: [{ type: 'updateAlbum', albumId, details: previous }],
+          redo: [{ type: 'updateAlbum', albumId, details }],
+        });
+      }
+    } catch (err) {
+      console.error("Failed to update album:", err);
+      throw err;
+    }
+  };
+
+  const deleteAlbumItem = async (albumId: string, policy: AlbumPhotosPolicy) => {
+    try {
+      await ensureCanWrite();
+      const undoOps = await removeAlbum(albumId, policy);
+      record({ label: 'Delete album', destructive: true, undo: undoOps, redo: [{ type: 'deleteAlbum', albumId, policy }] });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const transferAlbumPhotos = async (sourceAlbumId: string, targetAlbumId: string, deleteSource: boolean) => {
+    try {
+      if (deleteSource) {
+        const policy: AlbumPhotosPolicy = { action: 'move', albumId: targetAlbumId };
+        await ensureCanWrite();
+        const undoOps = await removeAlbum(sourceAlbumId, policy);
+        record({ label: 'Transfer photos', destructive: true, undo: undoOps, redo: [{ type: 'deleteAlbum', albumId: sourceAlbumId, policy }] });
+        return;
+      }
+
+      await loadAlbumChunks(sourceAlbumId);
+      // Includes orphaned photos when transferring out of Unsorted
+      const photosToTransfer = selectPhotosByAlbum(getState())[sourceAlbumId] || [];
+
+      if (photosToTransfer.length > 0) {
+        const moves = photosToTransfer.map(p => ({ photoId: p.id, albumId: targetAlbumId }));
+        await runOperation({ type: 'movePhotos', moves });
+        record({
+          label: 'Transfer photos',
+          destructive: true,
+          // Each photo goes back to the album it came from, which for orphaned photos is not the source album
+          undo: [{ type: 'movePhotos', moves: photosToTransfer.map(p => ({ photoId: p.id, albumId: p.albumId })) }],
+          redo: [{ type: 'movePhotos', moves }],
+        });
+      }
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const createAlbum = async (name: string, description: string, theme: string) => {
+    try {
+      const newAlbum: Album = { id: `album_${Date.now()}`, name, description, theme, createdAt: new Date().toISOString() };
+      await runOperation({ type: 'addAlbum', album: newAlbum });
+      return newAlbum.id;
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // --- Uploads ---
+  // Files wait in a persistent queue and are uploaded in the background (see store/uploadQueue.ts)
+
+  // Replaced duplicates go to the trash without an undo entry, as the upload itself cannot be undone
+  const uploads = createUploadQueue(store, {
+    ensureCanWrite,
+    trashPhotos: (photoIds) => runOperation({ type: 'trashPhotos', photoIds }).then(() => undefined),
+  });
+
+  // Google Takeout exports go through the same queue (see store/takeoutImport.ts)
+  const takeout = createTakeoutImport(store, { createAlbum, queueUploads: uploads.queueUploads });
+
+  // --- Maintenance ---
+
+  // The live listeners pick up the rewritten chunks, so the store needs no direct update
+  const optimizeStorage = async () => {
+    try {
+      return await compactStorage(galleryRepository);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const checkIntegrity = async () => {
+    try {
+      return await scanIntegrity(galleryRepository);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const repairIntegrityIssues = async (report: IntegrityReport, kind: IntegrityIssueKind) => {
+    try {
+      await repairIssues(galleryRepository, report, kind);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // Photos uploaded before hashes were kept are hashed from their grid thumbnail first (often cached already),
+  // and keep the hash
+  const findDuplicatePhotos = async (onProgress?: (completed: number, total: number) => void) => {
+    try {
+      await loadAllChunks();
+      const unhashed = selectPhotos(getState()).filter(p => !p.perceptualHash);
+      const unhashedByChunk: Record<string, PhotoWithChunk[]> = {};
+      unhashed.forEach(photo => {
+        if (!unhashedByChunk[photo._chunkId]) unhashedByChunk[photo._chunkId] = [];
+        unhashedByChunk[photo._chunkId].push(photo);
+      });
+
+      // Kept for the grouping below even when saving them fails
+      const hashes: Record<string, string> = {};
+      let completed = 0;
+      for (const [chunkId, photos] of Object.entries(unhashedByChunk)) {
+        const remaining = [...photos];
+        const hashNext = async (): Promise<void> => {
+          const photo = remaining.shift();
+          if (!photo) return;
+          try {
+            const perceptualHash = await hashImageUrl(getImageUrl(photo.url, THUMBNAIL_SIZES.HOME_GRID));
+            if (perceptualHash) hashes[photo.id] = perceptualHash;
+          } catch (err) {
+            console.warn(`Failed to hash ${photo.url}:`, err);
+          }
+          onProgress?.(++completed, unhashed.length);
+          return hashNext();
+        };
+        await Promise.all(Array.from({ length: DUPLICATE_SCAN_CONCURRENCY }, hashNext));
+
+        // One write per chunk rather than one per photo; hashes are not edits, so they stay out of the undo history
+        const updates = photos.filter(p => hashes[p.id]).map(p => ({ photoId: p.id, chunkId, details: { perceptualHash: hashes[p.id] } }));
+        if (updates.length === 0) continue;
+        try {
+          await ensureCanWrite();
+          await galleryRepository.updatePhotos(updates);
+          updates.forEach(({ photoId, details }) => dispatch({ type: 'photoUpdated', photoId, details }));
+        } catch (err) {
+          console.warn(`Failed to save the hashes of chunk ${chunkId}:`, err);
+        }
+      }
+      return groupDuplicates(selectPhotos(getState()).map(p => hashes[p.id] ? { ...p, perceptualHash: hashes[p.id] } : p));
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // With dryRun, only reports what the pending migrations would change
+  const migrateData = async (dryRun: boolean) => {
+    try {
+      return await runMigrations(galleryRepository, { dryRun });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // Run when an editor opens the gallery, so stored data catches up with the current schema
+  const runPendingMigrations = async () => {
+    if (getState().schemaVersion >= SCHEMA_VERSION) return;
+    await migrateData(false);
+  };
+
+  // --- Offline albums ---
+
+  // Downloads the album's images into the service worker's cache and keeps them there
+  const makeAlbumAvailableOffline = async (albumId: string, onProgress?: (completed: number, total: number) => void) => {
+    try {
+      await loadAlbumChunks(albumId);
+      const photos = selectPhotosByAlbum(getState())[albumId] || [];
+      const album = selectAlbumsWithStats(getState()).find(a => a.id === albumId);
+      return await saveAlbumOffline(albumId, getAlbumImageUrls(photos, album?.coverPhotoUrl), onProgress);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const removeAlbumFromOffline = async (albumId: string) => {
+    try {
+      await removeAlbumOffline(albumId);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // --- Activity ---
+
+  const loadActivity = async () => {
+    try {
+      return await galleryRepository.getAuditLog(ACTIVITY_LOG_LIMIT);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const exportGallery = async (includeImages: boolean, onProgress?: (completed: number, total: number) => void) => {
+    try {
+      return await buildGalleryArchive(galleryRepository, { includeImages, onProgress });
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // Dry run: reads the archive and reports what importing it would change
+  const previewImport = async (file: File, policy: CollisionPolicy) => {
+    try {
+      return await planImport(galleryRepository, file, policy);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const importGallery = async (plan: ImportPlan, onProgress?: (completed: number, total: number) => void) => {
+    try {
+      await applyImport(galleryRepository, imageHost, plan, onProgress);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  return {
+    loadMoreChunks, retryFailedChunks, loadAllChunks, loadAlbumChunks,
+    ...uploads, createAlbum, updatePhotoDetails, deletePhotoItem, deletePhotoItems,
+    updateAlbum, deleteAlbumItem, transferAlbumPhotos,
+    undo, redo,
+    startOfflineSync, flushOutbox,
+    loadTrash, restoreTrashedPhoto, purgeTrashedPhoto, purgeExpiredTrash,
+    optimizeStorage, checkIntegrity, repairIntegrityIssues, findDuplicatePhotos, migrateData, runPendingMigrations,
+    exportGallery, previewImport, importGallery, ...takeout,
+    loadActivity, makeAlbumAvailableOffline, removeAlbumFromOffline
+  };
+};
+
+export type GalleryActions = ReturnType<typeof createGalleryActions>;
@@ -0,0 +1,462 @@
+import { Photo, Album, PhotoWithChunk, TrashedPhoto } from '../types';
+import { AlbumPhotosPolicy, ChunkSummary, GalleryMetadata } from '../services/galleryRepository';
+import { SCHEMA_VERSION } from '../services/migrations';
+import { QuarantinedRecord } from '../services/validation';
+import { OutboxEntry } from '../services/offlineCache';
+import { UploadItem } from '../services/uploadStorage';
+
+// An export being read into the upload queue (see store/takeoutImport.ts). Not kept across reloads:
+// the zip it reads from is gone with the page.
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  status: 'reading' | 'done' | 'failed';
+  completed: number; // Files read from the export so far
+  total: number;
+  errors: { fileName: string; message: string }[]; // Files left out or imported without their details
+  error?: string; // Why the import stopped, when it failed
+}
+
+// Chunks are loaded on demand; a chunk without a status has not been requested yet
+export type ChunkLoadStatus = 'loading' | 'loaded' | 'failed';
+
+// A single write, described as data so it can be stored in the undo history and replayed
+export type EditOperation =
+  | { type: 'updatePhoto'; photoId: string; details: Partial<Photo> }
+  | { type: 'movePhotos'; moves: { photoId: string; albumId: string }[] }
+  | { type: 'trashPhotos'; photoIds: string[] }
+  | { type: 'restorePhotos'; photos: Photo[] }
+  | { type: 'updateAlbum'; albumId: string; details: Partial<Album> }
+  | { type: 'addAlbum'; album: Album }
+  | { type: 'deleteAlbum'; albumId: string; policy: AlbumPhotosPolicy };
+
+// An editor action together with the operations that reverse it and the ones that apply it again
+export interface HistoryEntry {
+  id: number; // Increases with every recorded action
+  label: string; // e.g. "Delete photo", shown in the undo toast
+  destructive: boolean; // Deletions and moves get an Undo toast; small edits rely on the keyboard shortcuts
+  undo: EditOperation[];
+  redo: EditOperation[];
+}
+
+// Bounds memory; older actions simply can no longer be undone
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Writes that can wait in the outbox while offline. Each only touches fields the editor can see change,
+// so it can be shown right away and laid over the server's data until it has been sent.
+export type QueueableOperation = Extract<EditOperation, { type: 'updatePhoto' | 'movePhotos' | 'addAlbum' | 'updateAlbum' }>;
+
+export const isQueueableOperation = (op: EditOperation): op is QueueableOperation =>
+  op.type === 'updatePhoto' || op.type === 'movePhotos' || op.type === 'addAlbum' || op.type === 'updateAlbum';
+
+export interface SyncStatus {
+  online: boolean;
+  outbox: OutboxEntry<QueueableOperation>[]; // Oldest first
+  syncing: boolean; // The outbox is being sent
+  error: string | null; // Set when queued writes were rejected by the server and dropped
+}
+
+// Normalized gallery state shared by every view through GalleryProvider.
+export interface GalleryState {
+  photosById: Record<string, PhotoWithChunk>;
+  photoIds: string[]; // Newest upload first
+  albumsById: Record<string, Album>;
+  albumIds: string[];
+  chunkIds: string[]; // As listed in metadata, oldest chunk first
+  chunkIndex: Record<string, ChunkSummary>;
+  chunkStatus: Record<string, ChunkLoadStatus>;
+  schemaVersion: number; // Of the stored data; records in the state are always upgraded to the current version
+  quarantine: Record<string, QuarantinedRecord[]>; // Records that failed validation, by the chunk (or 'metadata') they came from
+  trash: TrashedPhoto[] | null; // Loaded on demand by the Trash view
+  history: { past: HistoryEntry[]; future: HistoryEntry[] }; // Undo and redo stacks, most recent last
+  sync: SyncStatus;
+  uploads: UploadItem[]; // The upload queue, in the order files were queued; finished uploads stay until cleared
+  imports: ImportJob[]; // Shown with the upload queue until dismissed
+  loading: boolean; // True until the first chunk is in
+  error: string | null;
+}
+
+export type GalleryAction =
+  | { type: 'loadStarted' }
+  | { type: 'loadSucceeded'; photos: PhotoWithChunk[]; albums: Album[] }
+  | { type: 'loadFailed'; error: string }
+  | { type: 'metadataReceived'; metadata: GalleryMetadata }
+  | { type: 'chunksRequested'; chunkIds: string[] }
+  | { type: 'chunkReceived'; chunkId: string; photos: PhotoWithChunk[] }
+  | { type: 'chunkFailed'; chunkId: string; error: string }
+  | { type: 'chunkRemoved'; chunkId: string }
+  | { type: 'recordsQuarantined'; source: string; records: QuarantinedRecord[] }
+  | { type: 'photosAdded'; photos: PhotoWithChunk[] }
+  | { type: 'photoUpdated'; photoId: string; details: Partial<Photo> }
+  | { type: 'photosRemoved'; photoIds: string[] }
+  | { type: 'albumAdded'; album: Album }
+  | { type: 'albumUpdated'; albumId: string; details: Partial<Album> }
+  | { type: 'albumRemoved'; albumId: string }
+  | { type: 'trashLoaded'; trash: TrashedPhoto[] }
+  | { type: 'photoTrashed'; trashed: TrashedPhoto }
+  | { type: 'trashRemoved'; photoIds: string[] }
+  | { type: 'historyRecorded'; entry: HistoryEntry }
+  | { type: 'historyUndone' }
+  | { type: 'historyRedone' }
+  | { type: 'historyDropped'; entryId: number }
+  | { type: 'connectionChanged'; online: boolean }
+  | { type: 'outboxLoaded'; entries: OutboxEntry<QueueableOperation>[] }
+  | { type: 'writeQueued'; entry: OutboxEntry<QueueableOperation> }
+  | { type: 'writeSent'; entryId: number }
+  | { type: 'syncStarted' }
+  | { type: 'syncFinished'; error: string | null }
+  | { type: 'uploadsLoaded'; items: UploadItem[] }
+  | { type: 'uploadsQueued'; items: UploadItem[] }
+  | { type: 'uploadChanged'; id: string; changes: Partial<UploadItem> }
+  | { type: 'uploadsRemoved'; ids: string[] }
+  | { type: 'importStarted'; job: ImportJob }
+  | { type: 'importChanged'; id: string; changes: Partial<ImportJob> }
+  | { type: 'importsRemoved'; ids: string[] };
+
+export const initialGalleryState: GalleryState = {
+  photosById: {},
+  photoIds: [],
+  albumsById: {},
+  albumIds: [],
+  chunkIds: [],
+  chunkIndex: {},
+  chunkStatus: {},
+  schemaVersion: SCHEMA_VERSION,
+  quarantine: {},
+  trash: null,
+  history: { past: [], future: [] },
+  sync: { online: true, outbox: [], syncing: false, error: null },
+  uploads: [],
+  imports: [],
+  loading: true,
+  error: null,
+};
+
+const byUploadDateDesc = (a: Photo, b: Photo) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+const indexById = <T extends { id: string }>(items: T[]): Record<string, T> => {
+  return items.reduce((acc, item) => {
+    acc[item.id] = item;
+    return acc;
+  }, {} as Record<string, T>);
+};
+
+const reduceGallery = (state: GalleryState, action: GalleryAction): GalleryState => {
+  switch (action.type) {
+    case 'loadStarted':
+      return { ...state, loading: true, error: null };
+
+    case 'loadSucceeded': {
+      const photos = [...action.photos].sort(byUploadDateDesc);
+      return {
+        ...state,
+        photosById: indexById(photos),
+        photoIds: photos.map(p => p.id),
+        albumsById: indexById(action.albums),
+        albumIds: action.albums.map(a => a.id),
+        // A full load leaves every chunk it read in place, so the live listeners pick them all up
+        chunkStatus: photos.reduce((acc, photo) => {
+          acc[photo._chunkId] = 'loaded';
+          return acc;
+        }, { ...state.chunkStatus }),
+        loading: false,
+        error: null,
+      };
+    }
+
+    case 'loadFailed':
+      return { ...state, loading: false, error: action.error };
+
+    case 'metadataReceived': {
+      const { albums, photoChunkIds, chunkIndex = {}, schemaVersion = 0 } = action.metadata;
+      return {
+        ...state,
+        albumsById: indexById(albums),
+        albumIds: albums.map(a => a.id),
+        chunkIds: photoChunkIds,
+        chunkIndex,
+        schemaVersion,
+        // An empty gallery has no chunk to wait for
+        loading: photoChunkIds.length === 0 ? false : state.loading,
+      };
+    }
+
+    case 'chunksRequested': {
+      const toRequest = action.chunkIds.filter(id => state.chunkStatus[id] !== 'loading' && state.chunkStatus[id] !== 'loaded');
+      if (toRequest.length === 0) return state;
+      const chunkStatus = { ...state.chunkStatus };
+      toRequest.forEach(id => {
+        chunkStatus[id] = 'loading';
+      });
+      return { ...state, chunkStatus };
+    }
+
+    case 'chunkFailed':
+      return {
+        ...state,
+        chunkStatus: { ...state.chunkStatus, [action.chunkId]: 'failed' },
+        // Only a failure before anything rendered takes over the page
+        loading: false,
+        error: state.loading ? action.error : state.error,
+      };
+
+    case 'chunkReceived':
+    case 'chunkRemoved': {
+      // Replace everything previously loaded from this chunk with the chunk's current contents
+      const incoming = action.type === 'chunkReceived' ? action.photos : [];
+      const photosById = { ...state.photosById };
+      Object.values(photosById).forEach(photo => {
+        if (photo._chunkId === action.chunkId) delete photosById[photo.id];
+      });
+      incoming.forEach(photo => {
+        photosById[photo.id] = photo;
+      });
+      const chunkStatus = { ...state.chunkStatus };
+      const quarantine = { ...state.quarantine };
+      if (action.type === 'chunkReceived') {
+        chunkStatus[action.chunkId] = 'loaded';
+      } else {
+        delete chunkStatus[action.chunkId];
+        delete quarantine[action.chunkId];
+      }
+      return {
+        ...state,
+        photosById,
+        photoIds: Object.values(photosById).sort(byUploadDateDesc).map(p => p.id),
+        chunkStatus,
+        quarantine,
+        loading: action.type === 'chunkReceived' ? false : state.loading,
+      };
+    }
+
+    case 'recordsQuarantined': {
+      // Each report replaces the previous one for the same source
+      if (action.records.length === 0 && !state.quarantine[action.source]) return state;
+      const quarantine = { ...state.quarantine, [action.source]: action.records };
+      if (action.records.length === 0) delete quarantine[action.source];
+      return { ...state, quarantine };
+    }
+
+    case 'photosAdded': {
+      const newIds = action.photos.map(p => p.id).filter(id => !state.photosById[id]);
+      return {
+        ...state,
+        photosById: { ...state.photosById, ...indexById(action.photos) },
+        photoIds: [...newIds, ...state.photoIds],
+      };
+    }
+
+    case 'photoUpdated': {
+      const existing = state.photosById[action.photoId];
+      if (!existing) return state;
+      return {
+        ...state,
+        photosById: { ...state.photosById, [action.photoId]: { ...existing, ...action.details } },
+      };
+    }
+
+    case 'photosRemoved': {
+      const removed = new Set(action.photoIds);
+      const photosById = { ...state.photosById };
+      action.photoIds.forEach(id => delete photosById[id]);
+      return {
+        ...state,
+        photosById,
+        photoIds: state.photoIds.filter(id => !removed.has(id)),
+      };
+    }
+
+    case 'albumAdded':
+      return {
+        ...state,
+        albumsById: { ...state.albumsById, [action.album.id]: action.album },
+        albumIds: state.albumsById[action.album.id] ? state.albumIds : [...state.albumIds, action.album.id],
+      };
+
+    case 'albumUpdated': {
+      const existing = state.albumsById[action.albumId];
+      if (!existing) return state;
+      return {
+        ...state,
+        albumsById: { ...state.albumsById, [action.albumId]: { ...existing, ...action.details } },
+      };
+    }
+
+    case 'albumRemoved': {
+      const albumsById = { ...state.albumsById };
+      delete albumsById[action.albumId];
+      return {
+        ...state,
+        albumsById,
+        albumIds: state.albumIds.filter(id => id !== action.albumId),
+      };
+    }
+
+    case 'trashLoaded':
+      return { ...state, trash: action.trash };
+
+    case 'photoTrashed': {
+      const photosById = { ...state.photosById };
+      delete photosById[action.trashed.photo.id];
+      return {
+        ...state,
+        photosById,
+        photoIds: state.photoIds.filter(id => id !== action.trashed.photo.id),
+        // Only keep the trash list current once it has been loaded
+        trash: state.trash ? [action.trashed, ...state.trash] : state.trash,
+      };
+    }
+
+    case 'trashRemoved': {
+      if (!state.trash) return state;
+      const removed = new Set(action.photoIds);
+      return { ...state, trash: state.trash.filter(t => !removed.has(t.photo.id)) };
+    }
+
+    case 'historyRecorded':
+      // A new action starts a new branch, so whatever was undone can no longer be redone
+      return {
+        ...state,
+        history: { past: [...state.history.past, action.entry].slice(-MAX_HISTORY_ENTRIES), future: [] },
+      };
+
+    case 'historyUndone': {
+      const entry = state.history.past[state.history.past.length - 1];
+      if (!entry) return state;
+      return {
+        ...state,
+        history: { past: state.history.past.slice(0, -1), future: [...state.history.future, entry] },
+      };
+    }
+
+    case 'historyRedone': {
+      const entry = state.history.future[state.history.future.length - 1];
+      if (!entry) return state;
+      return {
+        ...state,
+        history: { past: [...state.history.past, entry], future: state.history.future.slice(0, -1) },
+      };
+    }
+
+    case 'historyDropped':
+      return {
+        ...state,
+        history: {
+          past: state.history.past.filter(e => e.id !== action.entryId),
+          future: state.history.future.filter(e => e.id !== action.entryId),
+        },
+      };
+
+    case 'connectionChanged':
+      return { ...state, sync: { ...state.sync, online: action.online } };
+
+    case 'outboxLoaded':
+      return applyQueuedWrites({ ...state, sync: { ...state.sync, outbox: action.entries } }, action.entries);
+
+    case 'writeQueued':
+      return applyQueuedWrites(
+        { ...state, sync: { ...state.sync, outbox: [...state.sync.outbox, action.entry] } },
+        [action.entry]
+      );
+
+    // The store already shows the write; the next snapshot from the server confirms (or corrects) it
+    case 'writeSent':
+      return { ...state, sync: { ...state.sync, outbox: state.sync.outbox.filter(e => e.id !== action.entryId) } };
+
+    case 'syncStarted':
+      return { ...state, sync: { ...state.sync, syncing: true, error: null } };
+
+    case 'syncFinished':
+      return { ...state, sync: { ...state.sync, syncing: false, error: action.error } };
+
+    // Uploads already in the queue are newer than their stored copy
+    case 'uploadsLoaded': {
+      const known = new Set(state.uploads.map(u => u.id));
+      const restored = action.items.filter(u => !known.has(u.id));
+      return restored.length > 0 ? { ...state, uploads: [...restored, ...state.uploads] } : state;
+    }
+
+    case 'uploadsQueued':
+      return { ...state, uploads: [...state.uploads, ...action.items] };
+
+    case 'uploadChanged':
+      if (!state.uploads.some(u => u.id === action.id)) return state;
+      return { ...state, uploads: state.uploads.map(u => u.id === action.id ? { ...u, ...action.changes } : u) };
+
+    case 'uploadsRemoved': {
+      const removed = new Set(action.ids);
+      return { ...state, uploads: state.uploads.filter(u => !removed.has(u.id)) };
+    }
+
+    case 'importStarted':
+      return { ...state, imports: [...state.imports, action.job] };
+
+    case 'importChanged':
+      if (!state.imports.some(i => i.id === action.id)) return state;
+      return { ...state, imports: state.imports.map(i => i.id === action.id ? { ...i, ...action.changes } : i) };
+
+    case 'importsRemoved': {
+      const removed = new Set(action.ids);
+      return { ...state, imports: state.imports.filter(i => !removed.has(i.id)) };
+    }
+
+    default:
+      return state;
+  }
+};
+
+// Shows queued writes in the store as if they had already been made
+const applyQueuedWrites = (state: GalleryState, entries: OutboxEntry<QueueableOperation>[]): GalleryState =>
+  entries.reduce((current, { write }) => {
+    switch (write.type) {
+      case 'updatePhoto':
+        return reduceGallery(current, { type: 'photoUpdated', photoId: write.photoId, details: write.details });
+      case 'movePhotos':
+        return write.moves.reduce(
+          (next, { photoId, albumId }) => reduceGallery(next, { type: 'photoUpdated', photoId, details: { albumId } }),
+          current
+        );
+      case 'addAlbum':
+        return reduceGallery(current, { type: 'albumAdded', album: write.album });
+      case 'updateAlbum':
+        return reduceGallery(current, { type: 'albumUpdated', albumId: write.albumId, details: write.details });
+    }
+  }, state);
+
+export const galleryReducer = (state: GalleryState, action: GalleryAction): GalleryState => {
+  const nextState = reduceGallery(state, action);
+  // Snapshots from the server (or the offline cache) do not include writes still waiting in the outbox
+  const isSnapshot = action.type === 'metadataReceived' || action.type === 'chunkReceived' || action.type === 'loadSucceeded';
+  return isSnapshot && nextState.sync.outbox.length > 0 ? applyQueuedWrites(nextState, nextState.sync.outbox) : nextState;
+};
+
+export interface GalleryStore {
+  getState: () => GalleryState;
+  dispatch: (action: GalleryAction) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Creates a minimal external store around galleryReducer.
+ * Components read it through useSyncExternalStore so they only re-render when the slice they select changes.
+ */
+export const createGalleryStore = (preloadedState: GalleryState = initialGalleryState): GalleryStore => {
+  let state = preloadedState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch: (action) => {
+      const nextState = galleryReducer(state, action);
+      if (nextState === state) return;
+      state = nextState;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,127 @@
+import { GalleryRepository, Unsubscribe } from '../services/galleryRepository';
+import { GalleryStore } from './galleryStore';
+import { selectChunkLoadOrder } from './selectors';
+import { parseChunk, parseMetadata, METADATA_SOURCE } from '../services/validation';
+import { cacheChunk, cacheMetadata, readCachedGallery, uncacheChunk } from '../services/offlineCache';
+
+interface GallerySyncOptions {
+  // Keep what the listeners read in the offline cache, and show the cached copy until the server answers
+  offlineCache?: boolean;
+}
+
+const warnCacheFailure = (err: unknown) => console.warn('Failed to update the offline cache:', err);
+
+/**
+ * Keeps the store in sync with the repository through live listeners.
+ * Always listens to the metadata document, but only to the chunks that have been requested
+ * (see `chunkStatus`): the newest chunk at startup, chunks appended later, and whatever
+ * the views ask for as the user pages through photos or opens an album.
+ * Listeners (and their photos) are dropped when chunks disappear from the metadata.
+ * Every document is validated on the way in (see services/validation.ts).
+ */
+export const startGallerySync = (
+  store: GalleryStore,
+  repository: GalleryRepository,
+  { offlineCache = false }: GallerySyncOptions = {}
+): Unsubscribe => {
+  const { dispatch } = store;
+  const chunkSubscriptions = new Map<string, Unsubscribe>();
+  let knownChunkIds: Set<string> | null = null;
+  let stopped = false;
+
+  const receiveChunk = (chunkId: string, photos: unknown) => {
+    // A missing chunk reads as empty; records that fail validation are held back for editors to look at
+    const { valid, quarantined } = parseChunk(photos || [], chunkId, store.getState().schemaVersion);
+    dispatch({ type: 'chunkReceived', chunkId, photos: valid.map(photo => ({ ...photo, _chunkId: chunkId })) });
+    dispatch({ type: 'recordsQuarantined', source: chunkId, records: quarantined });
+  };
+
+  const handleMetadataError = (err: Error) => {
+    console.error(err);
+    if (store.getState().loading) dispatch({ type: 'loadFailed', error: 'Failed to fetch gallery data.' });
+  };
+
+  const subscribeToChunk = (chunkId: string) => {
+    const unsubscribe = repository.subscribeToChunk(chunkId, (photos) => {
+      receiveChunk(chunkId, photos);
+      if (offlineCache) cacheChunk(chunkId, photos || []).catch(warnCacheFailure);
+    }, (err) => {
+      console.error(err);
+      // Drop the listener so a later request can try again
+      chunkSubscriptions.get(chunkId)?.();
+      chunkSubscriptions.delete(chunkId);
+      dispatch({ type: 'chunkFailed', chunkId, error: 'Failed to fetch gallery data.' });
+    });
+    chunkSubscriptions.set(chunkId, unsubscribe);
+  };
+
+  // Start listening to every requested chunk that is still listed in the metadata
+  const subscribeToRequestedChunks = () => {
+    const { chunkIds, chunkStatus } = store.getState();
+    chunkIds.forEach(chunkId => {
+      const status = chunkStatus[chunkId];
+      if (!status || status === 'failed' || chunkSubscriptions.has(chunkId)) return;
+      subscribeToChunk(chunkId);
+    });
+  };
+
+  const unsubscribeStore = store.subscribe(subscribeToRequestedChunks);
+
+  const receiveMetadata = (rawMetadata: unknown) => {
+    // Albums written before the latest migrations are upgraded in memory until an editor migrates storage
+    const { metadata, quarantined } = parseMetadata(rawMetadata);
+    dispatch({ type: 'metadataReceived', metadata });
+    dispatch({ type: 'recordsQuarantined', source: METADATA_SOURCE, records: quarantined });
+    return metadata;
+  };
+
+  const unsubscribeMetadata = repository.subscribeToMetadata((rawMetadata) => {
+    const metadata = receiveMetadata(rawMetadata);
+    if (offlineCache) cacheMetadata(rawMetadata).catch(warnCacheFailure);
+
+    const listedChunkIds = new Set(metadata.photoChunkIds);
+    chunkSubscriptions.forEach((unsubscribe, chunkId) => {
+      if (listedChunkIds.has(chunkId)) return;
+      unsubscribe();
+      chunkSubscriptions.delete(chunkId);
+      dispatch({ type: 'chunkRemoved', chunkId });
+      if (offlineCache) uncacheChunk(chunkId).catch(warnCacheFailure);
+    });
+
+    // Chunks appended since the last snapshot hold the newest uploads, so load them right away.
+    // Chunks replaced elsewhere in the list (e.g. by storage optimization) load on demand like the rest.
+    const knownPositions = metadata.photoChunkIds
+      .map((id, i) => knownChunkIds?.has(id) ? i : -1)
+      .filter(i => i >= 0);
+    const appendedChunkIds = knownPositions.length > 0
+      ? metadata.photoChunkIds.slice(Math.max(...knownPositions) + 1)
+      : [];
+    if (appendedChunkIds.length > 0) dispatch({ type: 'chunksRequested', chunkIds: appendedChunkIds });
+
+    // The first screen only needs the newest chunk; older ones load as the user asks for them
+    const { chunkStatus } = store.getState();
+    if (!metadata.photoChunkIds.some(id => chunkStatus[id])) {
+      const [newestChunkId] = selectChunkLoadOrder(store.getState());
+      if (newestChunkId) dispatch({ type: 'chunksRequested', chunkIds: [newestChunkId] });
+    }
+    knownChunkIds = listedChunkIds;
+  }, handleMetadataError);
+
+  // The cached copy fills the screen while the server is slow or out of reach; live snapshots replace it
+  if (offlineCache) {
+    readCachedGallery().then(cached => {
+      if (!cached || stopped || knownChunkIds) return;
+      receiveMetadata(cached.metadata);
+      // Cached chunks count as loaded, so their live listeners start now and refresh them once online
+      Object.entries(cached.chunks).forEach(([chunkId, photos]) => receiveChunk(chunkId, photos));
+    }).catch(err => console.warn('Failed to read the offline cache:', err));
+  }
+
+  return () => {
+    stopped = true;
+    unsubscribeStore();
+    unsubscribeMetadata();
+    chunkSubscriptions.forEach(unsubscribe => unsubscribe());
+    chunkSubscriptions.clear();
+  };
+};
@@ -0,0 +1,233 @@
+import { Photo, Album, AlbumWithStats, PhotoWithChunk } from '../types';
+import { GalleryState, ChunkLoadStatus } from './galleryStore';
+import { createUnsortedAlbum, summarizeChunk, ChunkSummary, ChunkAlbumSummary } from '../services/galleryRepository';
+import { UNSORTED_ALBUM_ID } from '../config/galleryConfig';
+import { QuarantinedRecord } from '../services/validation';
+
+// Caches the last result so selectors hand back the same reference until their inputs change.
+// useSyncExternalStore requires this, otherwise every store update would re-render every subscriber.
+const memoizeOne = <A extends unknown[], R>(fn: (...args: A) => R) => {
+  let lastArgs: A | null = null;
+  let lastResult: R;
+  return (...args: A): R => {
+    if (lastArgs && args.length === lastArgs.length && args.every((arg, i) => arg === lastArgs![i])) {
+      return lastResult;
+    }
+    lastArgs = args;
+    lastResult = fn(...args);
+    return lastResult;
+  };
+};
+
+const buildPhotoList = memoizeOne(
+  (photoIds: string[], photosById: Record<string, PhotoWithChunk>): PhotoWithChunk[] =>
+    photoIds.map(id => photosById[id]).filter(Boolean)
+);
+
+const buildAlbumList = memoizeOne(
+  (albumIds: string[], albumsById: Record<string, Album>): Album[] =>
+    albumIds.map(id => albumsById[id]).filter(Boolean)
+);
+
+// Photos whose album no longer exists are grouped under the Unsorted album, so they can always be found
+const buildPhotosByAlbum = memoizeOne(
+  (photos: PhotoWithChunk[], albumsById: Record<string, Album>): Record<string, PhotoWithChunk[]> => {
+    const grouped: Record<string, PhotoWithChunk[]> = {};
+    photos.forEach(photo => {
+      const albumId = albumsById[photo.albumId] ? photo.albumId : UNSORTED_ALBUM_ID;
+      if (!grouped[albumId]) grouped[albumId] = [];
+      grouped[albumId].push(photo);
+    });
+    return grouped;
+  }
+);
+
+// Every quarantined record, whichever chunk or document it came from
+const buildQuarantineList = memoizeOne(
+  (quarantine: Record<string, QuarantinedRecord[]>): QuarantinedRecord[] => Object.values(quarantine).flat()
+);
+
+// Per-chunk summaries: computed from the photos for loaded chunks (so local edits show up at once),
+// taken from the metadata chunk index for the rest
+const buildChunkSummaries = memoizeOne((
+  chunkIds: string[],
+  chunkIndex: Record<string, ChunkSummary>,
+  chunkStatus: Record<string, ChunkLoadStatus>,
+  photos: PhotoWithChunk[]
+): Record<string, ChunkSummary> => {
+  const photosByChunk: Record<string, PhotoWithChunk[]> = {};
+  photos.forEach(photo => {
+    if (!photosByChunk[photo._chunkId]) photosByChunk[photo._chunkId] = [];
+    photosByChunk[photo._chunkId].push(photo);
+  });
+
+  const summaries: Record<string, ChunkSummary> = {};
+  chunkIds.forEach(chunkId => {
+    if (chunkStatus[chunkId] === 'loaded') {
+      // Photos are held newest upload first; summaries expect storage (upload) order
+      summaries[chunkId] = summarizeChunk([...(photosByChunk[chunkId] || [])].reverse());
+    } else if (chunkIndex[chunkId]) {
+      summaries[chunkId] = chunkIndex[chunkId];
+    }
+  });
+  return summaries;
+});
+
+// Totals per album across every chunk, loaded or not. Orphaned photos count towards Unsorted.
+const buildAlbumTotals = memoizeOne((
+  chunkIds: string[],
+  summaries: Record<string, ChunkSummary>,
+  albumsById: Record<string, Album>
+): Record<string, ChunkAlbumSummary> => {
+  const totals: Record<string, ChunkAlbumSummary> = {};
+  chunkIds.forEach(chunkId => {
+    Object.entries(summaries[chunkId]?.albums || {}).forEach(([albumId, summary]) => {
+      const key = albumsById[albumId] ? albumId : UNSORTED_ALBUM_ID;
+      const total = totals[key];
+      totals[key] = total ? {
+        count: total.count + summary.count,
+        start: new Date(summary.start) < new Date(total.start) ? summary.start : total.start,
+        end: new Date(summary.end) > new Date(total.end) ? summary.end : total.end,
+        sampleUrl: summary.sampleUrl, // Chunks are in upload order, so the last one seen is the newest
+      } : { ...summary };
+    });
+  });
+  return totals;
+});
+
+const buildAlbumsWithStats = memoizeOne((
+  albums: Album[],
+  photos: PhotoWithChunk[],
+  photosByAlbum: Record<string, PhotoWithChunk[]>,
+  albumTotals: Record<string, ChunkAlbumSummary>
+): AlbumWithStats[] => {
+  // Orphaned photos get an Unsorted album even before one has been stored
+  const allAlbums = albumTotals[UNSORTED_ALBUM_ID] && !albums.some(a => a.id === UNSORTED_ALBUM_ID)
+    ? [...albums, createUnsortedAlbum()]
+    : albums;
+
+  const albumsWithComputedStats = allAlbums.map(album => {
+    const albumPhotos = photosByAlbum[album.id] || [];
+    const totals = albumTotals[album.id];
+
+    // Determine cover photo:
+    // 1. If coverPhotoId is set and exists in photos, use it.
+    // 2. Fallback to the first loaded photo in the album.
+    // 3. Before any of the album's chunks are loaded, use the sample from the chunk index.
+    let coverPhoto: Photo | undefined;
+    if (album.coverPhotoId) {
+      coverPhoto = photos.find(p => p.id === album.coverPhotoId);
+    }
+    if (!coverPhoto && albumPhotos.length > 0) {
+      coverPhoto = albumPhotos[0];
+    }
+
+    let yearRange: { start: number, end: number } | undefined = undefined;
+    let latestPhotoDate: string | undefined = undefined;
+
+    if (totals && totals.count > 0) {
+      yearRange = { start: new Date(totals.start).getFullYear(), end: new Date(totals.end).getFullYear() };
+      latestPhotoDate = new Date(totals.end).toISOString();
+    }
+
+    return {
+      ...album,
+      photoCount: totals?.count || 0,
+      coverPhotoUrl: coverPhoto?.url || totals?.sampleUrl,
+      yearRange: yearRange,
+      latestPhotoDate: latestPhotoDate,
+    };
+  });
+
+  return albumsWithComputedStats
+    .filter(album => !album.system || album.photoCount > 0)
+    .sort((a, b) => {
+      // Sort by latest photo date descending
+      const dateA = a.latestPhotoDate ? new Date(a.latestPhotoDate).getTime() : 0;
+      const dateB = b.latestPhotoDate ? new Date(b.latestPhotoDate).getTime() : 0;
+
+      if (dateA !== dateB) {
+        return dateB - dateA;
+      }
+
+      // Fallback to name
+      return a.name.localeCompare(b.name);
+    });
+});
+
+// Newest chunks first. Uses the date ranges from the chunk index when every chunk has one,
+// otherwise falls back to upload order.
+const buildChunkLoadOrder = memoizeOne((chunkIds: string[], chunkIndex: Record<string, ChunkSummary>): string[] => {
+  const newestFirst = [...chunkIds].reverse();
+  if (!chunkIds.every(id => chunkIndex[id]?.end)) return newestFirst;
+  return newestFirst.sort((a, b) => new Date(chunkIndex[b].end).getTime() - new Date(chunkIndex[a].end).getTime());
+});
+
+export const selectPhotos = (state: GalleryState) => buildPhotoList(state.photoIds, state.photosById);
+
+export const selectAlbums = (state: GalleryState) => buildAlbumList(state.albumIds, state.albumsById);
+
+export const selectPhotosByAlbum = (state: GalleryState) =>
+  buildPhotosByAlbum(selectPhotos(state), state.albumsById);
+
+const selectAlbumTotals = (state: GalleryState) => buildAlbumTotals(
+  state.chunkIds,
+  buildChunkSummaries(state.chunkIds, state.chunkIndex, state.chunkStatus, selectPhotos(state)),
+  state.albumsById
+);
+
+export const selectAlbumsWithStats = (state: GalleryState) =>
+  buildAlbumsWithStats(selectAlbums(state), selectPhotos(state), selectPhotosByAlbum(state), selectAlbumTotals(state));
+
+export const selectChunkLoadOrder = (state: GalleryState) => buildChunkLoadOrder(state.chunkIds, state.chunkIndex);
+
+export const selectHasMoreChunks = (state: GalleryState) =>
+  state.chunkIds.some(id => state.chunkStatus[id] !== 'loaded');
+
+export const selectIsLoadingChunks = (state: GalleryState) =>
+  state.chunkIds.some(id => state.chunkStatus[id] === 'loading');
+
+export const selectHasFailedChunks = (state: GalleryState) =>
+  state.chunkIds.some(id => state.chunkStatus[id] === 'failed');
+
+export const selectFailedChunkIds = (state: GalleryState) =>
+  state.chunkIds.filter(id => state.chunkStatus[id] === 'failed');
+
+// Chunks holding photos of the album, judged by the chunk index. Chunks missing from the index are
+// always included, and Unsorted needs every chunk with an orphaned photo.
+export const selectAlbumChunkIds = (state: GalleryState, albumId: string): string[] =>
+  state.chunkIds.filter(chunkId => {
+    const summary = state.chunkIndex[chunkId];
+    if (!summary) return true;
+    const albumIds = Object.keys(summary.albums);
+    if (albumId === UNSORTED_ALBUM_ID) {
+      return albumIds.some(id => id === UNSORTED_ALBUM_ID || !state.albumsById[id]);
+    }
+    return albumIds.includes(albumId);
+  });
+
+export const selectIsAlbumLoaded = (state: GalleryState, albumId: string) =>
+  selectAlbumChunkIds(state, albumId).every(id => state.chunkStatus[id] === 'loaded');
+
+export const selectLoading = (state: GalleryState) => state.loading;
+
+export const selectError = (state: GalleryState) => state.error;
+
+export const selectTrash = (state: GalleryState) => state.trash;
+
+export const selectQuarantine = (state: GalleryState) => buildQuarantineList(state.quarantine);
+
+export const selectCanUndo = (state: GalleryState) => state.history.past.length > 0;
+
+export const selectCanRedo = (state: GalleryState) => state.history.future.length > 0;
+
+// The action an undo would reverse
+export const selectLastHistoryEntry = (state: GalleryState) => state.history.past[state.history.past.length - 1] ?? null;
+
+export const selectSchemaVersion = (state: GalleryState) => state.schemaVersion;
+
+export const selectSyncStatus = (state: GalleryState) => state.sync;
+
+export const selectUploads = (state: GalleryState) => state.uploads;
+
+export const selectImports = (state: GalleryState) => state.imports;
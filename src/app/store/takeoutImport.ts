@@ -0,0 +1,90 @@
+import { TakeoutPlan, TakeoutFileError, scanTakeout, readTakeoutFiles } from '../services/takeout';
+import { getErrorMessage } from '../services/errors';
+import { TAKEOUT_QUEUE_BATCH_SIZE } from '../config/galleryConfig';
+import { GalleryStore, ImportJob } from './galleryStore';
+import { UploadRequest } from './uploadQueue';
+
+export interface TakeoutImportOptions {
+  theme: string; // Of the albums made for the export's albums
+  albumId: string; // For the photos that are in no album
+}
+
+interface TakeoutImportDependencies {
+  createAlbum: (name: string, description: string, theme: string) => Promise<string>;
+  queueUploads: (requests: UploadRequest[]) => Promise<void>;
+}
+
+/**
+ * Imports Google Takeout exports of Google Photos and zipped Apple Photos exports (see services/takeout.ts)
+ * through the upload queue: each photo and video is queued as it comes out of the zip, with the details
+ * from its sidecar.
+ * Progress and the files that could not be imported are kept in the store as an ImportJob.
+ */
+export const createTakeoutImport = (store: GalleryStore, { createAlbum, queueUploads }: TakeoutImportDependencies) => {
+  const { dispatch, getState } = store;
+
+  // Dry run: reads the sidecars and albums and lists what importing the zip would add
+  const previewTakeout = async (file: File, onProgress?: (bytesRead: number, total: number) => void) => {
+    try {
+      return await scanTakeout(file, onProgress);
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  /**
+   * Makes the export's albums (reusing albums of the same name and theme) and queues its files.
+   * Resolves once every file has been queued; the uploads themselves carry on in the background.
+   */
+  const importTakeout = async (plan: TakeoutPlan, { theme, albumId }: TakeoutImportOptions) => {
+    const id = `import_${Date.now()}`;
+    const errors: TakeoutFileError[] = [...plan.errors];
+    let completed = 0;
+    const update = (changes: Partial<ImportJob>) => dispatch({ type: 'importChanged', id, changes });
+    dispatch({
+      type: 'importStarted',
+      job: { id, fileName: plan.file.name, status: 'reading', completed, total: plan.entries.length, errors: [...errors] },
+    });
+
+    try {
+      const albumIds = new Map<string, string>();
+      for (const album of plan.albums) {
+        const existing = Object.values(getState().albumsById)
+          .find(a => !a.system && a.name === album.name && a.theme === theme);
+        albumIds.set(album.folder, existing?.id ?? await createAlbum(album.name, album.description, theme));
+      }
+
+      // Files are queued a few at a time, so the zip is not held up by a write per file
+      let batch: UploadRequest[] = [];
+      const flush = async () => {
+        const requests = batch;
+        batch = [];
+        if (requests.length > 0) await queueUploads(requests);
+      };
+
+      await readTakeoutFiles(plan, async (entry, file) => {
+        batch.push({
+          file,
+          albumId: entry.albumFolder ? albumIds.get(entry.albumFolder)! : albumId,
+          title: entry.title,
+          sidecarDetails: entry.details,
+        });
+        if (batch.length >= TAKEOUT_QUEUE_BATCH_SIZE) await flush();
+        update({ completed: ++completed });
+      }, (entry, message) => {
+        errors.push({ fileName: entry.path, message });
+        update({ completed: ++completed, errors: [...errors] });
+      });
+      await flush();
+      update({ status: 'done' });
+    } catch (err) {
+      console.error(err);
+      update({ status: 'failed', error: getErrorMessage(err, 'The import stopped. Files queued so far are still uploaded.') });
+      throw err;
+    }
+  };
+
+  const dismissImports = (ids: string[]) => {
+    dispatch({ type: 'importsRemoved', ids });
+  };
+
+  return { previewTakeout, importTakeout, dismissImports };
+};
@@ -0,0 +1,316 @@
+import { galleryRepository, imageHost, deleteImage, getImageUrl } from '../services/backend';
+import { GalleryConflictError, OfflineError } from '../services/errors';
+import { PhotoDetails, extractPhotoDetails, readImageSize, createPhotoRecord } from '../services/photoUpload';
+import { PreprocessOptions } from '../services/imagePreprocessing';
+import { PhotoHashes, hashPhotoFile } from '../services/photoHashing';
+import { getFileFormat, needsConversion, prepareUploadFile } from '../services/imageFormats';
+import { VideoInfo, isVideoFile, readVideoInfo } from '../services/videoFiles';
+import { UploadItem, addUploads, saveUpload, readUploads, readUploadFile, deleteUploads } from '../services/uploadStorage';
+import { UPLOAD_CONCURRENCY, UPLOAD_MAX_ATTEMPTS, UPLOAD_RETRY_BASE_MS } from '../config/galleryConfig';
+import { GalleryStore } from './galleryStore';
+
+// A file to queue, with what the upload dialog already knows or was told about it
+export interface UploadRequest {
+  file: File;
+  motionFile?: File; // The clip of a Live Photo whose still is `file`
+  albumId: string;
+  title?: string;
+  location?: string;
+  details?: PhotoDetails;
+  sidecarDetails?: PhotoDetails;
+  hashes?: PhotoHashes;
+  preprocess?: PreprocessOptions;
+  replacesPhotoId?: string; // An existing copy of the photo, which this upload takes the place of
+}
+
+interface UploadQueueDependencies {
+  // Throws OfflineError while offline, and sends queued offline writes first (see galleryActions)
+  ensureCanWrite: () => Promise<void>;
+  // Moves photos to the trash, like deleting them in the editor
+  trashPhotos: (photoIds: string[]) => Promise<void>;
+}
+
+// Steps that were under way when the page was closed start over
+const INTERRUPTED_STATUSES: UploadItem['status'][] = ['extracting', 'processing', 'uploading', 'saving'];
+
+const removeExtension = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+/**
+ * Uploads queued files in the background, UPLOAD_CONCURRENCY at a time. Files and their progress are kept
+ * in IndexedDB (see services/uploadStorage.ts), so the queue carries on after a reload.
+ * Each file goes through its steps on its own: a failure is retried with a growing delay and only affects that file.
+ * Pausing and cancelling take effect between steps.
+ */
+export const createUploadQueue = (store: GalleryStore, { ensureCanWrite, trashPhotos }: UploadQueueDependencies) => {
+  const { dispatch, getState } = store;
+  const running = new Set<string>();
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let started = false;
+  let lastQueuedAt = 0;
+
+  const findUpload = (id: string) => getState().uploads.find(u => u.id === id);
+
+  const deleteHostedFiles = (urls: (string | undefined)[]) => Promise.all(urls.filter(Boolean).map(url =>
+    deleteImage(url!).catch(err => console.warn('Failed to delete image file:', err))
+  ));
+
+  // Size, length and poster frame of a clip; undefined for codecs this browser cannot play
+  const readClipInfo = (file: File): Promise<VideoInfo | undefined> => readVideoInfo(file).catch(err => {
+    console.warn(`Failed to read ${file.name}:`, err);
+    return undefined;
+  });
+
+  const update = async (id: string, changes: Partial<UploadItem>) => {
+    dispatch({ type: 'uploadChanged', id, changes });
+    const item = findUpload(id);
+    if (item) await saveUpload(item);
+  };
+
+  // True when the upload was paused or cancelled during the last step. `hostedUrls` are its files on the image host, if any.
+  const isInterrupted = async (id: string, ...hostedUrls: (string | undefined)[]) => {
+    const item = findUpload(id);
+    if (!item) {
+      // Cancelled: the photo will not be saved, so its files must not stay on the host either
+      await deleteHostedFiles(hostedUrls);
+      return true;
+    }
+    if (item.paused) {
+      await update(id, { status: 'pending' });
+      return true;
+    }
+    return false;
+  };
+
+  const processUpload = async (id: string) => {
+    const item = findUpload(id);
+    if (!item) return;
+    try {
+      const file = await readUploadFile(id);
+      const motionFile = item.motionFileName ? await readUploadFile(id, { motion: true }) : undefined;
+      if (!file || (item.motionFileName && !motionFile)) {
+        await update(id, { status: 'failed', error: 'The file is no longer stored on this device. Remove it and add it again.' });
+        return;
+      }
+      const isVideo = isVideoFile(file);
+
+      await update(id, { status: 'extracting', error: undefined, retryAt: undefined });
+      // Read from the original: a preprocessed file has no EXIF data left
+      const details = await extractPhotoDetails(file, item.fileName, item.details, {
+        stripGps: item.preprocess?.stripGps,
+        preferred: item.sidecarDetails,
+      });
+      const hashes = item.hashes ?? await hashPhotoFile(file).catch((err): PhotoHashes => {
+        console.warn(`Failed to hash ${item.fileName}:`, err);
+        return {};
+      });
+      const videoInfo = isVideo ? await readClipInfo(file) : undefined;
+      const motionInfo = motionFile ? await readClipInfo(motionFile) : undefined;
+      await update(id, { details, hashes });
+
+      let imageUrl = item.imageUrl;
+      let videoUrl = item.videoUrl;
+      if (await isInterrupted(id, imageUrl, videoUrl)) return;
+      let uploadFile: File | undefined;
+      if (!imageUrl) {
+        uploadFile = file;
+        // Clips are uploaded as they are; the image host makes copies browsers can play
+        if (!isVideo && (item.preprocess || needsConversion(file))) {
+          await update(id, { status: 'processing' });
+          uploadFile = await prepareUploadFile(file, item.preprocess);
+          await update(id, { processedSize: uploadFile.size });
+          if (await isInterrupted(id, videoUrl)) return;
+        }
+
+        await ensureCanWrite();
+        await update(id, { status: 'uploading' });
+        imageUrl = await imageHost.upload(uploadFile, videoInfo?.poster);
+        await update(id, { imageUrl });
+        if (await isInterrupted(id, imageUrl, videoUrl)) return;
+      }
+      if (motionFile && !videoUrl) {
+        await ensureCanWrite();
+        await update(id, { status: 'uploading' });
+        // The still stands in for the poster frame of a clip this browser cannot play
+        videoUrl = await imageHost.upload(motionFile, motionInfo?.poster ?? uploadFile);
+        await update(id, { videoUrl });
+        if (await isInterrupted(id, imageUrl, videoUrl)) return;
+      }
+
+      await ensureCanWrite();
+      await update(id, { status: 'saving' });
+      // Already saved by an attempt that failed afterwards
+      if (!getState().photosById[item.photoId]) {
+        // Without the clip's own size, its poster frame on the host gives the proportions
+        const size = videoInfo
+          ? { width: videoInfo.width, height: videoInfo.height }
+          : await readImageSize(isVideo ? getImageUrl(imageUrl) : imageUrl);
+        const photo = createPhotoRecord({
+          id: item.photoId, url: imageUrl, title: item.title, albumId: item.albumId, location: item.location, ...size,
+          mediaType: isVideo ? 'video' : motionFile ? 'livePhoto' : 'image',
+          videoUrl,
+          duration: (videoInfo ?? motionInfo)?.duration,
+          originalFileName: item.fileName, originalFormat: getFileFormat(file), ...hashes,
+        }, details);
+        const chunkId = await galleryRepository.addPhoto(photo);
+        dispatch({ type: 'photosAdded', photos: [{ ...photo, _chunkId: chunkId }] });
+      }
+      if (item.replacesPhotoId) {
+        // Restorable from the trash; it may also have been deleted by hand in the meantime
+        await trashPhotos([item.replacesPhotoId]).catch(err => {
+          if (!(err instanceof GalleryConflictError)) throw err;
+        });
+      }
+
+      // Finished uploads stay in the queue (but not in storage) until cleared, so the tray can list them
+      dispatch({ type: 'uploadChanged', id, changes: { status: 'done', error: undefined, retryAt: undefined } });
+      await deleteUploads([id]);
+    } catch (err) {
+      const current = findUpload(id);
+      if (!current) return;
+      // Not the file's fault: it waits for the connection to come back
+      if (err instanceof OfflineError) {
+        await update(id, { status: 'pending' });
+        return;
+      }
+      console.error(`Failed to upload ${current.fileName}:`, err);
+      const attempts = current.attempts + 1;
+      const error = err instanceof Error ? err.message : String(err);
+      await update(id, attempts >= UPLOAD_MAX_ATTEMPTS
+        ? { status: 'failed', attempts, error, retryAt: undefined }
+        : { status: 'pending', attempts, error, retryAt: Date.now() + UPLOAD_RETRY_BASE_MS * 2 ** (attempts - 1) });
+    }
+  };
+
+  // Starts as many waiting uploads as there are free slots, and wakes up again for the next retry
+  const processQueue = () => {
+    clearTimeout(retryTimer);
+    if (!started || !getState().sync.online) return;
+
+    const now = Date.now();
+    const waiting = getState().uploads.filter(u => u.status === 'pending' && !u.paused && !running.has(u.id));
+    waiting
+      .filter(u => !u.retryAt || u.retryAt <= now)
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - running.size))
+      .forEach(({ id }) => {
+        running.add(id);
+        processUpload(id)
+          .catch(err => console.error('Upload queue error:', err))
+          .finally(() => {
+            running.delete(id);
+            processQueue();
+          });
+      });
+
+    const nextRetry = Math.min(...waiting.filter(u => u.retryAt && u.retryAt > now).map(u => u.retryAt!));
+    if (Number.isFinite(nextRetry)) retryTimer = setTimeout(processQueue, nextRetry - now);
+  };
+
+  const queueUploads = async (requests: UploadRequest[]) => {
+    try {
+      // Upload ids start with this time, so batches queued within the same millisecond must not share it
+      const now = Math.max(Date.now(), lastQueuedAt + 1);
+      lastQueuedAt = now;
+      const queuedAt = new Date(now).toISOString();
+      const uploads = requests.map(({ file, motionFile, albumId, title, location, details, sidecarDetails, hashes, preprocess, replacesPhotoId }, i) => ({
+        file,
+        motionFile,
+        item: {
+          id: `upload_${now}-${String(i).padStart(5, '0')}`,
+          fileName: file.name,
+          motionFileName: motionFile?.name,
+          size: file.size + (motionFile?.size ?? 0),
+          albumId,
+          title: title || removeExtension(file.name),
+          location,
+          photoId: `photo_${now}-${Math.random().toString(36).substr(2, 9)}`,
+          status: 'pending',
+          paused: false,
+          attempts: 0,
+          details,
+          sidecarDetails,
+          hashes,
+          preprocess,
+          replacesPhotoId,
+          queuedAt,
+        } satisfies UploadItem,
+      }));
+      await addUploads(uploads);
+      dispatch({ type: 'uploadsQueued', items: uploads.map(u => u.item) });
+      processQueue();
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  // Uploads that are being saved can no longer be stopped
+  const isStoppable = (item: UploadItem) => item.status !== 'saving' && item.status !== 'done';
+
+  const pauseUploads = async (ids: string[]) => {
+    const toPause = getState().uploads.filter(u => ids.includes(u.id) && isStoppable(u) && u.status !== 'failed');
+    await Promise.all(toPause.map(u => update(u.id, { paused: true })));
+  };
+
+  const resumeUploads = async (ids: string[]) => {
+    const toResume = getState().uploads.filter(u => ids.includes(u.id) && u.paused);
+    await Promise.all(toResume.map(u => update(u.id, { paused: false })));
+    processQueue();
+  };
+
+  // Failed uploads start over with a full set of attempts; uploads waiting for a retry go right away
+  const retryUploads = async (ids: string[]) => {
+    const toRetry = getState().uploads.filter(u => ids.includes(u.id) && (u.status === 'failed' || u.retryAt));
+    await Promise.all(toRetry.map(u => update(u.id, {
+      status: 'pending',
+      paused: false,
+      attempts: u.status === 'failed' ? 0 : u.attempts,
+      retryAt: undefined,
+    })));
+    processQueue();
+  };
+
+  const cancelUploads = async (ids: string[]) => {
+    try {
+      const toCancel = getState().uploads.filter(u => ids.includes(u.id) && isStoppable(u));
+      dispatch({ type: 'uploadsRemoved', ids: toCancel.map(u => u.id) });
+      await deleteUploads(toCancel.map(u => u.id));
+      // Uploads under way clean up after themselves once their current step is over
+      await deleteHostedFiles(toCancel.filter(u => !running.has(u.id)).flatMap(u => [u.imageUrl, u.videoUrl]));
+    } catch (err) { console.error(err); throw err; }
+  };
+
+  const clearFinishedUploads = () => {
+    const finished = getState().uploads.filter(u => u.status === 'done').map(u => u.id);
+    if (finished.length > 0) dispatch({ type: 'uploadsRemoved', ids: finished });
+  };
+
+  /**
+   * Restores the uploads left by an earlier session and starts working through the queue.
+   * Uploads need a signed-in editor, so this runs while one is. Returns a function that stops the queue
+   * from starting further uploads.
+   */
+  const startUploadQueue = () => {
+    started = true;
+    readUploads()
+      .then(items => {
+        dispatch({
+          type: 'uploadsLoaded',
+          items: items.map(item => INTERRUPTED_STATUSES.includes(item.status) ? { ...item, status: 'pending' } : item),
+        });
+        processQueue();
+      })
+      .catch(err => console.error('Failed to restore the upload queue:', err));
+
+    // The queue holds off while offline (see processQueue) and picks up again once the connection is back
+    let wasOnline = getState().sync.online;
+    const unsubscribe = store.subscribe(() => {
+      const { online } = getState().sync;
+      if (online && !wasOnline) processQueue();
+      wasOnline = online;
+    });
+    return () => {
+      started = false;
+      clearTimeout(retryTimer);
+      unsubscribe();
+    };
+  };
+
+  return { queueUploads, pauseUploads, resumeUploads, retryUploads, cancelUploads, clearFinishedUploads, startUploadQueue };
+};
@@ -1,3 +1,7 @@
+// Still image unless set. For a video, `url` is the clip, and image hosts give its poster frame as the image.
+// A Live Photo is a still (`url`) with a short clip (`videoUrl`).
+export type MediaType = 'image' | 'video' | 'livePhoto';
+
 export interface Photo {
   id: string;
   url: string;
@@ -25,6 +29,18 @@ export interface Photo {
   width?: number;
   height?: number;
   aspectRatio: 'landscape' | 'portrait' | 'square';
+
+  mediaType?: MediaType;
+  videoUrl?: string; // The clip of a Live Photo
+  duration?: number; // Seconds, for videos and Live Photos
+
+  // The file as it was picked for upload; the hosted image may have been converted (HEIC, RAW) or re-encoded
+  originalFileName?: string;
+  originalFormat?: string; // Lowercase extension, e.g. "heic" or "nef"
+
+  // For finding duplicates (see services/photoHashing.ts)
+  contentHash?: string; // SHA-256 of the uploaded file
+  perceptualHash?: string; // dHash of the picture
 }
 
 export interface Album {
@@ -34,15 +50,25 @@ export interface Album {
   theme: string; // Theme name as a string
   createdAt: string;
   coverPhotoId?: string; // ID of the photo to use as cover
-  yearRange?: {
-    start: number;
-    end: number;
-  };
+  system?: boolean; // Managed by the app (e.g. Unsorted); cannot be edited or deleted
+}
+
+// A deleted photo kept in the trash until it is restored or purged
+export interface TrashedPhoto {
+  photo: Photo; // Full record, so it can be restored as it was
+  deletedAt: string;
 }
 
 // Helper type for UI display
 export interface AlbumWithStats extends Album {
   coverPhotoUrl?: string;
   photoCount: number;
+  yearRange?: {
+    start: number;
+    end: number;
+  };
   latestPhotoDate?: string; // Date of the most recent photo in the album
 }
+
+// Photo as held in client state, tagged with the Firestore chunk it lives in
+export type PhotoWithChunk = Photo & { _chunkId: string };
@@ -0,0 +1,54 @@
+import type { PreprocessRequest, PreprocessedImage } from '../services/imagePreprocessing';
+import { serveRequests } from './serveRequests';
+
+// Web Worker that resizes and re-encodes images before upload (see services/imagePreprocessing.ts),
+// so large photos are decoded and encoded off the main thread.
+// Only type imports are allowed from the app, so the worker stays a small bundle of its own.
+
+const MIME_TYPES: Record<PreprocessRequest['options']['format'], string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+};
+
+// Canvas transforms for EXIF orientations 2–8, for an image drawn at w × h; 5–8 also swap the canvas sides
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => [number, number, number, number, number, number]> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (_, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w],
+};
+
+const preprocess = async ({ file, options, orientation }: PreprocessRequest): Promise<PreprocessedImage> => {
+  const transform = orientation ? ORIENTATION_TRANSFORMS[orientation] : undefined;
+  // Applies the EXIF orientation, which the re-encoded file no longer carries, unless one is given
+  const bitmap = await createImageBitmap(file, { imageOrientation: transform ? 'none' : 'from-image' });
+  try {
+    const scale = Math.min(1, options.maxEdge / Math.max(bitmap.width, bitmap.height));
+    const drawWidth = Math.round(bitmap.width * scale);
+    const drawHeight = Math.round(bitmap.height * scale);
+    const swapSides = !!transform && orientation! >= 5;
+    const width = swapSides ? drawHeight : drawWidth;
+    const height = swapSides ? drawWidth : drawHeight;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Image processing is not available in this browser.');
+    context.imageSmoothingQuality = 'high';
+    if (transform) context.setTransform(...transform(drawWidth, drawHeight));
+    context.drawImage(bitmap, 0, 0, drawWidth, drawHeight);
+
+    const type = MIME_TYPES[options.format];
+    const blob = await canvas.convertToBlob({ type, quality: options.quality });
+    // Browsers fall back to PNG for formats they cannot encode
+    if (blob.type !== type) throw new Error(`This browser cannot encode ${options.format.toUpperCase()} images.`);
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+serveRequests(preprocess);
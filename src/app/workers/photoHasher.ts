@@ -0,0 +1,54 @@
+import type { HashRequest, PhotoHashes } from '../services/photoHashing';
+import { serveRequests } from './serveRequests';
+
+// Web Worker that computes the hashes used to find duplicate photos (see services/photoHashing.ts):
+// a SHA-256 of the file's bytes, and a difference hash (dHash) of the picture itself.
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (blob: Blob) => toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+
+// 64-bit dHash: the image is shrunk to 9 × 8 grey pixels, and each bit tells whether a pixel is brighter
+// than its right-hand neighbour. Resizing, re-encoding and small edits leave most bits as they were.
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+const differenceHash = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: 'from-image',
+    resizeWidth: DHASH_WIDTH,
+    resizeHeight: DHASH_HEIGHT,
+    resizeQuality: 'medium',
+  });
+  try {
+    const canvas = new OffscreenCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Image processing is not available in this browser.');
+    context.drawImage(bitmap, 0, 0);
+    const { data } = context.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const grey = (x: number, y: number) => {
+      const i = (y * DHASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    const bytes = new Uint8Array(DHASH_HEIGHT);
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        if (grey(x, y) > grey(x + 1, y)) bytes[y] |= 1 << (7 - x);
+      }
+    }
+    return toHex(bytes);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const hash = async ({ file, image }: HashRequest): Promise<PhotoHashes> => {
+  const contentHash = file ? await sha256(file) : undefined;
+  const picture = image ?? file;
+  // Formats the browser cannot decode still get their content hash
+  const perceptualHash = picture ? await differenceHash(picture).catch(() => undefined) : undefined;
+  return { contentHash, perceptualHash };
+};
+
+serveRequests(hash);
@@ -0,0 +1,21 @@
+import type { WorkerReply, WorkerRequest } from '../services/workerClient';
+
+// Worker side of services/workerClient.ts, shared by the workers in this folder.
+// Like the workers themselves, it may only import types from the app.
+
+/**
+ * Answers every request with the result of `handle`, or with its error message. Requests are handled
+ * one after the other, so a worker only holds one file in memory at a time.
+ */
+export const serveRequests = <Payload, Result>(handle: (payload: Payload) => Promise<Result>) => {
+  const reply = (message: WorkerReply<Result>) => self.postMessage(message);
+  let previous: Promise<void> = Promise.resolve();
+
+  self.onmessage = (event: MessageEvent<WorkerRequest<Payload>>) => {
+    const request = event.data;
+    previous = previous
+      .then(() => handle(request))
+      .then(result => reply({ id: request.id, type: 'done', result }))
+      .catch(err => reply({ id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) }));
+  };
+};
@@ -1,7 +1,16 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./app/App.tsx";
+  import { GalleryProvider } from "./app/context/GalleryProvider.tsx";
+  import { registerServiceWorker } from "./app/services/offlineImages.ts";
   import "./styles/index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  createRoot(document.getElementById("root")!).render(
+    <GalleryProvider>
+      <App />
+    </GalleryProvider>
+  );
+
+  registerServiceWorker();
+  
   
\ No newline at end of file
@@ -0,0 +1,291 @@
+import type { OfflineAlbumStatus, ServiceWorkerReply, ServiceWorkerRequest } from './app/services/offlineImages';
+
+// Service worker, built to sw.js by plugins/serviceWorker.ts (production builds only).
+// - Every file of the build is precached, so the installed app starts without a connection; the gallery
+//   data itself comes from the offline cache in IndexedDB (see services/offlineCache.ts).
+// - Resized images are cached as they are viewed. Once they take up more than IMAGE_CACHE_BUDGET,
+//   the least recently used are evicted.
+// - Albums marked "available offline" pin their images, which are then kept regardless of the budget.
+// - Navigations go to the network first, then to the cached app, then to offline.html.
+// Only type imports are allowed here: the worker must build to a single file.
+
+// The DOM library the app is checked against has no service worker event types
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+interface ExtendableMessageEvent extends ExtendableEvent {
+  readonly data: unknown;
+  readonly ports: readonly MessagePort[];
+}
+interface ServiceWorkerScope {
+  readonly registration: ServiceWorkerRegistration;
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+// Replaced at build time with the build's files (relative to the worker) and a hash of their names
+declare const __SW_MANIFEST__: { version: string; files: string[] };
+
+const sw = self as unknown as ServiceWorkerScope;
+const { version, files } = __SW_MANIFEST__;
+
+const SHELL_CACHE_PREFIX = 'gallery-shell-';
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${version}`;
+const IMAGE_CACHE = 'gallery-images';
+const INDEX_CACHE = 'gallery-image-index';
+const INDEX_KEY = 'index.json';
+const SHELL_PAGE = 'index.html';
+const OFFLINE_PAGE = 'offline.html';
+
+// Unpinned images beyond this are evicted, least recently used first
+const IMAGE_CACHE_BUDGET = 200 * 1024 * 1024;
+const PREFETCH_CONCURRENCY = 4;
+// Last-used times are written back in batches rather than on every image shown
+const INDEX_SAVE_DELAY_MS = 2000;
+
+const scopeUrl = (path: string) => new URL(path, sw.registration.scope).href;
+const shellUrls = new Set(files.map(scopeUrl));
+
+// --- App shell ---
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll([...shellUrls]))
+      .then(() => sw.skipWaiting())
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names.filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE).map(name => caches.delete(name))
+    );
+    await sw.clients.claim();
+  })());
+});
+
+const respondToNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch {
+    const fallback = await caches.match(scopeUrl(SHELL_PAGE), { cacheName: SHELL_CACHE })
+      ?? await caches.match(scopeUrl(OFFLINE_PAGE), { cacheName: SHELL_CACHE });
+    return fallback ?? Response.error();
+  }
+};
+
+// --- Image cache ---
+
+interface ImageRecord {
+  bytes: number;
+  lastUsed: number;
+  albums: string[]; // Albums that pin this image; unpinned images are subject to the budget
+}
+
+interface ImageIndex {
+  images: Record<string, ImageRecord>;
+  albums: Record<string, OfflineAlbumStatus & { urls: string[] }>;
+}
+
+let indexPromise: Promise<ImageIndex> | null = null;
+let pendingSave: Promise<void> | null = null;
+
+// Kept in memory while the worker runs, and in its own cache so it survives the worker being stopped
+const loadIndex = (): Promise<ImageIndex> => {
+  if (!indexPromise) {
+    indexPromise = caches.open(INDEX_CACHE)
+      .then(cache => cache.match(INDEX_KEY))
+      .then(response => response ? response.json() : { images: {}, albums: {} })
+      .catch(() => ({ images: {}, albums: {} }));
+  }
+  return indexPromise;
+};
+
+const writeIndex = async () => {
+  const index = await loadIndex();
+  const cache = await caches.open(INDEX_CACHE);
+  await cache.put(INDEX_KEY, new Response(JSON.stringify(index), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const scheduleIndexSave = (): Promise<void> => {
+  if (!pendingSave) {
+    pendingSave = new Promise(resolve => setTimeout(resolve, INDEX_SAVE_DELAY_MS)).then(() => {
+      // Changes made from here on are picked up by the next save
+      pendingSave = null;
+      return writeIndex();
+    });
+  }
+  return pendingSave;
+};
+
+const isImageUrl = (url: URL) =>
+  (url.hostname === 'res.cloudinary.com' && url.pathname.includes('/upload/')) ||
+  (url.origin === new URL(sw.registration.scope).origin && url.pathname.includes('/__local-images/'));
+
+// A CORS response can be measured; an opaque one would count as several megabytes against the storage quota
+const fetchImage = async (url: string): Promise<Response> => {
+  const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  if (!response.ok) throw new Error(`Image request failed with status ${response.status}`);
+  return response;
+};
+
+const evictImages = async (index: ImageIndex) => {
+  const unpinned = Object.entries(index.images)
+    .filter(([, record]) => record.albums.length === 0)
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  let total = unpinned.reduce((sum, [, record]) => sum + record.bytes, 0);
+  if (total <= IMAGE_CACHE_BUDGET) return;
+
+  const cache = await caches.open(IMAGE_CACHE);
+  for (const [url, record] of unpinned) {
+    if (total <= IMAGE_CACHE_BUDGET) break;
+    await cache.delete(url);
+    delete index.images[url];
+    total -= record.bytes;
+  }
+};
+
+// Stores the image (pinned to `albumId`, if given) and returns its size
+const storeImage = async (url: string, response: Response, albumId?: string): Promise<number> => {
+  const bytes = Number(response.headers.get('Content-Length')) || (await response.clone().blob()).size;
+  const cache = await caches.open(IMAGE_CACHE);
+  await cache.put(url, response);
+
+  const index = await loadIndex();
+  const albums = index.images[url]?.albums ?? [];
+  index.images[url] = {
+    bytes,
+    lastUsed: Date.now(),
+    albums: albumId && !albums.includes(albumId) ? [...albums, albumId] : albums,
+  };
+  await evictImages(index);
+  return bytes;
+};
+
+const respondWithImage = async (event: FetchEvent): Promise<Response> => {
+  const { request } = event;
+  const cache = await caches.open(IMAGE_CACHE);
+  // Formats chosen with f_auto vary by browser, but a browser always gets the same one back
+  const cached = await cache.match(request.url, { ignoreVary: true });
+  const index = await loadIndex();
+
+  if (cached) {
+    const record = index.images[request.url];
+    if (record) {
+      record.lastUsed = Date.now();
+      event.waitUntil(scheduleIndexSave());
+    }
+    return cached;
+  }
+
+  try {
+    const response = await fetchImage(request.url);
+    event.waitUntil(storeImage(request.url, response.clone()).then(scheduleIndexSave));
+    return response;
+  } catch {
+    // The host refused CORS, or the network is down: let the browser make the request as usual, uncached
+    return fetch(request);
+  }
+};
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(respondToNavigation(request));
+  } else if (isImageUrl(url)) {
+    event.respondWith(respondWithImage(event));
+  } else if (shellUrls.has(url.href)) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached ?? fetch(request)));
+  }
+});
+
+// --- Offline albums ---
+
+const releaseImages = (index: ImageIndex, albumId: string, urls: string[]) => {
+  urls.forEach(url => {
+    const record = index.images[url];
+    if (record) record.albums = record.albums.filter(id => id !== albumId);
+  });
+};
+
+const pinAlbum = async (albumId: string, urls: string[], port: MessagePort): Promise<OfflineAlbumStatus> => {
+  const index = await loadIndex();
+  const cache = await caches.open(IMAGE_CACHE);
+  // Marking an album again refreshes it: images it no longer shows are released
+  releaseImages(index, albumId, (index.albums[albumId]?.urls ?? []).filter(url => !urls.includes(url)));
+
+  let completed = 0;
+  let failed = 0;
+  let bytes = 0;
+  const queue = [...urls];
+  const prefetchNext = async (): Promise<void> => {
+    const url = queue.shift();
+    if (!url) return;
+    try {
+      const record = index.images[url];
+      if (record && await cache.match(url, { ignoreVary: true })) {
+        if (!record.albums.includes(albumId)) record.albums.push(albumId);
+        bytes += record.bytes;
+      } else {
+        bytes += await storeImage(url, await fetchImage(url), albumId);
+      }
+    } catch {
+      failed++;
+    }
+    port.postMessage({ type: 'progress', completed: ++completed, total: urls.length } satisfies ServiceWorkerReply);
+    return prefetchNext();
+  };
+  await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, prefetchNext));
+
+  const status: OfflineAlbumStatus = { imageCount: urls.length - failed, bytes, failed, savedAt: new Date().toISOString() };
+  index.albums[albumId] = { ...status, urls };
+  await writeIndex();
+  return status;
+};
+
+const unpinAlbum = async (albumId: string) => {
+  const index = await loadIndex();
+  releaseImages(index, albumId, index.albums[albumId]?.urls ?? []);
+  delete index.albums[albumId];
+  await evictImages(index);
+  await writeIndex();
+};
+
+const handleMessage = async (request: ServiceWorkerRequest, port: MessagePort): Promise<ServiceWorkerReply> => {
+  switch (request.type) {
+    case 'pinAlbum':
+      return { type: 'albumPinned', status: await pinAlbum(request.albumId, request.urls, port) };
+    case 'unpinAlbum':
+      await unpinAlbum(request.albumId);
+      return { type: 'albumUnpinned' };
+    case 'listOfflineAlbums': {
+      const { albums } = await loadIndex();
+      return {
+        type: 'offlineAlbums',
+        albums: Object.fromEntries(Object.entries(albums).map(([albumId, { urls, ...status }]) => [albumId, status])),
+      };
+    }
+  }
+};
+
+sw.addEventListener('message', (event) => {
+  const [port] = event.ports;
+  if (!port) return;
+  event.waitUntil(
+    handleMessage(event.data as ServiceWorkerRequest, port)
+      .catch((err): ServiceWorkerReply => ({ type: 'error', message: err instanceof Error ? err.message : String(err) }))
+      .then(reply => port.postMessage(reply))
+  );
+});
@@ -2,6 +2,8 @@ import { defineConfig } from 'vite'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
+import { localImageHost } from './plugins/localImageHost'
+import { serviceWorker } from './plugins/serviceWorker'
 
 export default defineConfig({
   plugins: [
@@ -9,6 +11,10 @@ export default defineConfig({
     // Tailwind is not being actively used – do not remove them
     react(),
     tailwindcss(),
+    // Storage for VITE_IMAGE_HOST=local (dev and preview servers only)
+    localImageHost(),
+    // Offline support and installability (production builds only)
+    serviceWorker(),
   ],
   base: '/web-gallery/',
   resolve: {